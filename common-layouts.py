@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\common-layouts.py
-// Generated at: 2025-10-16T08:20:11.107Z
\ No newline at end of file
@@ -1,120 +1,339 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, euint64, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract VcIdFHE is SepoliaConfig {
+    enum IssuerStatus { Unknown, Allowed, Denied }
+
+    struct IssuerInfo {
+        IssuerStatus status;
+        string displayName;
+        uint32 allowedCredentialTypes;
+        uint256 updatedAt;
+    }
+
+    /// @dev Off-chain definitions (schemas/) pack claim fields into the euint64 attributes slot;
+    /// the chain records their hash and where the field weighed by the proof engine sits
+    struct CredentialSchema {
+        string name;
+        uint32 credentialType;
+        uint8 scoreOffset;
+        uint8 scoreWidth;
+        bytes32 definitionHash;
+        bool active;
+    }
+
     struct EncryptedCredential {
         uint256 id;
         address issuer;
+        uint256 schemaId;
         euint32 encryptedCredentialType;
-        euint32 encryptedAttributes;
+        euint64 encryptedAttributes;
         euint32 encryptedExpiry;
         uint256 timestamp;
+        bool revoked;
+    }
+
+    enum PredicateOp { Eq, Ne, Gt, Gte, Lt, Lte, In }
+
+    /// @dev One requirement of a policy: a valid, unexpired credential of `schemaId` (from `issuer`,
+    /// unless zero) whose field at `fieldOffset`/`fieldWidth` compares to `value` by `op`.
+    /// A zero `fieldWidth` only requires the credential to exist; for `In`, bit n of `value` admits n.
+    struct Predicate {
+        uint256 schemaId;
+        address issuer;
+        uint8 fieldOffset;
+        uint8 fieldWidth;
+        PredicateOp op;
+        uint64 value;
+    }
+
+    /// @dev A verifier's request, shared off-chain with holders. Only credentials from `issuers`
+    /// count when the list is non-empty; `freshness` is the maximum proof age the verifier accepts.
+    /// The age is checked by the verifier when it decrypts an answer, not here; `freshness` and
+    /// `createdAt` are part of the request id, so a holder cannot answer under altered ones.
+    struct ProofRequest {
+        address verifier;
+        Predicate[] predicates;
+        address[] issuers;
+        uint64 freshness;
+        uint64 createdAt;
+        bytes32 nonce;
+    }
+
+    struct PolicyProof {
+        bytes32 policyHash;
+        ebool encryptedResult;
+        bool isRevealed;
+        bool revealedResult;
+        uint256 timestamp;
+    }
+
+    /// @dev An answer to one proof request, kept under the holder's pseudonym for the verifier;
+    /// only `verifier` may decrypt `encryptedResult`
+    struct VerifierProof {
+        bytes32 requestId;
+        address verifier;
+        bytes32 policyHash;
+        ebool encryptedResult;
+        uint256 timestamp;
     }
 
     struct CompositeProof {
         euint32 encryptedCompositeScore;
         bool isRevealed;
+        uint32 revealedScore;
         uint256 timestamp;
     }
 
     mapping(address => EncryptedCredential[]) private userCredentials;
     mapping(address => CompositeProof) private userProofs;
     mapping(uint256 => address) private requestToUser;
+    // The composite score ciphertext each pending reveal asked the oracle for
+    mapping(uint256 => bytes32) private requestToScore;
+    mapping(address => PolicyProof) private userPolicyProofs;
+    mapping(uint256 => address) private policyRequestToUser;
+    // The policy result ciphertext each pending policy reveal asked the oracle for
+    mapping(uint256 => bytes32) private policyRequestToResult;
+    // pseudonym => verifier => request id
+    mapping(address => mapping(address => mapping(bytes32 => VerifierProof))) private verifierProofs;
+    mapping(address => mapping(address => bytes32[])) private verifierRequestIds;
+    // Credentials per holder that are not revoked
+    mapping(address => uint256) private activeCredentials;
+
+    // fhEVM caps the homomorphic compute (HCU) of one transaction. Proof generation is linear in the
+    // holder's credentials and policies in predicates x credentials, so both are bounded.
+    uint256 public constant MAX_CREDENTIALS = 8;
+    uint256 public constant MAX_POLICY_PREDICATES = 8;
+    // Field comparisons one policy may run over the holder's credentials; an `In` costs one per member
+    uint256 public constant MAX_POLICY_COMPARISONS = 64;
+    uint256 public constant MAX_REQUEST_ISSUERS = 16;
+
+    address public owner;
+    mapping(address => IssuerInfo) private issuers;
+    address[] private issuerList;
+
+    // Schema ids start at 1
+    CredentialSchema[] private schemas;
+    mapping(bytes32 => uint256) public schemaIdByHash;
 
-    event CredentialAdded(address indexed user, address indexed issuer);
-    event ProofGenerationRequested(address indexed user);
+    event CredentialAdded(address indexed user, address indexed issuer, uint256 credentialId);
+    event CredentialRevoked(address indexed user, address indexed issuer, uint256 credentialId);
+    event IssuerAllowed(address indexed issuer, string displayName, uint32 allowedCredentialTypes);
+    event IssuerDenied(address indexed issuer);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event SchemaRegistered(uint256 indexed schemaId, string name, uint32 credentialType, bytes32 definitionHash);
+    event SchemaDeactivated(uint256 indexed schemaId);
     event ProofGenerated(address indexed user);
     event ProofRevealed(address indexed user);
+    event PolicyProofGenerated(address indexed user, bytes32 indexed policyHash);
+    event PolicyProofRevealed(address indexed user, bytes32 indexed policyHash, bool result);
+    event ProofRequestAnswered(bytes32 indexed requestId, address indexed pseudonym, address indexed verifier);
 
     modifier onlyCredentialOwner() {
         require(userCredentials[msg.sender].length > 0, "No credentials");
         _;
     }
 
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    /// @notice Transfer registry ownership
+    function transferOwnership(address newOwner) public onlyOwner {
+        require(newOwner != address(0), "Invalid owner");
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @notice Allow an issuer, or update its metadata
+    /// @dev Bit n of `allowedCredentialTypes` allows credential type code n
+    function allowIssuer(
+        address issuer,
+        string calldata displayName,
+        uint32 allowedCredentialTypes
+    ) public onlyOwner {
+        require(issuer != address(0), "Invalid issuer");
+        require(allowedCredentialTypes != 0, "No credential types");
+
+        _trackIssuer(issuer);
+        issuers[issuer] = IssuerInfo({
+            status: IssuerStatus.Allowed,
+            displayName: displayName,
+            allowedCredentialTypes: allowedCredentialTypes,
+            updatedAt: block.timestamp
+        });
+
+        emit IssuerAllowed(issuer, displayName, allowedCredentialTypes);
+    }
+
+    /// @notice Deny an issuer; its credentials no longer count towards proofs
+    function denyIssuer(address issuer) public onlyOwner {
+        require(issuer != address(0), "Invalid issuer");
+
+        _trackIssuer(issuer);
+        issuers[issuer].status = IssuerStatus.Denied;
+        issuers[issuer].updatedAt = block.timestamp;
+
+        emit IssuerDenied(issuer);
+    }
+
+    function _trackIssuer(address issuer) private {
+        if (issuers[issuer].status == IssuerStatus.Unknown) {
+            issuerList.push(issuer);
+        }
+    }
+
+    /// @notice Register a credential schema definition
+    /// @dev `scoreOffset`/`scoreWidth` locate the score field inside the packed attributes
+    function registerSchema(
+        string calldata name,
+        uint32 credentialType,
+        uint8 scoreOffset,
+        uint8 scoreWidth,
+        bytes32 definitionHash
+    ) public onlyOwner returns (uint256) {
+        require(credentialType > 0 && credentialType < 32, "Invalid credential type");
+        require(scoreWidth > 0 && scoreWidth <= 32 && uint256(scoreOffset) + scoreWidth <= 64, "Invalid score field");
+        require(schemaIdByHash[definitionHash] == 0, "Schema exists");
+
+        schemas.push(CredentialSchema({
+            name: name,
+            credentialType: credentialType,
+            scoreOffset: scoreOffset,
+            scoreWidth: scoreWidth,
+            definitionHash: definitionHash,
+            active: true
+        }));
+        uint256 schemaId = schemas.length;
+        schemaIdByHash[definitionHash] = schemaId;
+
+        emit SchemaRegistered(schemaId, name, credentialType, definitionHash);
+        return schemaId;
+    }
+
+    /// @notice Stop new credentials from using a schema; existing ones keep scoring
+    function deactivateSchema(uint256 schemaId) public onlyOwner {
+        require(schemaId > 0 && schemaId <= schemas.length, "Invalid schema");
+        schemas[schemaId - 1].active = false;
+        emit SchemaDeactivated(schemaId);
+    }
+
     /// @notice Add encrypted verifiable credential
+    /// @dev Inputs are encrypted client-side against this contract and msg.sender;
+    /// the holder is granted decryption access to the stored ciphertexts.
+    /// The credential type is taken from the schema, which the issuer must be allowed to issue.
+    /// A holder has at most MAX_CREDENTIALS unrevoked credentials.
     function addCredential(
         address user,
-        euint32 credentialType,
-        euint32 attributes,
-        euint32 expiry
+        uint256 schemaId,
+        externalEuint64 attributes,
+        externalEuint32 expiry,
+        bytes calldata inputProof
     ) public {
+        require(isTrustedIssuer(msg.sender), "Untrusted issuer");
+        require(schemaId > 0 && schemaId <= schemas.length && schemas[schemaId - 1].active, "Invalid schema");
+        uint32 credentialType = schemas[schemaId - 1].credentialType;
+        require(issuers[msg.sender].allowedCredentialTypes & (uint32(1) << credentialType) != 0, "Type not allowed");
+        require(activeCredentials[user] < MAX_CREDENTIALS, "Too many credentials");
+
+        euint32 encryptedType = FHE.asEuint32(credentialType);
+        euint64 encryptedAttributes = FHE.fromExternal(attributes, inputProof);
+        euint32 encryptedExpiry = FHE.fromExternal(expiry, inputProof);
+
+        FHE.allowThis(encryptedType);
+        FHE.allowThis(encryptedAttributes);
+        FHE.allowThis(encryptedExpiry);
+        FHE.allow(encryptedType, user);
+        FHE.allow(encryptedAttributes, user);
+        FHE.allow(encryptedExpiry, user);
+
+        activeCredentials[user]++;
         uint256 newId = userCredentials[user].length;
         userCredentials[user].push(EncryptedCredential({
             id: newId,
             issuer: msg.sender,
-            encryptedCredentialType: credentialType,
-            encryptedAttributes: attributes,
-            encryptedExpiry: expiry,
-            timestamp: block.timestamp
+            schemaId: schemaId,
+            encryptedCredentialType: encryptedType,
+            encryptedAttributes: encryptedAttributes,
+            encryptedExpiry: encryptedExpiry,
+            timestamp: block.timestamp,
+            revoked: false
         }));
 
-        emit CredentialAdded(user, msg.sender);
+        emit CredentialAdded(user, msg.sender, newId);
     }
 
-    /// @notice Request composite proof generation
+    /// @notice Revoke a credential issued by the caller
+    /// @dev Revoked credentials are skipped by requestProofGeneration; existing proofs are unaffected
+    function revokeCredential(address user, uint256 credentialId) public {
+        require(credentialId < userCredentials[user].length, "Invalid credential");
+        EncryptedCredential storage cred = userCredentials[user][credentialId];
+        require(cred.issuer == msg.sender, "Not issuer");
+        require(!cred.revoked, "Already revoked");
+
+        cred.revoked = true;
+        activeCredentials[user]--;
+        emit CredentialRevoked(user, msg.sender, credentialId);
+    }
+
+    /// @notice Generate the composite proof from the caller's credentials
+    /// @dev Computed on ciphertexts only: expired credentials are masked out with FHE.select and
+    /// no credential is ever sent to the decryption oracle. Revocation and issuer trust are public,
+    /// so a caller whose credentials are all revoked or from untrusted issuers is rejected and keeps
+    /// any earlier proof.
     function requestProofGeneration() public onlyCredentialOwner {
         EncryptedCredential[] storage creds = userCredentials[msg.sender];
-        bytes32[] memory ciphertexts = new bytes32[](creds.length * 3);
-        
-        uint counter = 0;
-        for (uint i = 0; i < creds.length; i++) {
-            ciphertexts[counter++] = FHE.toBytes32(creds[i].encryptedCredentialType);
-            ciphertexts[counter++] = FHE.toBytes32(creds[i].encryptedAttributes);
-            ciphertexts[counter++] = FHE.toBytes32(creds[i].encryptedExpiry);
-        }
+        euint32 zero = FHE.asEuint32(0);
+        euint32 one = FHE.asEuint32(1);
+        euint32 compositeScore = zero;
+        euint32 validCreds = zero;
+        uint32 candidates = 0;
 
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.generateProof.selector);
-        requestToUser[reqId] = msg.sender;
+        for (uint i = 0; i < creds.length; i++) {
+            if (creds[i].revoked || !isTrustedIssuer(creds[i].issuer)) {
+                continue;
+            }
 
-        emit ProofGenerationRequested(msg.sender);
-    }
+            // Weighted by credential type, from the schema's score field
+            CredentialSchema storage schema = schemas[creds[i].schemaId - 1];
+            euint32 score = FHE.asEuint32(
+                _extractField(creds[i].encryptedAttributes, schema.scoreOffset, schema.scoreWidth)
+            );
+            euint32 weightedScore = FHE.mul(score, schema.credentialType);
 
-    /// @notice Generate composite proof from credentials
-    function generateProof(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) public {
-        address user = requestToUser[requestId];
-        require(user != address(0), "Invalid request");
+            ebool unexpired = FHE.lt(uint32(block.timestamp), creds[i].encryptedExpiry);
+            compositeScore = FHE.add(compositeScore, FHE.select(unexpired, weightedScore, zero));
+            validCreds = FHE.add(validCreds, FHE.select(unexpired, one, zero));
+            candidates++;
+        }
 
-        FHE.checkSignatures(requestId, cleartexts, proof);
+        require(candidates > 0, "No eligible credentials");
 
-        uint32[] memory values = abi.decode(cleartexts, (uint32[]));
-        
-        // Calculate composite score (simplified example)
-        euint32 compositeScore = FHE.asEuint32(0);
-        uint validCreds = 0;
-        
-        for (uint i = 0; i < values.length / 3; i++) {
-            uint32 credType = values[i*3];
-            uint32 attributes = values[i*3+1];
-            uint32 expiry = values[i*3+2];
-            
-            // Skip expired credentials
-            if (expiry > block.timestamp) {
-                // Weighted sum based on credential type and attributes
-                euint32 weightedScore = FHE.mul(
-                    FHE.asEuint32(credType),
-                    FHE.asEuint32(attributes)
-                );
-                compositeScore = FHE.add(compositeScore, weightedScore);
-                validCreds++;
-            }
+        // FHE.div takes a plaintext divisor, so select the quotient matching the encrypted count
+        euint32 averageScore = zero;
+        for (uint32 n = 1; n <= candidates; n++) {
+            averageScore = FHE.select(FHE.eq(validCreds, n), FHE.div(compositeScore, n), averageScore);
         }
+        FHE.allowThis(averageScore);
+        FHE.allow(averageScore, msg.sender);
 
-        if (validCreds > 0) {
-            userProofs[user] = CompositeProof({
-                encryptedCompositeScore: FHE.div(compositeScore, FHE.asEuint32(validCreds)),
-                isRevealed: false,
-                timestamp: block.timestamp
-            });
-        }
+        userProofs[msg.sender] = CompositeProof({
+            encryptedCompositeScore: averageScore,
+            isRevealed: false,
+            revealedScore: 0,
+            timestamp: block.timestamp
+        });
 
-        emit ProofGenerated(user);
+        emit ProofGenerated(msg.sender);
     }
 
     /// @notice Request proof reveal
@@ -127,9 +346,12 @@ contract VcIdFHE is SepoliaConfig {
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.finalizeReveal.selector);
         requestToUser[reqId] = msg.sender;
+        requestToScore[reqId] = ciphertexts[0];
     }
 
     /// @notice Finalize proof reveal
+    /// @dev A proof regenerated while the reveal was pending is left unrevealed; the old score is
+    /// not written onto it. Each request is handled once.
     function finalizeReveal(
         uint256 requestId,
         bytes memory cleartexts,
@@ -140,10 +362,296 @@ contract VcIdFHE is SepoliaConfig {
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
+        bytes32 requested = requestToScore[requestId];
+        delete requestToUser[requestId];
+        delete requestToScore[requestId];
+        if (requested != FHE.toBytes32(userProofs[user].encryptedCompositeScore)) {
+            return;
+        }
+
         userProofs[user].isRevealed = true;
+        userProofs[user].revealedScore = uint32(_decodeWord(cleartexts, 0));
         emit ProofRevealed(user);
     }
 
+    /// @notice Evaluate a verifier policy over the caller's credentials into an encrypted yes/no
+    /// @dev The result is true when every predicate is met by at least one credential. Expiry and
+    /// claim comparisons run on ciphertexts; only public metadata (schema, issuer, revocation) filters.
+    function provePolicy(Predicate[] calldata predicates) public onlyCredentialOwner returns (bytes32) {
+        ebool result = _evaluatePolicy(predicates, new address[](0));
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        bytes32 policyHash = keccak256(abi.encode(predicates));
+        userPolicyProofs[msg.sender] = PolicyProof({
+            policyHash: policyHash,
+            encryptedResult: result,
+            isRevealed: false,
+            revealedResult: false,
+            timestamp: block.timestamp
+        });
+
+        emit PolicyProofGenerated(msg.sender, policyHash);
+        return policyHash;
+    }
+
+    /// @notice Answer a verifier's proof request with an encrypted yes/no over the caller's credentials
+    /// @dev The answer is recorded under `pseudonym`, an address the holder derives per verifier, rather
+    /// than under the holder's address. This does not hide the holder: the transaction is sent from the
+    /// holder's wallet, so anyone reading it can link the pseudonym to that wallet. `pseudonymSignature`
+    /// is the pseudonym's signature of pseudonymDigest(requestId, msg.sender), proving the caller
+    /// controls it. Each request gets its
+    /// own proof, decryptable by the request's verifier only; answering again replaces it.
+    /// @return requestId keccak256(abi.encode(request)), the id the verifier watches for
+    function respondToRequest(
+        ProofRequest calldata request,
+        address pseudonym,
+        bytes calldata pseudonymSignature
+    ) public onlyCredentialOwner returns (bytes32 requestId) {
+        require(request.verifier != address(0), "Invalid verifier");
+        require(request.issuers.length <= MAX_REQUEST_ISSUERS, "Too many issuers");
+
+        requestId = keccak256(abi.encode(request));
+        require(
+            pseudonym != address(0)
+                && _recoverSigner(pseudonymDigest(requestId, msg.sender), pseudonymSignature) == pseudonym,
+            "Invalid pseudonym"
+        );
+
+        ebool result = _evaluatePolicy(request.predicates, request.issuers);
+        FHE.allowThis(result);
+        FHE.allow(result, request.verifier);
+
+        VerifierProof storage proof = verifierProofs[pseudonym][request.verifier][requestId];
+        if (proof.timestamp == 0) {
+            verifierRequestIds[pseudonym][request.verifier].push(requestId);
+        }
+        proof.requestId = requestId;
+        proof.verifier = request.verifier;
+        proof.policyHash = keccak256(abi.encode(request.predicates));
+        proof.encryptedResult = result;
+        proof.timestamp = block.timestamp;
+
+        emit ProofRequestAnswered(requestId, pseudonym, request.verifier);
+    }
+
+    /// @notice The EIP-191 message digest a pseudonym signs to answer `requestId` from `holder`
+    /// @dev Binding the holder stops anyone replaying the signature to answer with other credentials
+    function pseudonymDigest(bytes32 requestId, address holder) public view returns (bytes32) {
+        bytes32 authorization = keccak256(abi.encode(address(this), block.chainid, requestId, holder));
+        return keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", authorization));
+    }
+
+    function _recoverSigner(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) {
+            return address(0);
+        }
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        // Reject malleable signatures (EIP-2)
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) {
+            return address(0);
+        }
+        return ecrecover(digest, v, r, s);
+    }
+
+    /// @dev AND across predicates of an OR across the credentials each one applies to
+    function _evaluatePolicy(
+        Predicate[] calldata predicates,
+        address[] memory issuerAllowlist
+    ) private returns (ebool) {
+        require(predicates.length > 0 && predicates.length <= MAX_POLICY_PREDICATES, "Invalid policy");
+
+        EncryptedCredential[] storage creds = userCredentials[msg.sender];
+        ebool result = FHE.asEbool(true);
+        uint256 comparisons = 0;
+        for (uint p = 0; p < predicates.length; p++) {
+            _validatePredicate(predicates[p]);
+            ebool satisfied = FHE.asEbool(false);
+            for (uint i = 0; i < creds.length; i++) {
+                if (_predicateApplies(predicates[p], creds[i], issuerAllowlist)) {
+                    comparisons += _comparisonCount(predicates[p]);
+                    require(comparisons <= MAX_POLICY_COMPARISONS, "Policy too costly");
+                    ebool unexpired = FHE.gt(creds[i].encryptedExpiry, uint32(block.timestamp));
+                    satisfied = FHE.or(satisfied, FHE.and(unexpired, _compareField(predicates[p], creds[i])));
+                }
+            }
+            result = FHE.and(result, satisfied);
+        }
+        return result;
+    }
+
+    function _validatePredicate(Predicate calldata predicate) private view {
+        require(predicate.schemaId > 0 && predicate.schemaId <= schemas.length, "Invalid schema");
+        require(uint256(predicate.fieldOffset) + predicate.fieldWidth <= 64, "Invalid field");
+        require(predicate.op != PredicateOp.In || predicate.fieldWidth <= 6, "Invalid field");
+    }
+
+    /// @dev Homomorphic comparisons the predicate runs per credential: one per member for `In`
+    function _comparisonCount(Predicate calldata predicate) private pure returns (uint256 count) {
+        if (predicate.op != PredicateOp.In || predicate.fieldWidth == 0) {
+            return 1;
+        }
+        for (uint64 members = predicate.value; members != 0; members &= members - 1) {
+            count++;
+        }
+    }
+
+    /// @dev Public checks a credential must pass before its ciphertexts are evaluated
+    function _predicateApplies(
+        Predicate calldata predicate,
+        EncryptedCredential storage cred,
+        address[] memory issuerAllowlist
+    ) private view returns (bool) {
+        return cred.schemaId == predicate.schemaId
+            && (predicate.issuer == address(0) || cred.issuer == predicate.issuer)
+            && _isListed(issuerAllowlist, cred.issuer)
+            && !cred.revoked
+            && isTrustedIssuer(cred.issuer);
+    }
+
+    /// @dev An empty allowlist admits every issuer
+    function _isListed(address[] memory allowlist, address issuer) private pure returns (bool) {
+        if (allowlist.length == 0) {
+            return true;
+        }
+        for (uint i = 0; i < allowlist.length; i++) {
+            if (allowlist[i] == issuer) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /// @dev The `width` bits of the packed attributes starting at bit `offset`
+    function _extractField(euint64 attributes, uint8 offset, uint8 width) private returns (euint64) {
+        euint64 field = attributes;
+        if (offset > 0) {
+            field = FHE.shr(field, offset);
+        }
+        if (uint256(offset) + width < 64) {
+            field = FHE.and(field, (uint64(1) << width) - 1);
+        }
+        return field;
+    }
+
+    function _compareField(Predicate calldata predicate, EncryptedCredential storage cred) private returns (ebool) {
+        if (predicate.fieldWidth == 0) {
+            return FHE.asEbool(true);
+        }
+
+        euint64 field = _extractField(cred.encryptedAttributes, predicate.fieldOffset, predicate.fieldWidth);
+
+        if (predicate.op == PredicateOp.Eq) return FHE.eq(field, predicate.value);
+        if (predicate.op == PredicateOp.Ne) return FHE.ne(field, predicate.value);
+        if (predicate.op == PredicateOp.Gt) return FHE.gt(field, predicate.value);
+        if (predicate.op == PredicateOp.Gte) return FHE.ge(field, predicate.value);
+        if (predicate.op == PredicateOp.Lt) return FHE.lt(field, predicate.value);
+        if (predicate.op == PredicateOp.Lte) return FHE.le(field, predicate.value);
+
+        ebool isMember = FHE.asEbool(false);
+        for (uint64 n = 0; n < 64; n++) {
+            if (predicate.value & (uint64(1) << n) != 0) {
+                isMember = FHE.or(isMember, FHE.eq(field, n));
+            }
+        }
+        return isMember;
+    }
+
+    /// @notice Request the public reveal of the caller's policy result; only the yes/no answer is disclosed
+    function requestPolicyReveal() public onlyCredentialOwner {
+        PolicyProof storage proof = userPolicyProofs[msg.sender];
+        require(FHE.isInitialized(proof.encryptedResult), "No proof");
+        require(!proof.isRevealed, "Already revealed");
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(proof.encryptedResult);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.finalizePolicyReveal.selector);
+        policyRequestToUser[reqId] = msg.sender;
+        policyRequestToResult[reqId] = ciphertexts[0];
+    }
+
+    /// @notice Finalize policy reveal
+    /// @dev Like finalizeReveal, skips a policy proof replaced while the reveal was pending
+    function finalizePolicyReveal(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        address user = policyRequestToUser[requestId];
+        require(user != address(0), "Invalid request");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bytes32 requested = policyRequestToResult[requestId];
+        delete policyRequestToUser[requestId];
+        delete policyRequestToResult[requestId];
+        PolicyProof storage policyProof = userPolicyProofs[user];
+        if (requested != FHE.toBytes32(policyProof.encryptedResult)) {
+            return;
+        }
+
+        policyProof.isRevealed = true;
+        policyProof.revealedResult = _decodeWord(cleartexts, 0) != 0;
+        emit PolicyProofRevealed(user, policyProof.policyHash, policyProof.revealedResult);
+    }
+
+    /// @dev Oracle cleartexts are ABI-encoded static values, one 32-byte word per handle
+    function _decodeWord(bytes memory cleartexts, uint256 index) private pure returns (uint256 word) {
+        assembly {
+            word := mload(add(add(cleartexts, 0x20), mul(index, 0x20)))
+        }
+    }
+
+    /// @notice Check if an issuer is currently allowed
+    function isTrustedIssuer(address issuer) public view returns (bool) {
+        return issuers[issuer].status == IssuerStatus.Allowed;
+    }
+
+    /// @notice Get registry entry of an issuer
+    function getIssuer(address issuer) public view returns (
+        IssuerStatus status,
+        string memory displayName,
+        uint32 allowedCredentialTypes,
+        uint256 updatedAt
+    ) {
+        IssuerInfo storage info = issuers[issuer];
+        return (info.status, info.displayName, info.allowedCredentialTypes, info.updatedAt);
+    }
+
+    /// @notice Get every issuer that has been allowed or denied
+    function getIssuers() public view returns (address[] memory) {
+        return issuerList;
+    }
+
+    /// @notice Get the number of registered schemas
+    function getSchemaCount() public view returns (uint256) {
+        return schemas.length;
+    }
+
+    /// @notice Get a registered schema
+    function getSchema(uint256 schemaId) public view returns (
+        string memory name,
+        uint32 credentialType,
+        uint8 scoreOffset,
+        uint8 scoreWidth,
+        bytes32 definitionHash,
+        bool active
+    ) {
+        require(schemaId > 0 && schemaId <= schemas.length, "Invalid schema");
+        CredentialSchema storage schema = schemas[schemaId - 1];
+        return (
+            schema.name,
+            schema.credentialType,
+            schema.scoreOffset,
+            schema.scoreWidth,
+            schema.definitionHash,
+            schema.active
+        );
+    }
+
     /// @notice Get credential count for a user
     function getCredentialCount(address user) public view returns (uint256) {
         return userCredentials[user].length;
@@ -153,4 +661,80 @@ contract VcIdFHE is SepoliaConfig {
     function hasProof(address user) public view returns (bool) {
         return FHE.isInitialized(userProofs[user].encryptedCompositeScore);
     }
+
+    /// @notice Check if a policy proof exists for a user
+    function hasPolicyProof(address user) public view returns (bool) {
+        return FHE.isInitialized(userPolicyProofs[user].encryptedResult);
+    }
+
+    /// @notice Get the latest policy proof of a user
+    function getPolicyProof(address user) public view returns (
+        bytes32 policyHash,
+        ebool encryptedResult,
+        bool isRevealed,
+        bool revealedResult,
+        uint256 timestamp
+    ) {
+        PolicyProof storage proof = userPolicyProofs[user];
+        return (proof.policyHash, proof.encryptedResult, proof.isRevealed, proof.revealedResult, proof.timestamp);
+    }
+
+    /// @notice Get the answer recorded under `pseudonym` to one proof request of `verifier`
+    function getVerifierProof(
+        address pseudonym,
+        address verifier,
+        bytes32 requestId
+    ) public view returns (VerifierProof memory) {
+        VerifierProof storage proof = verifierProofs[pseudonym][verifier][requestId];
+        require(proof.timestamp != 0, "No proof");
+        return proof;
+    }
+
+    /// @notice Get every answer recorded under `pseudonym` to requests of `verifier`, oldest first
+    function getProofsFor(address pseudonym, address verifier) public view returns (VerifierProof[] memory proofs) {
+        bytes32[] storage requestIds = verifierRequestIds[pseudonym][verifier];
+        proofs = new VerifierProof[](requestIds.length);
+        for (uint i = 0; i < requestIds.length; i++) {
+            proofs[i] = verifierProofs[pseudonym][verifier][requestIds[i]];
+        }
+    }
+
+    /// @notice Get public metadata and ciphertext handles of a credential
+    function getCredential(address user, uint256 index) public view returns (
+        address issuer,
+        uint256 schemaId,
+        euint32 credentialType,
+        euint64 attributes,
+        euint32 expiry,
+        uint256 timestamp,
+        bool revoked
+    ) {
+        require(index < userCredentials[user].length, "Invalid credential");
+        EncryptedCredential storage cred = userCredentials[user][index];
+        return (
+            cred.issuer,
+            cred.schemaId,
+            cred.encryptedCredentialType,
+            cred.encryptedAttributes,
+            cred.encryptedExpiry,
+            cred.timestamp,
+            cred.revoked
+        );
+    }
+
+    /// @notice Get proof state for a user
+    function getProof(address user) public view returns (
+        euint32 encryptedCompositeScore,
+        bool isRevealed,
+        uint32 revealedScore,
+        uint256 timestamp
+    ) {
+        CompositeProof storage userProof = userProofs[user];
+        return (
+            userProof.encryptedCompositeScore,
+            userProof.isRevealed,
+            userProof.revealedScore,
+            userProof.timestamp
+        );
+    }
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+// deploy/manifest.ts
+import fs from "fs";
+import path from "path";
+
+export interface ContractDeployment {
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  abiHash: string;
+  deployedAt: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  deployer: string;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export interface FrontendConfig {
+  networkName: string;
+  chainId: number;
+  contractAddress: string;
+  deployer: string;
+}
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+export const FRONTEND_CONFIG_PATH = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+export function manifestPath(network: string): string {
+  return path.join(DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+export function readManifest(network: string): DeploymentManifest | null {
+  const file = manifestPath(network);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest;
+}
+
+/** Reads every recorded network manifest, sorted by network name. */
+export function readAllManifests(): DeploymentManifest[] {
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(DEPLOYMENTS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(DEPLOYMENTS_DIR, file), "utf8")) as DeploymentManifest);
+}
+
+export function writeManifest(manifest: DeploymentManifest): string {
+  const file = manifestPath(manifest.network);
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+/** Returns the address recorded for `contractName` on `network`, if any. */
+export function getDeployedAddress(network: string, contractName: string): string | undefined {
+  return readManifest(network)?.contracts[contractName]?.address;
+}
+
+export function toFrontendConfig(manifest: DeploymentManifest): FrontendConfig {
+  const vcId = manifest.contracts.VcIdFHE;
+  if (!vcId) {
+    throw new Error(`No VcIdFHE deployment recorded for network "${manifest.network}"`);
+  }
+  return {
+    networkName: manifest.network,
+    chainId: manifest.chainId,
+    contractAddress: vcId.address,
+    deployer: manifest.deployer,
+  };
+}
+
+export function writeFrontendConfig(manifest: DeploymentManifest): string {
+  const configDir = path.dirname(FRONTEND_CONFIG_PATH);
+  if (!fs.existsSync(configDir)) {
+    throw new Error(`Frontend src directory not found: ${configDir}`);
+  }
+  fs.writeFileSync(FRONTEND_CONFIG_PATH, JSON.stringify(toFrontendConfig(manifest), null, 2) + "\n");
+  return FRONTEND_CONFIG_PATH;
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\project\demo\dist.java
-// Generated at: 2025-10-01T04:45:37.710Z
\ No newline at end of file
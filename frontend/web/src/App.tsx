@@ -1,127 +1,199 @@
 import React, { useEffect, useState } from "react";
-import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { useMatch, useNavigate } from "react-router-dom";
+import { getContractReadOnly, getContractWithSigner, getDeploymentBlock, config } from "./contract";
+import { encryptCredential, userDecrypt } from "./fhevm";
+import { isDeployed, network, NETWORK_PROFILES, selectNetwork } from "./network";
+import { getWalletSigner, useWallet } from "./wallet";
+import { exportCredentialRecord } from "./w3c";
+import {
+  CREDENTIAL_TYPE_LABELS,
+  CredentialFormData,
+  CredentialHandles,
+  credentialTypeName,
+  credentialTypesFromMask,
+  describeAttributes,
+  fetchCredentials,
+  fetchIssuer,
+  fetchIssuers,
+  fetchProofEvents,
+  fetchProofState,
+  fetchSchemas,
+  issuableSchemas,
+  IssuerInfo,
+  ProofEvent,
+  ProofState,
+  RegisteredSchema,
+  toCredentialInput,
+  waitForProofEvent
+} from "./vcid";
+import IssuerPortal from "./components/IssuerPortal";
+import PolicyProofs from "./components/PolicyProofs";
+import PseudonymManager from "./components/PseudonymManager";
+import RpcHealth from "./components/RpcHealth";
+import ProofRequestResponse from "./components/ProofRequestResponse";
+import SchemaFields from "./components/SchemaFields";
+import VerifierPortal from "./components/VerifierPortal";
 import WalletManager from "./components/WalletManager";
-import WalletSelector from "./components/WalletSelector";
 import "./App.css";
 
 interface VCRecord {
-  id: string;
-  encryptedData: string;
+  id: number;
   timestamp: number;
   owner: string;
-  credentialType: string;
   issuer: string;
-  status: "pending" | "verified" | "expired";
+  issuerInfo: IssuerInfo;
+  schemaId: number;
+  status: "pending" | "verified" | "expired" | "revoked";
+  handles: CredentialHandles;
 }
 
+const EMPTY_CREDENTIAL_FORM: CredentialFormData = {
+  schemaId: "",
+  fields: {},
+  expiryDate: ""
+};
+
+type ProofAction = "generate" | "reveal";
+type ProofStage = "signing" | "mining" | "oracle";
+
+const PROOF_STAGES: { stage: ProofStage; label: string }[] = [
+  { stage: "signing", label: "Confirm in wallet" },
+  { stage: "mining", label: "Transaction mining" },
+  { stage: "oracle", label: "Waiting for decryption oracle" }
+];
+
+const proofStages = (action: ProofAction) =>
+  action === "generate" ? PROOF_STAGES.filter(s => s.stage !== "oracle") : PROOF_STAGES;
+
+const PROOF_EVENT_LABELS: Record<ProofEvent["name"], string> = {
+  ProofGenerated: "Proof generated",
+  ProofRevealed: "Score revealed",
+  PolicyProofGenerated: "Policy proven",
+  PolicyProofRevealed: "Policy answer revealed"
+};
+
+
 const App: React.FC = () => {
-  const [account, setAccount] = useState("");
+  const wallet = useWallet();
+  const { account } = wallet;
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<VCRecord[]>([]);
-  const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+  const [proofState, setProofState] = useState<ProofState | null>(null);
+  const [accountIssuer, setAccountIssuer] = useState<IssuerInfo | null>(null);
+  const [schemas, setSchemas] = useState<RegisteredSchema[]>([]);
+  // Cleartexts from user decryption, keyed by handle; kept in memory for this session only
+  const [decrypted, setDecrypted] = useState<Record<string, bigint>>({});
+  const [decrypting, setDecrypting] = useState(false);
+  const [proofEvents, setProofEvents] = useState<ProofEvent[]>([]);
+  const [proofProgress, setProofProgress] = useState<{
+    action: ProofAction;
+    stage: ProofStage;
+    startedAt: number;
+  } | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
-  const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState({
-    credentialType: "",
-    issuer: "",
-    credentialData: ""
-  });
+  const [newRecordData, setNewRecordData] = useState<CredentialFormData>(EMPTY_CREDENTIAL_FORM);
   const [activeTab, setActiveTab] = useState("dashboard");
+  const issuerRoute = useMatch("/issuer");
+  const verifierRoute = useMatch("/verifier");
+  const respondRoute = useMatch("/respond");
+  const navigate = useNavigate();
+  // The portals have their own routes so they can be linked to directly; /respond opens shared proof requests
+  const currentTab = issuerRoute ? "issuer" : verifierRoute ? "verifier" : respondRoute ? "respond" : activeTab;
   const [showTutorial, setShowTutorial] = useState(false);
 
+  // A decrypted expiry in the past overrides the issuer-derived status; revocation overrides both
+  const displayRecords = records.map(r => {
+    const expiry = decrypted[r.handles.expiry.toLowerCase()];
+    return r.status !== "revoked" && expiry !== undefined && Number(expiry) * 1000 < Date.now()
+      ? { ...r, status: "expired" as const }
+      : r;
+  });
+
   // Calculate statistics
-  const verifiedCount = records.filter(r => r.status === "verified").length;
-  const pendingCount = records.filter(r => r.status === "pending").length;
-  const expiredCount = records.filter(r => r.status === "expired").length;
+  const verifiedCount = displayRecords.filter(r => r.status === "verified").length;
+  const pendingCount = displayRecords.filter(r => r.status === "pending").length;
+  const expiredCount = displayRecords.filter(r => r.status === "expired").length;
+  const revokedCount = displayRecords.filter(r => r.status === "revoked").length;
+
+  const decryptedValue = (handle: string) => decrypted[handle.toLowerCase()];
+  const decryptedScore = proofState?.exists ? decryptedValue(proofState.scoreHandle) : undefined;
+  const schemaById = (id: number) => schemas.find(schema => schema.id === id);
+  // Schemas the connected account may self-issue under as a trusted issuer
+  const ownIssuableSchemas = accountIssuer?.status === "allowed"
+    ? issuableSchemas(schemas, credentialTypesFromMask(accountIssuer.allowedCredentialTypes))
+    : [];
 
   useEffect(() => {
+    setDecrypted({});
     loadRecords().finally(() => setLoading(false));
-  }, []);
+  }, [account]);
 
-  const onWalletSelect = async (wallet: any) => {
-    if (!wallet.provider) return;
-    try {
-      const web3Provider = new ethers.BrowserProvider(wallet.provider);
-      setProvider(web3Provider);
-      const accounts = await web3Provider.send("eth_requestAccounts", []);
-      const acc = accounts[0] || "";
-      setAccount(acc);
-
-      wallet.provider.on("accountsChanged", async (accounts: string[]) => {
-        const newAcc = accounts[0] || "";
-        setAccount(newAcc);
-      });
-    } catch (e) {
-      alert("Failed to connect wallet");
-    }
-  };
+  // Tick the elapsed time while a proof request is in flight
+  useEffect(() => {
+    if (!proofProgress) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [proofProgress]);
 
-  const onConnect = () => setWalletSelectorOpen(true);
-  const onDisconnect = () => {
-    setAccount("");
-    setProvider(null);
+  const selectTab = (tab: string) => {
+    setActiveTab(tab);
+    if (issuerRoute || verifierRoute || respondRoute) navigate("/");
   };
 
+  const onConnect = wallet.connect;
+
   const loadRecords = async () => {
+    if (!account) {
+      setRecords([]);
+      setProofState(null);
+      setProofEvents([]);
+      setAccountIssuer(null);
+      return;
+    }
+
     setIsRefreshing(true);
     try {
       const contract = await getContractReadOnly();
       if (!contract) return;
       
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("vc_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing VC keys:", e);
-        }
-      }
+      const [credentials, proof, events, ownIssuerInfo, registeredSchemas] = await Promise.all([
+        fetchCredentials(contract, account),
+        fetchProofState(contract, account),
+        fetchProofEvents(contract, account, getDeploymentBlock()),
+        fetchIssuer(contract, account),
+        fetchSchemas(contract)
+      ]);
+      const issuers = await fetchIssuers(contract, credentials.map(cred => cred.issuer));
       
-      const list: VCRecord[] = [];
-      
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`vc_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({
-                id: key,
-                encryptedData: recordData.data,
-                timestamp: recordData.timestamp,
-                owner: recordData.owner,
-                credentialType: recordData.credentialType,
-                issuer: recordData.issuer,
-                status: recordData.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing VC data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading VC ${key}:`, e);
-        }
-      }
+      // Credential contents are encrypted; only credentials from a currently trusted issuer count as verified
+      const list: VCRecord[] = credentials.map(cred => {
+        const issuerInfo = issuers[cred.issuer.toLowerCase()];
+        return {
+          id: cred.id,
+          timestamp: cred.timestamp,
+          owner: cred.holder,
+          issuer: cred.issuer,
+          issuerInfo,
+          schemaId: cred.schemaId,
+          status: cred.revoked ? "revoked" : issuerInfo.status === "allowed" ? "verified" : "pending",
+          handles: cred.handles
+        };
+      });
       
       list.sort((a, b) => b.timestamp - a.timestamp);
       setRecords(list);
+      setProofState(proof);
+      setProofEvents(events);
+      setAccountIssuer(ownIssuerInfo);
+      setSchemas(registeredSchemas);
     } catch (e) {
       console.error("Error loading VCs:", e);
     } finally {
@@ -131,7 +203,7 @@ const App: React.FC = () => {
   };
 
   const submitVC = async () => {
-    if (!provider) { 
+    if (!account) { 
       alert("Please connect wallet first"); 
       return; 
     }
@@ -144,48 +216,24 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newRecordData))}`;
-      
+      const credential = toCredentialInput(newRecordData, ownIssuableSchemas);
+      const encrypted = await encryptCredential(config.contractAddress, account, credential);
+
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted VC to VcIdFHE..."
+      });
+
       const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const vcId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const vcData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        credentialType: newRecordData.credentialType,
-        issuer: newRecordData.issuer,
-        status: "pending"
-      };
-      
-      // Store encrypted VC on-chain using FHE
-      await contract.setData(
-        `vc_${vcId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(vcData))
-      );
-      
-      const keysBytes = await contract.getData("vc_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(vcId);
-      
-      await contract.setData(
-        "vc_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      const tx = await contract.addCredential(
+        account,
+        credential.schemaId,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof
       );
+      await tx.wait();
       
       setTransactionStatus({
         visible: true,
@@ -198,11 +246,7 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewRecordData({
-          credentialType: "",
-          issuer: "",
-          credentialData: ""
-        });
+        setNewRecordData(EMPTY_CREDENTIAL_FORM);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction")
@@ -223,134 +267,126 @@ const App: React.FC = () => {
     }
   };
 
-  const verifyVC = async (vcId: string) => {
-    if (!provider) {
+  const runProofAction = async (action: ProofAction) => {
+    if (!account) {
       alert("Please connect wallet first");
       return;
     }
 
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Processing VC with FHE..."
-    });
+    setProofProgress({ action, stage: "signing", startedAt: Date.now() });
+    setNow(Date.now());
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
       const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const vcBytes = await contract.getData(`vc_${vcId}`);
-      if (vcBytes.length === 0) {
-        throw new Error("VC not found");
+      const tx = action === "generate"
+        ? await contract.requestProofGeneration()
+        : await contract.requestProofReveal();
+
+      setProofProgress(p => p && { ...p, stage: "mining" });
+      const receipt = await tx.wait();
+
+      // Generation runs on ciphertexts within the transaction; only a reveal goes through the oracle
+      if (action === "reveal") {
+        setProofProgress(p => p && { ...p, stage: "oracle" });
+        await waitForProofEvent(contract, "ProofRevealed", account, receipt!.blockNumber);
       }
-      
-      const vcData = JSON.parse(ethers.toUtf8String(vcBytes));
-      
-      const updatedVC = {
-        ...vcData,
-        status: "verified"
-      };
-      
-      await contract.setData(
-        `vc_${vcId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedVC))
-      );
-      
+
+      await loadRecords();
+
+      // Without an eligible credential generation reverts, and the catch shows "No eligible credentials"
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE verification completed successfully!"
+        message: action === "generate" ? "Encrypted composite proof generated!" : "Composite score revealed on-chain!"
       });
-      
-      await loadRecords();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
     } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected")
+        ? "Transaction rejected by user"
+        : "Proof request failed: " + (e.reason || e.message || "Unknown error");
+
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Verification failed: " + (e.message || "Unknown error")
+        message: errorMessage
       });
-      
+    } finally {
+      setProofProgress(null);
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
     }
   };
 
-  const expireVC = async (vcId: string) => {
-    if (!provider) {
+  const decryptForMe = async () => {
+    if (!account) {
       alert("Please connect wallet first");
       return;
     }
 
+    const handles = records.flatMap(r => [r.handles.credentialType, r.handles.attributes, r.handles.expiry]);
+    if (proofState?.exists) handles.push(proofState.scoreHandle);
+    if (handles.length === 0) return;
+
+    setDecrypting(true);
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing VC with FHE..."
+      message: "Sign the decryption request in your wallet..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const vcBytes = await contract.getData(`vc_${vcId}`);
-      if (vcBytes.length === 0) {
-        throw new Error("VC not found");
-      }
-      
-      const vcData = JSON.parse(ethers.toUtf8String(vcBytes));
-      
-      const updatedVC = {
-        ...vcData,
-        status: "expired"
-      };
-      
-      await contract.setData(
-        `vc_${vcId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedVC))
-      );
-      
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "FHE expiration completed successfully!"
-      });
-      
-      await loadRecords();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      const signer = await getWalletSigner();
+      const cleartexts = await userDecrypt(config.contractAddress, signer, handles);
+      setDecrypted(prev => ({ ...prev, ...cleartexts }));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
     } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected")
+        ? "Decryption request rejected by user"
+        : "Decryption failed: " + (e.message || "Unknown error");
+
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Expiration failed: " + (e.message || "Unknown error")
+        message: errorMessage
       });
-      
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
+    } finally {
+      setDecrypting(false);
     }
   };
 
+  const exportVC = (vc: VCRecord) => {
+    const credential = exportCredentialRecord(
+      {
+        id: vc.id,
+        holder: vc.owner,
+        issuer: vc.issuer,
+        schemaId: vc.schemaId,
+        timestamp: vc.timestamp,
+        revoked: vc.status === "revoked",
+        handles: vc.handles
+      },
+      config.contractAddress,
+      config.chainId
+    );
+
+    const url = URL.createObjectURL(new Blob([JSON.stringify(credential, null, 2)], { type: "application/ld+json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `vcidfhe-credential-${vc.id}.jsonld`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const isOwner = (address: string) => {
     return account.toLowerCase() === address.toLowerCase();
   };
 
+  const shortAddr = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
   const tutorialSteps = [
     {
       title: "Connect Wallet",
@@ -369,7 +405,7 @@ const App: React.FC = () => {
     },
     {
       title: "Generate Proofs",
-      description: "Create anonymous, verifiable proofs without revealing underlying data",
+      description: "Generate an encrypted composite proof in the Proofs tab and reveal the score only when you choose",
       icon: "📊"
     }
   ];
@@ -379,6 +415,7 @@ const App: React.FC = () => {
     const verifiedPercentage = (verifiedCount / total) * 100;
     const pendingPercentage = (pendingCount / total) * 100;
     const expiredPercentage = (expiredCount / total) * 100;
+    const revokedPercentage = (revokedCount / total) * 100;
 
     return (
       <div className="pie-chart-container">
@@ -395,6 +432,10 @@ const App: React.FC = () => {
             className="pie-segment expired" 
             style={{ transform: `rotate(${(verifiedPercentage + pendingPercentage + expiredPercentage) * 3.6}deg)` }}
           ></div>
+          <div 
+            className="pie-segment revoked" 
+            style={{ transform: `rotate(${(verifiedPercentage + pendingPercentage + expiredPercentage + revokedPercentage) * 3.6}deg)` }}
+          ></div>
           <div className="pie-center">
             <div className="pie-value">{records.length}</div>
             <div className="pie-label">VCs</div>
@@ -413,6 +454,10 @@ const App: React.FC = () => {
             <div className="color-box expired"></div>
             <span>Expired: {expiredCount}</span>
           </div>
+          <div className="legend-item">
+            <div className="color-box revoked"></div>
+            <span>Revoked: {revokedCount}</span>
+          </div>
         </div>
       </div>
     );
@@ -436,6 +481,19 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
+          <select
+            value={network.id}
+            onChange={e => selectNetwork(e.target.value)}
+            className="cyber-select network-select"
+            title={`Network profile (chain ${network.chainId})`}
+          >
+            {NETWORK_PROFILES.map(profile => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}{isDeployed(profile) ? "" : " (not deployed)"}
+              </option>
+            ))}
+          </select>
+          <RpcHealth />
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="create-vc-btn cyber-button"
@@ -443,39 +501,57 @@ const App: React.FC = () => {
             <div className="add-icon"></div>
             Add VC
           </button>
-          <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
+          <WalletManager wallet={wallet} />
         </div>
       </header>
       
       <div className="main-content">
         <div className="navigation-tabs">
           <button 
-            className={`tab ${activeTab === 'dashboard' ? 'active' : ''}`}
-            onClick={() => setActiveTab('dashboard')}
+            className={`tab ${currentTab === 'dashboard' ? 'active' : ''}`}
+            onClick={() => selectTab('dashboard')}
           >
             Dashboard
           </button>
           <button 
-            className={`tab ${activeTab === 'vcs' ? 'active' : ''}`}
-            onClick={() => setActiveTab('vcs')}
+            className={`tab ${currentTab === 'vcs' ? 'active' : ''}`}
+            onClick={() => selectTab('vcs')}
           >
             My VCs
           </button>
           <button 
-            className={`tab ${activeTab === 'tutorial' ? 'active' : ''}`}
-            onClick={() => setActiveTab('tutorial')}
+            className={`tab ${currentTab === 'proofs' ? 'active' : ''}`}
+            onClick={() => selectTab('proofs')}
+          >
+            Proofs
+          </button>
+          <button 
+            className={`tab ${currentTab === 'issuer' ? 'active' : ''}`}
+            onClick={() => navigate("/issuer")}
+          >
+            Issuer
+          </button>
+          <button 
+            className={`tab ${currentTab === 'verifier' ? 'active' : ''}`}
+            onClick={() => navigate("/verifier")}
+          >
+            Verifier
+          </button>
+          <button 
+            className={`tab ${currentTab === 'tutorial' ? 'active' : ''}`}
+            onClick={() => selectTab('tutorial')}
           >
             How It Works
           </button>
           <button 
-            className={`tab ${activeTab === 'team' ? 'active' : ''}`}
-            onClick={() => setActiveTab('team')}
+            className={`tab ${currentTab === 'team' ? 'active' : ''}`}
+            onClick={() => selectTab('team')}
           >
             Team
           </button>
         </div>
         
-        {activeTab === 'dashboard' && (
+        {currentTab === 'dashboard' && (
           <div className="dashboard-panel">
             <div className="welcome-banner">
               <div className="welcome-text">
@@ -487,7 +563,7 @@ const App: React.FC = () => {
             <div className="dashboard-grid">
               <div className="dashboard-card cyber-card intro-card">
                 <h3>Project Introduction</h3>
-                <p>FHEIdentity is a revolutionary on-chain identity system that allows users to combine encrypted Verifiable Credentials (VCs) using Fully Homomorphic Encryption to generate anonymous, verifiable proofs without revealing the underlying data.</p>
+                <p>FHEIdentity is a revolutionary on-chain identity system that allows users to combine encrypted Verifiable Credentials (VCs) using Fully Homomorphic Encryption to generate verifiable proofs without revealing the underlying data.</p>
                 <div className="fhe-badge">
                   <span>FHE-Powered</span>
                 </div>
@@ -512,6 +588,10 @@ const App: React.FC = () => {
                     <div className="stat-value">{expiredCount}</div>
                     <div className="stat-label">Expired</div>
                   </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{revokedCount}</div>
+                    <div className="stat-label">Revoked</div>
+                  </div>
                 </div>
               </div>
               
@@ -519,11 +599,42 @@ const App: React.FC = () => {
                 <h3>Status Distribution</h3>
                 {renderPieChart()}
               </div>
+              
+              <div className="dashboard-card cyber-card">
+                <h3>Composite Proof</h3>
+                <div className="stats-grid">
+                  <div className="stat-item">
+                    <div className="stat-value">{proofState?.exists ? "Yes" : "No"}</div>
+                    <div className="stat-label">Generated</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{proofState?.isRevealed ? "Yes" : "No"}</div>
+                    <div className="stat-label">Revealed</div>
+                  </div>
+                </div>
+                {proofState?.exists && (
+                  <p>Last generated {new Date(proofState.timestamp * 1000).toLocaleString()}</p>
+                )}
+                {proofState?.isRevealed && (
+                  <p>Revealed score: {proofState.revealedScore}</p>
+                )}
+                {decryptedScore !== undefined ? (
+                  <p>Your score: {decryptedScore.toString()} (decrypted in this browser only)</p>
+                ) : proofState?.exists && (
+                  <button
+                    className="cyber-button"
+                    onClick={decryptForMe}
+                    disabled={decrypting}
+                  >
+                    {decrypting ? "Decrypting..." : "Decrypt for me"}
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         )}
         
-        {activeTab === 'vcs' && (
+        {currentTab === 'vcs' && (
           <div className="vcs-panel">
             <div className="section-header">
               <h2>My Verifiable Credentials</h2>
@@ -535,6 +646,13 @@ const App: React.FC = () => {
                 >
                   {isRefreshing ? "Refreshing..." : "Refresh"}
                 </button>
+                <button
+                  onClick={decryptForMe}
+                  className="cyber-button"
+                  disabled={decrypting || records.length === 0}
+                >
+                  {decrypting ? "Decrypting..." : "Decrypt for me"}
+                </button>
               </div>
             </div>
             
@@ -560,37 +678,148 @@ const App: React.FC = () => {
                   </button>
                 </div>
               ) : (
-                records.map(vc => (
-                  <div className="vc-row" key={vc.id}>
-                    <div className="table-cell vc-id">#{vc.id.substring(0, 6)}</div>
-                    <div className="table-cell">{vc.credentialType}</div>
-                    <div className="table-cell">{vc.issuer}</div>
-                    <div className="table-cell">
-                      {new Date(vc.timestamp * 1000).toLocaleDateString()}
-                    </div>
-                    <div className="table-cell">
-                      <span className={`status-badge ${vc.status}`}>
-                        {vc.status}
+                displayRecords.map(vc => {
+                  const credentialType = decryptedValue(vc.handles.credentialType);
+                  const attributes = decryptedValue(vc.handles.attributes);
+                  const expiry = decryptedValue(vc.handles.expiry);
+                  return (
+                    <div className="vc-row" key={vc.id}>
+                      <div className="table-cell vc-id">#{vc.id}</div>
+                      <div className="table-cell">
+                        {credentialType !== undefined ? credentialTypeName(credentialType) : "Encrypted"}
+                      </div>
+                      <div className="table-cell">
+                        <span className={`issuer-badge ${vc.issuerInfo.status}`} title={vc.issuer}>
+                        {vc.issuerInfo.status === "allowed" && `✓ ${vc.issuerInfo.displayName || shortAddr(vc.issuer)}`}
+                        {vc.issuerInfo.status === "denied" && `Denied · ${vc.issuerInfo.displayName || shortAddr(vc.issuer)}`}
+                        {vc.issuerInfo.status === "unknown" && `Unverified · ${isOwner(vc.issuer) ? "Self-issued" : shortAddr(vc.issuer)}`}
                       </span>
+                      </div>
+                      <div className="table-cell">
+                        {new Date(vc.timestamp * 1000).toLocaleDateString()}
+                      </div>
+                      <div className="table-cell">
+                        <span className={`status-badge ${vc.status}`}>
+                          {vc.status}
+                        </span>
+                      </div>
+                      <div className="table-cell actions">
+                        {vc.status === "revoked" && <span>Revoked by issuer · excluded from proofs</span>}
+                        {vc.status !== "revoked" && attributes !== undefined && expiry !== undefined && (
+                          <span>
+                            {describeAttributes(schemaById(vc.schemaId), attributes)} · Expires {new Date(Number(expiry) * 1000).toLocaleDateString()}
+                          </span>
+                        )}
+                        <button
+                          className="action-btn cyber-button"
+                          onClick={() => exportVC(vc)}
+                          title="Download as a W3C Verifiable Credential referencing the encrypted handles"
+                        >
+                          Export
+                        </button>
+                      </div>
                     </div>
-                    <div className="table-cell actions">
-                      {isOwner(vc.owner) && vc.status === "pending" && (
-                        <>
-                          <button 
-                            className="action-btn cyber-button success"
-                            onClick={() => verifyVC(vc.id)}
-                          >
-                            Verify
-                          </button>
-                          <button 
-                            className="action-btn cyber-button danger"
-                            onClick={() => expireVC(vc.id)}
-                          >
-                            Expire
-                          </button>
-                        </>
-                      )}
-                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+        
+        {currentTab === 'proofs' && (
+          <div className="proofs-panel">
+            <div className="section-header">
+              <h2>Proofs</h2>
+              <div className="header-actions">
+                <button 
+                  onClick={loadRecords}
+                  className="refresh-btn cyber-button"
+                  disabled={isRefreshing}
+                >
+                  {isRefreshing ? "Refreshing..." : "Refresh"}
+                </button>
+              </div>
+            </div>
+
+            <div className="dashboard-grid">
+              <div className="dashboard-card cyber-card">
+                <h3>Proof State</h3>
+                <div className="stats-grid">
+                  <div className="stat-item">
+                    <div className="stat-value">{records.length}</div>
+                    <div className="stat-label">Credentials</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{proofState?.exists ? "Yes" : "No"}</div>
+                    <div className="stat-label">Has Proof</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{proofState?.isRevealed ? "Yes" : "No"}</div>
+                    <div className="stat-label">Revealed</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{proofState?.isRevealed ? proofState.revealedScore : "—"}</div>
+                    <div className="stat-label">Score</div>
+                  </div>
+                </div>
+                {proofState?.exists && (
+                  <p>Last generated {new Date(proofState.timestamp * 1000).toLocaleString()}</p>
+                )}
+                <div className="proof-actions">
+                  <button
+                    className="cyber-button primary"
+                    onClick={() => runProofAction("generate")}
+                    disabled={!!proofProgress || records.length === 0}
+                  >
+                    Generate Proof
+                  </button>
+                  <button
+                    className="cyber-button"
+                    onClick={() => runProofAction("reveal")}
+                    disabled={!!proofProgress || !proofState?.exists || proofState.isRevealed}
+                  >
+                    Reveal Score
+                  </button>
+                </div>
+                {records.length === 0 && <p>Add a credential before generating a proof.</p>}
+              </div>
+
+              {proofProgress && (
+                <div className="dashboard-card cyber-card">
+                  <h3>{proofProgress.action === "generate" ? "Generating Proof" : "Revealing Score"}</h3>
+                  <ol className="proof-progress">
+                    {proofStages(proofProgress.action).map(({ stage, label }, index, stages) => {
+                      const current = stages.findIndex(s => s.stage === proofProgress.stage);
+                      const state = index < current ? "done" : index === current ? "active" : "";
+                      return (
+                        <li key={stage} className={`progress-step ${state}`}>{label}</li>
+                      );
+                    })}
+                  </ol>
+                  <p>Elapsed {Math.floor((now - proofProgress.startedAt) / 1000)}s</p>
+                </div>
+              )}
+            </div>
+
+            <PolicyProofs
+              account={account}
+              schemas={schemas}
+              onConnect={onConnect}
+              onUpdated={loadRecords}
+            />
+
+            <PseudonymManager account={account} />
+
+            <div className="proof-events cyber-card">
+              <h3>Proof History</h3>
+              {proofEvents.length === 0 ? (
+                <p>No proof activity yet</p>
+              ) : (
+                [...proofEvents].reverse().map(event => (
+                  <div className="proof-event" key={`${event.transactionHash}-${event.name}`}>
+                    <span>{PROOF_EVENT_LABELS[event.name]}</span>
+                    <span>Block {event.blockNumber}</span>
+                    <span className="vc-id">{event.transactionHash.substring(0, 10)}...</span>
                   </div>
                 ))
               )}
@@ -598,7 +827,23 @@ const App: React.FC = () => {
           </div>
         )}
         
-        {activeTab === 'tutorial' && (
+        {currentTab === 'issuer' && (
+          <IssuerPortal account={account} onConnect={onConnect} />
+        )}
+
+        {currentTab === 'verifier' && (
+          <VerifierPortal account={account} onConnect={onConnect} />
+        )}
+
+        {currentTab === 'respond' && (
+          <ProofRequestResponse
+            account={account}
+            onConnect={onConnect}
+            onUpdated={loadRecords}
+          />
+        )}
+        
+        {currentTab === 'tutorial' && (
           <div className="tutorial-panel">
             <h2>How FHEIdentity Works</h2>
             <p className="subtitle">Learn how to manage your identity with full privacy using FHE technology</p>
@@ -642,7 +887,7 @@ const App: React.FC = () => {
           </div>
         )}
         
-        {activeTab === 'team' && (
+        {currentTab === 'team' && (
           <div className="team-panel">
             <h2>Our Team</h2>
             <p className="subtitle">The people behind FHEIdentity</p>
@@ -697,16 +942,10 @@ const App: React.FC = () => {
           creating={creating}
           recordData={newRecordData}
           setRecordData={setNewRecordData}
+          schemas={ownIssuableSchemas}
         />
       )}
       
-      {walletSelectorOpen && (
-        <WalletSelector
-          isOpen={walletSelectorOpen}
-          onWalletSelect={(wallet) => { onWalletSelect(wallet); setWalletSelectorOpen(false); }}
-          onClose={() => setWalletSelectorOpen(false)}
-        />
-      )}
       
       {transactionStatus.visible && (
         <div className="transaction-modal">
@@ -758,8 +997,10 @@ interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  recordData: any;
-  setRecordData: (data: any) => void;
+  recordData: CredentialFormData;
+  setRecordData: (data: CredentialFormData) => void;
+  // Schemas the connected account may self-issue under as a trusted issuer
+  schemas: RegisteredSchema[];
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -767,22 +1008,27 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   onClose, 
   creating,
   recordData,
-  setRecordData
+  setRecordData,
+  schemas
 }) => {
+  const selectedSchema = schemas.find(schema => String(schema.id) === recordData.schemaId);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    setRecordData({
-      ...recordData,
-      [name]: value
-    });
+    // Fields belong to the selected schema, so switching schemas clears them
+    setRecordData(name === "schemaId"
+      ? { ...recordData, schemaId: value, fields: {} }
+      : { ...recordData, [name]: value });
   };
 
   const handleSubmit = () => {
-    if (!recordData.credentialType || !recordData.credentialData) {
-      alert("Please fill required fields");
+    try {
+      toCredentialInput(recordData, schemas);
+    } catch (e: any) {
+      alert(e.message);
       return;
     }
-    
+
     onSubmit();
   };
 
@@ -798,48 +1044,49 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           <div className="fhe-notice-banner">
             <div className="key-icon"></div> Your credential will be encrypted with FHE
           </div>
+
+          {schemas.length === 0 && (
+            <div className="issuer-status error">
+              Only trusted issuers can add credentials. Ask a registered issuer to issue yours from the Issuer portal.
+            </div>
+          )}
           
           <div className="form-grid">
             <div className="form-group">
-              <label>Credential Type *</label>
+              <label>Credential Schema *</label>
               <select 
-                name="credentialType"
-                value={recordData.credentialType} 
+                name="schemaId"
+                value={recordData.schemaId} 
                 onChange={handleChange}
                 className="cyber-select"
               >
-                <option value="">Select type</option>
-                <option value="ID">Identity Document</option>
-                <option value="Degree">Educational Degree</option>
-                <option value="License">Professional License</option>
-                <option value="Certification">Skills Certification</option>
-                <option value="Membership">Organization Membership</option>
+                <option value="">Select schema</option>
+                {schemas.map(schema => (
+                  <option key={schema.id} value={schema.id}>
+                    {schema.name} · {CREDENTIAL_TYPE_LABELS[credentialTypeName(BigInt(schema.credentialType))]}
+                  </option>
+                ))}
               </select>
             </div>
             
+            {selectedSchema?.definition && (
+              <SchemaFields
+                schema={selectedSchema.definition}
+                values={recordData.fields}
+                onChange={fields => setRecordData({ ...recordData, fields })}
+              />
+            )}
+            
             <div className="form-group">
-              <label>Issuer *</label>
+              <label>Expiry Date *</label>
               <input 
-                type="text"
-                name="issuer"
-                value={recordData.issuer} 
+                type="date"
+                name="expiryDate"
+                value={recordData.expiryDate} 
                 onChange={handleChange}
-                placeholder="Issuing authority..." 
                 className="cyber-input"
               />
             </div>
-            
-            <div className="form-group full-width">
-              <label>Credential Data *</label>
-              <textarea 
-                name="credentialData"
-                value={recordData.credentialData} 
-                onChange={handleChange}
-                placeholder="Enter credential data to encrypt with FHE..." 
-                className="cyber-textarea"
-                rows={4}
-              />
-            </div>
           </div>
           
           <div className="privacy-notice">
@@ -856,7 +1103,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           </button>
           <button 
             onClick={handleSubmit} 
-            disabled={creating}
+            disabled={creating || schemas.length === 0}
             className="submit-btn cyber-button primary"
           >
             {creating ? "Encrypting with FHE..." : "Submit Securely"}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\base-customer.rs
-// Generated at: 2025-10-16T08:20:11.126Z
\ No newline at end of file
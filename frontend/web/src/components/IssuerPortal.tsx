@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getContractReadOnly, getContractWithSigner, getDeploymentBlock, config } from '../contract';
+import { encryptCredential } from '../fhevm';
+import {
+  CREDENTIAL_TYPE_LABELS,
+  CredentialFormData,
+  credentialTypeName,
+  credentialTypesFromMask,
+  fetchIssuedCredentials,
+  fetchIssuer,
+  fetchSchemas,
+  issuableSchemas,
+  IssuedCredential,
+  IssuerInfo,
+  RegisteredSchema,
+  toCredentialInput
+} from '../vcid';
+import {
+  parseVerifiableCredential,
+  schemaForVc,
+  subjectAddress,
+  toCredentialFormFromVc,
+  verifyCredentialSignature
+} from '../w3c';
+import SchemaFields from './SchemaFields';
+
+interface IssuerPortalProps {
+  account: string;
+  onConnect: () => void;
+}
+
+// Issuance history periods, in days; 0 lists everything
+const HISTORY_PERIODS = [
+  { days: 0, label: 'All time' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 7, label: 'Last 7 days' }
+];
+
+const EMPTY_FORM: CredentialFormData & { holder: string } = {
+  holder: '',
+  schemaId: '',
+  fields: {},
+  expiryDate: ''
+};
+
+export default function IssuerPortal({ account, onConnect }: IssuerPortalProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [issuing, setIssuing] = useState(false);
+  const [status, setStatus] = useState<{ kind: 'pending' | 'success' | 'error'; message: string } | null>(null);
+  const [history, setHistory] = useState<IssuedCredential[]>([]);
+  const [registration, setRegistration] = useState<IssuerInfo | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [schemas, setSchemas] = useState<RegisteredSchema[]>([]);
+  const [importText, setImportText] = useState('');
+  const [historyDays, setHistoryDays] = useState(0);
+
+  const loadHistory = async () => {
+    if (!account) {
+      setHistory([]);
+      setRegistration(null);
+      return;
+    }
+    setLoadingHistory(true);
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const [issued, info, registered] = await Promise.all([
+        fetchIssuedCredentials(
+          contract,
+          account,
+          getDeploymentBlock(),
+          historyDays ? Math.floor(Date.now() / 1000) - historyDays * 24 * 60 * 60 : undefined
+        ),
+        fetchIssuer(contract, account),
+        fetchSchemas(contract)
+      ]);
+      setHistory(issued);
+      setRegistration(info);
+      setSchemas(registered);
+    } catch (e) {
+      console.error('Error loading issued credentials:', e);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [account, historyDays]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    // Fields belong to the selected schema, so switching schemas clears them
+    setForm(name === 'schemaId' ? { ...form, schemaId: value, fields: {} } : { ...form, [name]: value });
+  };
+
+  const isTrusted = registration?.status === 'allowed';
+  const allowedTypes = isTrusted ? credentialTypesFromMask(registration.allowedCredentialTypes) : [];
+  const allowedSchemas = issuableSchemas(schemas, allowedTypes);
+  const selectedSchema = allowedSchemas.find(schema => String(schema.id) === form.schemaId);
+
+  const issue = async () => {
+    if (!account) {
+      onConnect();
+      return;
+    }
+
+    if (!isTrusted) {
+      setStatus({ kind: 'error', message: 'This account is not a trusted issuer' });
+      return;
+    }
+
+    if (!ethers.isAddress(form.holder)) {
+      setStatus({ kind: 'error', message: 'Holder must be a valid address' });
+      return;
+    }
+
+    let credential;
+    try {
+      credential = toCredentialInput(form, allowedSchemas);
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: e.message });
+      return;
+    }
+
+    const holder = ethers.getAddress(form.holder);
+    setIssuing(true);
+    try {
+      // The input proof is bound to the issuer as msg.sender; the contract grants the holder access
+      setStatus({ kind: 'pending', message: 'Encrypting credential with FHE...' });
+      const encrypted = await encryptCredential(config.contractAddress, account, credential);
+
+      setStatus({ kind: 'pending', message: `Issuing credential to ${holder}...` });
+      const contract = await getContractWithSigner();
+      const tx = await contract.addCredential(
+        holder,
+        credential.schemaId,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof
+      );
+      await tx.wait();
+
+      setStatus({ kind: 'success', message: `Credential issued to ${holder}` });
+      setForm(EMPTY_FORM);
+      await loadHistory();
+    } catch (e: any) {
+      const message = e.message?.includes('user rejected')
+        ? 'Transaction rejected by user'
+        : 'Issuance failed: ' + (e.reason || e.message || 'Unknown error');
+      setStatus({ kind: 'error', message });
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  // Fills the form from a signed W3C VC; the signer must be the connected issuer
+  const importCredential = () => {
+    try {
+      const parsed = parseVerifiableCredential(importText);
+      const signer = verifyCredentialSignature(parsed);
+      if (signer.toLowerCase() !== account.toLowerCase()) {
+        throw new Error(`Credential is signed by ${signer}, not the connected issuer`);
+      }
+
+      // Claims are read through the selected schema, or the newest one matching the VC type
+      const schema = selectedSchema ?? schemaForVc(parsed.credential, allowedSchemas);
+      setForm({
+        holder: subjectAddress(parsed) ?? form.holder,
+        ...toCredentialFormFromVc(parsed, schema)
+      });
+      setStatus({
+        kind: 'success',
+        message: `Imported ${parsed.format === 'jwt' ? 'JWT-VC' : 'JSON-LD'} credential (VC ${parsed.version}); review and issue`
+      });
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: 'Import failed: ' + e.message });
+    }
+  };
+
+  const revoke = async (item: IssuedCredential) => {
+    if (!window.confirm(`Revoke credential #${item.id} of ${item.holder}? It will no longer count towards proofs.`)) {
+      return;
+    }
+
+    const key = `${item.holder}:${item.id}`;
+    setRevoking(key);
+    try {
+      setStatus({ kind: 'pending', message: `Revoking credential #${item.id}...` });
+      const contract = await getContractWithSigner();
+      const tx = await contract.revokeCredential(item.holder, item.id);
+      await tx.wait();
+
+      setStatus({ kind: 'success', message: `Credential #${item.id} of ${item.holder} revoked` });
+      await loadHistory();
+    } catch (e: any) {
+      const message = e.message?.includes('user rejected')
+        ? 'Transaction rejected by user'
+        : 'Revocation failed: ' + (e.reason || e.message || 'Unknown error');
+      setStatus({ kind: 'error', message });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="issuer-panel">
+      <div className="section-header">
+        <h2>Issuer Portal</h2>
+        <div className="header-actions">
+          <button
+            onClick={loadHistory}
+            className="refresh-btn cyber-button"
+            disabled={loadingHistory || !account}
+          >
+            {loadingHistory ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <div className="dashboard-grid">
+        <div className="dashboard-card cyber-card">
+          <h3>Issue Credential</h3>
+          {!account && <p>Connect the issuer wallet to issue credentials.</p>}
+          {account && registration && (
+            <p>
+              <span className={`issuer-badge ${registration.status}`}>
+                {registration.status === 'allowed' && `✓ ${registration.displayName}`}
+                {registration.status === 'denied' && 'Denied by the registry owner'}
+                {registration.status === 'unknown' && 'Not a registered issuer'}
+              </span>
+            </p>
+          )}
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Holder Address *</label>
+              <input
+                type="text"
+                name="holder"
+                value={form.holder}
+                onChange={handleChange}
+                placeholder="0x..."
+                className="cyber-input"
+              />
+            </div>
+
+            <div className="form-group">
+              <label>Credential Schema *</label>
+              <select
+                name="schemaId"
+                value={form.schemaId}
+                onChange={handleChange}
+                className="cyber-select"
+              >
+                <option value="">Select schema</option>
+                {allowedSchemas.map(schema => (
+                  <option key={schema.id} value={schema.id}>
+                    {schema.name} · {CREDENTIAL_TYPE_LABELS[credentialTypeName(BigInt(schema.credentialType))]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedSchema?.definition && (
+              <SchemaFields
+                schema={selectedSchema.definition}
+                values={form.fields}
+                onChange={fields => setForm({ ...form, fields })}
+              />
+            )}
+
+            <div className="form-group">
+              <label>Expiry Date *</label>
+              <input
+                type="date"
+                name="expiryDate"
+                value={form.expiryDate}
+                onChange={handleChange}
+                className="cyber-input"
+              />
+            </div>
+          </div>
+
+          <details className="vc-import">
+            <summary>Import a signed W3C credential (JSON-LD or JWT-VC)</summary>
+            <div className="form-group">
+              <textarea
+                value={importText}
+                onChange={e => setImportText(e.target.value)}
+                placeholder="Paste the credential JSON or compact JWT..."
+                className="cyber-textarea"
+                rows={5}
+              />
+            </div>
+            <p className="vc-import-hint">
+              Claims are read from the credentialSubject at the paths declared by the selected schema,
+              or by the newest schema matching the credential type.
+            </p>
+            <button
+              onClick={importCredential}
+              disabled={!importText || !isTrusted}
+              className="cyber-button"
+            >
+              Verify & Fill Form
+            </button>
+          </details>
+
+          {status && (
+            <div className={`issuer-status ${status.kind}`}>{status.message}</div>
+          )}
+
+          <button
+            onClick={issue}
+            disabled={issuing || (!!account && !isTrusted)}
+            className="submit-btn cyber-button primary"
+          >
+            {issuing ? 'Issuing...' : account ? 'Encrypt & Issue' : 'Connect Wallet'}
+          </button>
+        </div>
+      </div>
+
+      <div className="proof-events cyber-card">
+        <div className="section-header">
+          <h3>Issued Credentials</h3>
+          <select
+            value={historyDays}
+            onChange={e => setHistoryDays(Number(e.target.value))}
+            className="cyber-select"
+          >
+            {HISTORY_PERIODS.map(period => (
+              <option key={period.days} value={period.days}>{period.label}</option>
+            ))}
+          </select>
+        </div>
+        {history.length === 0 ? (
+          <p>{account ? 'No credentials issued from this account yet' : 'Connect a wallet to see its issuance history'}</p>
+        ) : (
+          history.map(item => (
+            <div className="proof-event issued-credential" key={`${item.holder}:${item.id}`}>
+              <span className="vc-id">#{item.id} · {item.holder}</span>
+              <span>{item.timestamp ? new Date(item.timestamp * 1000).toLocaleString() : `Block ${item.blockNumber}`}</span>
+              <span className="vc-id">{item.transactionHash.substring(0, 10)}...</span>
+              <span>
+                {item.revoked ? (
+                  <span className="status-badge revoked">revoked</span>
+                ) : (
+                  <button
+                    className="action-btn cyber-button danger"
+                    onClick={() => revoke(item)}
+                    disabled={revoking !== null}
+                  >
+                    {revoking === `${item.holder}:${item.id}` ? 'Revoking...' : 'Revoke'}
+                  </button>
+                )}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React from 'react';
+import { OPERATOR_SYMBOLS, Policy, PREDICATE_OPERATORS, PredicateOperator } from '@vcid/schemas';
+import { RegisteredSchema } from '../vcid';
+
+/** A predicate row as edited; an empty field means "holds a credential of this schema" */
+export interface PredicateDraft {
+  schema: string;
+  field: string;
+  op: PredicateOperator;
+  value: string;
+  issuer: string;
+}
+
+export const EMPTY_PREDICATE: PredicateDraft = { schema: '', field: '', op: 'gte', value: '', issuer: '' };
+
+export function toPolicy(name: string, drafts: PredicateDraft[]): Policy {
+  return {
+    name: name || 'Untitled policy',
+    predicates: drafts.map(draft => ({
+      schema: draft.schema,
+      ...(draft.field && {
+        field: draft.field,
+        op: draft.op,
+        value: draft.op === 'in' ? draft.value.split(',').map(v => v.trim()).filter(Boolean) : draft.value.trim()
+      }),
+      ...(draft.issuer && { issuer: draft.issuer.trim() })
+    }))
+  };
+}
+
+export function toDrafts(policy: Policy): PredicateDraft[] {
+  return policy.predicates.map(predicate => ({
+    schema: predicate.schema,
+    field: predicate.field ?? '',
+    op: predicate.op ?? 'gte',
+    value: Array.isArray(predicate.value) ? predicate.value.join(', ') : String(predicate.value ?? ''),
+    issuer: predicate.issuer ?? ''
+  }));
+}
+
+interface PolicyEditorProps {
+  schemas: RegisteredSchema[];
+  drafts: PredicateDraft[];
+  onChange: (drafts: PredicateDraft[]) => void;
+}
+
+/** One row per predicate over the schemas with a local definition */
+export default function PolicyEditor({ schemas, drafts, onChange }: PolicyEditorProps) {
+  const definitions = schemas.filter(schema => schema.definition).map(schema => schema.definition!);
+
+  const updateDraft = (index: number, changes: Partial<PredicateDraft>) => {
+    onChange(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  return (
+    <>
+      {drafts.map((draft, index) => {
+        const definition = definitions.find(d => d.name === draft.schema);
+        return (
+          <div className="policy-predicate" key={index}>
+            <select
+              value={draft.schema}
+              onChange={e => updateDraft(index, { schema: e.target.value, field: '' })}
+              className="cyber-select"
+            >
+              <option value="">Schema</option>
+              {definitions.map(d => (
+                <option key={d.name} value={d.name}>{d.name}</option>
+              ))}
+            </select>
+            <select
+              value={draft.field}
+              onChange={e => updateDraft(index, { field: e.target.value })}
+              className="cyber-select"
+            >
+              <option value="">holds credential</option>
+              {definition?.fields.map(field => (
+                <option key={field.name} value={field.name}>{field.label}</option>
+              ))}
+            </select>
+            {draft.field && (
+              <>
+                <select
+                  value={draft.op}
+                  onChange={e => updateDraft(index, { op: e.target.value as PredicateOperator })}
+                  className="cyber-select"
+                >
+                  {PREDICATE_OPERATORS.map(op => (
+                    <option key={op} value={op}>{OPERATOR_SYMBOLS[op]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={draft.value}
+                  onChange={e => updateDraft(index, { value: e.target.value })}
+                  placeholder={draft.op === 'in' ? 'value, value, ...' : 'value'}
+                  className="cyber-input"
+                />
+              </>
+            )}
+            <input
+              type="text"
+              value={draft.issuer}
+              onChange={e => updateDraft(index, { issuer: e.target.value })}
+              placeholder="Issuer 0x... (any trusted)"
+              className="cyber-input"
+            />
+            <button
+              className="action-btn cyber-button"
+              onClick={() => onChange(drafts.filter((_, i) => i !== index))}
+              disabled={drafts.length === 1}
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+    </>
+  );
+}
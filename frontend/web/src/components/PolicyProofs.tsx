@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { describePolicy, encodePolicy, parsePolicy, policyHash, serializePolicy } from '@vcid/schemas';
+import { getContractReadOnly, getContractWithSigner, config } from '../contract';
+import { userDecrypt } from '../fhevm';
+import { fetchPolicyProof, PolicyProofState, RegisteredSchema, waitForProofEvent } from '../vcid';
+import { getWalletSigner } from '../wallet';
+import PolicyEditor, { EMPTY_PREDICATE, PredicateDraft, toDrafts, toPolicy } from './PolicyEditor';
+
+interface PolicyProofsProps {
+  account: string;
+  schemas: RegisteredSchema[];
+  onConnect: () => void;
+  // Called after a proof or reveal lands, so the proof history can refresh
+  onUpdated: () => void;
+}
+
+export default function PolicyProofs({ account, schemas, onConnect, onUpdated }: PolicyProofsProps) {
+  const [name, setName] = useState('');
+  const [drafts, setDrafts] = useState<PredicateDraft[]>([EMPTY_PREDICATE]);
+  const [importText, setImportText] = useState('');
+  const [proof, setProof] = useState<PolicyProofState | null>(null);
+  // The holder's privately decrypted answer, keyed by result handle
+  const [answers, setAnswers] = useState<Record<string, boolean>>({});
+  const [busy, setBusy] = useState<'prove' | 'decrypt' | 'reveal' | null>(null);
+  const [status, setStatus] = useState<{ kind: 'pending' | 'success' | 'error'; message: string } | null>(null);
+
+  const policy = toPolicy(name, drafts);
+
+  const loadProof = async () => {
+    if (!account) {
+      setProof(null);
+      return;
+    }
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setProof(await fetchPolicyProof(contract, account));
+    } catch (e) {
+      console.error('Error loading policy proof:', e);
+    }
+  };
+
+  useEffect(() => {
+    setAnswers({});
+    loadProof();
+  }, [account]);
+
+  const importPolicy = () => {
+    try {
+      const imported = parsePolicy(importText);
+      setName(imported.name);
+      setDrafts(toDrafts(imported));
+      setStatus({ kind: 'success', message: `Loaded policy "${imported.name}"` });
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: 'Invalid policy: ' + e.message });
+    }
+  };
+
+  const decryptAnswer = async (handle: string) => {
+    if (!account) return;
+    setBusy('decrypt');
+    try {
+      setStatus({ kind: 'pending', message: 'Sign the decryption request in your wallet...' });
+      const cleartexts = await userDecrypt(config.contractAddress, await getWalletSigner(), [handle]);
+      setAnswers(prev => ({ ...prev, [handle.toLowerCase()]: cleartexts[handle.toLowerCase()] === 1n }));
+      setStatus(null);
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: 'Decryption failed: ' + (e.message || 'Unknown error') });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const prove = async () => {
+    if (!account) {
+      onConnect();
+      return;
+    }
+
+    let predicates;
+    try {
+      predicates = encodePolicy(policy, schemas);
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: e.message });
+      return;
+    }
+
+    setBusy('prove');
+    try {
+      setStatus({ kind: 'pending', message: 'Evaluating the policy over your encrypted credentials...' });
+      const contract = await getContractWithSigner();
+      const tx = await contract.provePolicy(predicates);
+      await tx.wait();
+
+      const updated = await fetchPolicyProof(contract, account);
+      setProof(updated);
+      setStatus({ kind: 'success', message: 'Policy proven; the answer stays encrypted until you reveal it' });
+      onUpdated();
+    } catch (e: any) {
+      const message = e.message?.includes('user rejected')
+        ? 'Transaction rejected by user'
+        : 'Policy proof failed: ' + (e.reason || e.message || 'Unknown error');
+      setStatus({ kind: 'error', message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const reveal = async () => {
+    if (!account) return;
+    setBusy('reveal');
+    try {
+      setStatus({ kind: 'pending', message: 'Requesting the public reveal of the yes/no answer...' });
+      const contract = await getContractWithSigner();
+      const tx = await contract.requestPolicyReveal();
+      const receipt = await tx.wait();
+
+      setStatus({ kind: 'pending', message: 'Waiting for the decryption oracle...' });
+      await waitForProofEvent(contract, 'PolicyProofRevealed', account, receipt!.blockNumber);
+      await loadProof();
+      setStatus({ kind: 'success', message: 'Policy answer revealed on-chain' });
+      onUpdated();
+    } catch (e: any) {
+      const message = e.message?.includes('user rejected')
+        ? 'Transaction rejected by user'
+        : 'Reveal failed: ' + (e.reason || e.message || 'Unknown error');
+      setStatus({ kind: 'error', message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const answer = proof?.exists ? answers[proof.resultHandle.toLowerCase()] : undefined;
+
+  // The chain records only the policy hash, so the editor's policy is described only if it is the proven one
+  let editedPolicyProven = false;
+  try {
+    editedPolicyProven = !!proof?.exists && policyHash(encodePolicy(policy, schemas)) === proof.policyHash;
+  } catch {
+    // An incomplete draft cannot match
+  }
+
+  return (
+    <div className="dashboard-grid">
+      <div className="dashboard-card cyber-card">
+        <h3>Policy Proof</h3>
+        <p>Prove that your credentials meet a verifier's policy. Only a yes/no answer is ever disclosed.</p>
+
+        <div className="form-group">
+          <label>Policy Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Adult with a professional license"
+            className="cyber-input"
+          />
+        </div>
+
+        <PolicyEditor schemas={schemas} drafts={drafts} onChange={setDrafts} />
+
+        <div className="proof-actions">
+          <button className="cyber-button" onClick={() => setDrafts([...drafts, EMPTY_PREDICATE])}>
+            Add Predicate
+          </button>
+          <button className="cyber-button primary" onClick={prove} disabled={busy !== null}>
+            {busy === 'prove' ? 'Proving...' : 'Prove Policy'}
+          </button>
+        </div>
+
+        <details className="vc-import">
+          <summary>Policy JSON</summary>
+          <pre className="policy-json">{serializePolicy(policy)}</pre>
+          <div className="form-group">
+            <textarea
+              value={importText}
+              onChange={e => setImportText(e.target.value)}
+              placeholder="Paste a policy JSON from a verifier..."
+              className="cyber-textarea"
+              rows={5}
+            />
+          </div>
+          <button onClick={importPolicy} disabled={!importText} className="cyber-button">
+            Load Policy
+          </button>
+        </details>
+
+        {status && <div className={`issuer-status ${status.kind}`}>{status.message}</div>}
+      </div>
+
+      <div className="dashboard-card cyber-card">
+        <h3>Latest Policy Proof</h3>
+        {!proof?.exists ? (
+          <p>{account ? 'No policy proven yet' : 'Connect a wallet to prove policies'}</p>
+        ) : (
+          <>
+            <p className="vc-id" title={proof.policyHash}>Policy {proof.policyHash.substring(0, 18)}...</p>
+            <p>Proven {new Date(proof.timestamp * 1000).toLocaleString()}</p>
+            {editedPolicyProven ? (
+              <ul className="policy-summary">
+                {describePolicy(policy).map(line => <li key={line}>{line}</li>)}
+              </ul>
+            ) : (
+              <p>The policy being edited differs from the proven one.</p>
+            )}
+            <div className="stats-grid">
+              <div className="stat-item">
+                <div className="stat-value">{answer === undefined ? '—' : answer ? 'Yes' : 'No'}</div>
+                <div className="stat-label">Your Answer</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{proof.isRevealed ? (proof.revealedResult ? 'Yes' : 'No') : '—'}</div>
+                <div className="stat-label">Public Answer</div>
+              </div>
+            </div>
+            <div className="proof-actions">
+              <button
+                className="cyber-button"
+                onClick={() => decryptAnswer(proof.resultHandle)}
+                disabled={busy !== null || answer !== undefined}
+              >
+                {busy === 'decrypt' ? 'Decrypting...' : 'Decrypt for Me'}
+              </button>
+              <button
+                className="cyber-button"
+                onClick={reveal}
+                disabled={busy !== null || proof.isRevealed}
+              >
+                {busy === 'reveal' ? 'Revealing...' : 'Reveal Answer'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
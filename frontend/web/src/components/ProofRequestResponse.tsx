@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  describePolicy,
+  parseProofRequestParam,
+  ProofRequest,
+  proofRequestId,
+  requestArgument,
+  signPseudonymAuthorization
+} from '@vcid/schemas';
+import { config, getContractReadOnly, getContractWithSigner } from '../contract';
+import { findPseudonym, unlockPseudonym } from '../pseudonyms';
+import { formatDuration, getProofsFor, VerifierProof } from '../vcid';
+import { getWalletSigner } from '../wallet';
+
+interface ProofRequestResponseProps {
+  account: string;
+  onConnect: () => void;
+  // Called after an answer lands, so the proof history can refresh
+  onUpdated: () => void;
+}
+
+/** The holder's side of a shared proof request link */
+export default function ProofRequestResponse({ account, onConnect, onUpdated }: ProofRequestResponseProps) {
+  const [searchParams] = useSearchParams();
+  const [proof, setProof] = useState<VerifierProof | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ kind: 'pending' | 'success' | 'error'; message: string } | null>(null);
+
+  let request: ProofRequest | null = null;
+  let parseError = '';
+  try {
+    const param = searchParams.get('request');
+    if (param) request = parseProofRequestParam(param);
+  } catch (e: any) {
+    parseError = e.message;
+  }
+  const requestId = request ? proofRequestId(request) : '';
+  const pseudonym = account && request ? findPseudonym(account, request.verifier) : null;
+
+  const loadProof = async () => {
+    // Answers are stored under the pseudonym, so without one in this browser there is nothing to find
+    const current = account && request ? findPseudonym(account, request.verifier) : null;
+    if (!current || !request) {
+      setProof(null);
+      return;
+    }
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const proofs = await getProofsFor(contract, current.address, request.verifier);
+      setProof(proofs.find(p => p.requestId.toLowerCase() === requestId.toLowerCase()) ?? null);
+    } catch (e) {
+      console.error('Error loading request answer:', e);
+    }
+  };
+
+  useEffect(() => {
+    loadProof();
+  }, [account, requestId]);
+
+  const respond = async () => {
+    if (!request) return;
+    if (!account) {
+      onConnect();
+      return;
+    }
+    setBusy(true);
+    try {
+      setStatus({ kind: 'pending', message: 'Sign to unlock your pseudonym for this verifier...' });
+      const signer = await getWalletSigner();
+      const pseudonymWallet = await unlockPseudonym(signer, request.verifier);
+      const authorization = await signPseudonymAuthorization(
+        pseudonymWallet,
+        config.contractAddress,
+        BigInt(config.chainId),
+        requestId,
+        account
+      );
+
+      setStatus({ kind: 'pending', message: 'Evaluating the request over your encrypted credentials...' });
+      const contract = await getContractWithSigner();
+      const tx = await contract.respondToRequest(requestArgument(request), pseudonymWallet.address, authorization);
+      await tx.wait();
+
+      await loadProof();
+      setStatus({ kind: 'success', message: 'Request answered; only the verifier can decrypt the result' });
+      onUpdated();
+    } catch (e: any) {
+      const message = e.message?.includes('user rejected')
+        ? 'Transaction rejected by user'
+        : 'Answer failed: ' + (e.reason || e.message || 'Unknown error');
+      setStatus({ kind: 'error', message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!request) {
+    return (
+      <div className="dashboard-card cyber-card">
+        <h3>Proof Request</h3>
+        <p>{parseError ? `This proof request link is invalid: ${parseError}` : 'Open a proof request link shared by a verifier.'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="dashboard-grid">
+      <div className="dashboard-card cyber-card">
+        <h3>{request.policy.name}</h3>
+        <p className="vc-id" title={request.verifier}>Requested by {request.verifier}</p>
+        <ul className="policy-summary">
+          {describePolicy(request.policy).map(line => <li key={line}>{line}</li>)}
+          <li>
+            {request.issuers.length === 0
+              ? 'Credentials from any trusted issuer count'
+              : `Only credentials from ${request.issuers.join(', ')} count`}
+          </li>
+          <li>The verifier accepts proofs up to {formatDuration(request.freshness)} old</li>
+        </ul>
+        <p>Your claims stay encrypted; only this verifier can decrypt whether you meet every condition.</p>
+        <p>
+          {pseudonym
+            ? `You answer this verifier as ${pseudonym.address}.`
+            : 'You will answer under a new pseudonym for this verifier; your wallet signs once to derive it.'}
+        </p>
+        <p>The answer is sent from your wallet, so anyone reading the transaction can link the pseudonym to it.</p>
+
+        <button onClick={respond} disabled={busy} className="submit-btn cyber-button primary">
+          {busy ? 'Answering...' : account ? (proof ? 'Answer Again' : 'Answer Request') : 'Connect Wallet'}
+        </button>
+        {status && <div className={`issuer-status ${status.kind}`}>{status.message}</div>}
+      </div>
+
+      <div className="dashboard-card cyber-card">
+        <h3>Your Answer</h3>
+        <p className="vc-id" title={requestId}>Request {requestId.substring(0, 18)}...</p>
+        {!proof ? (
+          <p>{account ? 'Not answered yet' : 'Connect a wallet to answer this request'}</p>
+        ) : (
+          <>
+            <p>Answered {new Date(proof.timestamp * 1000).toLocaleString()}</p>
+            <p>The answer is encrypted for {request.verifier} only; nothing is revealed publicly.</p>
+            <p className="vc-id" title={pseudonym?.address}>Recorded under pseudonym {pseudonym?.address}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Pseudonym } from '@vcid/schemas';
+import { exportPseudonyms, forgetPseudonym, importPseudonyms, loadPseudonyms } from '../pseudonyms';
+
+interface PseudonymManagerProps {
+  account: string;
+}
+
+/** The holder's per-verifier pseudonyms stored in this browser */
+export default function PseudonymManager({ account }: PseudonymManagerProps) {
+  const [pseudonyms, setPseudonyms] = useState<Pseudonym[]>([]);
+  const [importText, setImportText] = useState('');
+  const [status, setStatus] = useState<{ kind: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    setPseudonyms(account ? loadPseudonyms(account) : []);
+    setStatus(null);
+  }, [account]);
+
+  const forget = (pseudonym: Pseudonym) => {
+    if (!window.confirm(`Forget the pseudonym for ${pseudonym.verifier}? Its past answers can no longer be found here.`)) {
+      return;
+    }
+    forgetPseudonym(account, pseudonym.verifier);
+    setPseudonyms(loadPseudonyms(account));
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([exportPseudonyms(account)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vcid-pseudonyms-${account.substring(0, 8)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importSalts = () => {
+    try {
+      const added = importPseudonyms(account, importText);
+      setPseudonyms(loadPseudonyms(account));
+      setImportText('');
+      setStatus({ kind: 'success', message: `Imported ${added} pseudonym${added === 1 ? '' : 's'}` });
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: 'Import failed: ' + e.message });
+    }
+  };
+
+  return (
+    <div className="proof-events cyber-card">
+      <div className="section-header">
+        <h3>Verifier Pseudonyms</h3>
+        <button className="cyber-button" onClick={download} disabled={pseudonyms.length === 0}>
+          Export
+        </button>
+      </div>
+      <p>
+        Each verifier sees your answers under a different address. Only the salts are kept here; your wallet
+        re-derives the keys, so export them to answer from another browser.
+      </p>
+      {pseudonyms.length === 0 ? (
+        <p>{account ? 'No pseudonyms yet; one is created when you answer a proof request' : 'Connect a wallet'}</p>
+      ) : (
+        pseudonyms.map(pseudonym => (
+          <div className="proof-event" key={pseudonym.verifier}>
+            <span className="vc-id" title={pseudonym.verifier}>Verifier {pseudonym.verifier.substring(0, 10)}...</span>
+            <span className="vc-id" title={pseudonym.address}>{pseudonym.address}</span>
+            <span>
+              <button className="action-btn cyber-button danger" onClick={() => forget(pseudonym)}>
+                Forget
+              </button>
+            </span>
+          </div>
+        ))
+      )}
+
+      {account && (
+        <details className="vc-import">
+          <summary>Import Pseudonyms</summary>
+          <div className="form-group">
+            <textarea
+              value={importText}
+              onChange={e => setImportText(e.target.value)}
+              placeholder="Paste exported pseudonyms..."
+              className="cyber-textarea"
+              rows={5}
+            />
+          </div>
+          <button onClick={importSalts} disabled={!importText} className="cyber-button">
+            Import
+          </button>
+        </details>
+      )}
+      {status && <div className={`issuer-status ${status.kind}`}>{status.message}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { EndpointHealth, getRpcHealth, MAX_LAG_BLOCKS, probeEndpoints, rpcQuorum, subscribeRpcHealth } from '../rpc';
+
+// Re-render at most this often while requests keep updating the pool's metrics
+const REFRESH_INTERVAL_MS = 1_000;
+
+function describe(endpoint: EndpointHealth) {
+  if (endpoint.healthy) return 'healthy';
+  if (endpoint.coolingDown) return 'cooling down';
+  if (endpoint.blockNumber === null) return 'untested';
+  return (endpoint.lag ?? 0) > MAX_LAG_BLOCKS ? 'lagging' : 'failing';
+}
+
+// Endpoints often carry API keys in their path; show the host only
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+/** Header badge for the read-only RPC pool, expanding to per-endpoint metrics */
+export default function RpcHealth() {
+  const [health, setHealth] = useState<EndpointHealth[]>(getRpcHealth);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = subscribeRpcHealth(() => {
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        setHealth(getRpcHealth());
+      }, REFRESH_INTERVAL_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  const healthy = health.filter(endpoint => endpoint.healthy).length;
+  const level = healthy === 0 ? 'down' : healthy < health.length ? 'degraded' : 'ok';
+
+  return (
+    <details className="rpc-health">
+      <summary className={`rpc-health-badge ${level}`} title="Read-only RPC endpoints">
+        RPC {healthy}/{health.length}
+      </summary>
+      <div className="rpc-health-panel cyber-card">
+        <p>
+          Reads go to the best endpoint and fail over to the next; trust decisions need {rpcQuorum()} matching
+          answers.
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Endpoint</th>
+              <th>Latency</th>
+              <th>Errors</th>
+              <th>Block</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {health.map(endpoint => (
+              <tr key={endpoint.url} title={endpoint.lastError ?? undefined}>
+                <td>{hostOf(endpoint.url)}</td>
+                <td>{endpoint.latencyMs === null ? '-' : `${Math.round(endpoint.latencyMs)} ms`}</td>
+                <td>
+                  {Math.round(endpoint.errorRate * 100)}% ({endpoint.failures}/{endpoint.requests})
+                </td>
+                <td>
+                  {endpoint.blockNumber ?? '-'}
+                  {endpoint.lag ? ` (-${endpoint.lag})` : ''}
+                </td>
+                <td>{describe(endpoint)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button className="cyber-button" onClick={() => probeEndpoints()}>
+          Probe now
+        </button>
+      </div>
+    </details>
+  );
+}
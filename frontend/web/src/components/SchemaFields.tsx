@@ -0,0 +1,80 @@
+import React from 'react';
+import type { CredentialSchemaDefinition, FieldValue, SchemaField } from '@vcid/schemas';
+
+interface SchemaFieldsProps {
+  schema: CredentialSchemaDefinition;
+  values: Record<string, FieldValue>;
+  onChange: (values: Record<string, FieldValue>) => void;
+}
+
+// Exact for fields of up to 64 bits, where 2 ** bits - 1 would round
+const maxUint = (field: SchemaField) => (1n << BigInt(field.bits)) - 1n;
+
+/** One input per schema field, chosen by its encoding; rendered inside a form-grid */
+export default function SchemaFields({ schema, values, onChange }: SchemaFieldsProps) {
+  const set = (name: string, value: FieldValue) => onChange({ ...values, [name]: value });
+
+  const renderInput = (field: SchemaField) => {
+    const value = values[field.name];
+    switch (field.encoding.kind) {
+      case 'bool':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={e => set(field.name, e.target.checked)}
+            className="schema-checkbox"
+          />
+        );
+      case 'enum':
+        return (
+          <select
+            value={value === undefined ? '' : String(value)}
+            onChange={e => set(field.name, e.target.value)}
+            className="cyber-select"
+          >
+            <option value="">Select {field.label.toLowerCase()}</option>
+            {field.encoding.values.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            min="1900-01-01"
+            value={value === undefined ? '' : String(value)}
+            onChange={e => set(field.name, e.target.value)}
+            className="cyber-input"
+          />
+        );
+      case 'uint':
+        return (
+          <input
+            type="number"
+            min={0}
+            max={maxUint(field).toString()}
+            value={value === undefined ? '' : String(value)}
+            onChange={e => set(field.name, e.target.value)}
+            placeholder={`0 - ${maxUint(field)}`}
+            className="cyber-input"
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {schema.fields.map(field => (
+        <div className="form-group" key={field.name}>
+          <label>
+            {field.label}{field.encoding.kind !== 'bool' && ' *'}
+            {field.name === schema.scoreField && <span className="score-field-hint"> (scored)</span>}
+          </label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </>
+  );
+}
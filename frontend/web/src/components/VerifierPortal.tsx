@@ -0,0 +1,354 @@
+import React, { useEffect, useState } from 'react';
+import encodeQR from 'qr';
+import {
+  createProofRequest,
+  describePolicy,
+  parseProofRequest,
+  Policy,
+  ProofRequest,
+  proofRequestId,
+  proofRequestLink,
+  serializeProofRequest
+} from '@vcid/schemas';
+import { getContractReadOnly, getDeploymentBlock, config } from '../contract';
+import { userDecrypt } from '../fhevm';
+import {
+  fetchRequestResponses,
+  fetchSchemas,
+  fetchTrustedIssuers,
+  formatDuration,
+  IssuerInfo,
+  RegisteredSchema,
+  RequestOutcome,
+  requestOutcome,
+  RequestResponse
+} from '../vcid';
+import { getWalletSigner } from '../wallet';
+import PolicyEditor, { EMPTY_PREDICATE, PredicateDraft, toPolicy } from './PolicyEditor';
+
+interface VerifierPortalProps {
+  account: string;
+  onConnect: () => void;
+}
+
+const FRESHNESS_OPTIONS = [3_600, 86_400, 7 * 86_400, 30 * 86_400];
+
+const OUTCOME_LABELS: Record<RequestOutcome, string> = {
+  encrypted: 'Encrypted',
+  pass: 'Pass',
+  fail: 'Fail',
+  stale: 'Outside freshness window'
+};
+
+const RESPONSE_POLL_INTERVAL_MS = 15_000;
+
+// Requests live only in this browser; the chain knows them by id once a holder answers
+const storageKey = (verifier: string) => `vcid.proofRequests.${verifier.toLowerCase()}`;
+
+function loadRequests(verifier: string): ProofRequest[] {
+  try {
+    const stored: string[] = JSON.parse(localStorage.getItem(storageKey(verifier)) ?? '[]');
+    return stored.map(parseProofRequest);
+  } catch {
+    return [];
+  }
+}
+
+function saveRequests(verifier: string, requests: ProofRequest[]) {
+  localStorage.setItem(storageKey(verifier), JSON.stringify(requests.map(serializeProofRequest)));
+}
+
+export default function VerifierPortal({ account, onConnect }: VerifierPortalProps) {
+  const [schemas, setSchemas] = useState<RegisteredSchema[]>([]);
+  const [trustedIssuers, setTrustedIssuers] = useState<IssuerInfo[]>([]);
+  const [name, setName] = useState('');
+  const [required, setRequired] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<PredicateDraft[]>([EMPTY_PREDICATE]);
+  const [allowlist, setAllowlist] = useState<string[]>([]);
+  const [freshness, setFreshness] = useState(FRESHNESS_OPTIONS[1]);
+  const [requests, setRequests] = useState<ProofRequest[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [responses, setResponses] = useState<RequestResponse[]>([]);
+  const [watching, setWatching] = useState(false);
+  // Answers decrypted with the verifier's key, by result handle
+  const [results, setResults] = useState<Record<string, boolean>>({});
+  const [decrypting, setDecrypting] = useState(false);
+  const [status, setStatus] = useState<{ kind: 'pending' | 'success' | 'error'; message: string } | null>(null);
+
+  const definitions = schemas.filter(schema => schema.definition).map(schema => schema.definition!);
+  const selected = requests.find(request => proofRequestId(request) === selectedId) ?? null;
+
+  useEffect(() => {
+    (async () => {
+      try {
+        // The verifier decides whom to trust from these; a quorum keeps one bad endpoint from deciding it
+        const contract = await getContractReadOnly({ quorum: true });
+        if (!contract) return;
+        const [registered, trusted] = await Promise.all([fetchSchemas(contract), fetchTrustedIssuers(contract)]);
+        setSchemas(registered);
+        setTrustedIssuers(trusted);
+      } catch (e) {
+        console.error('Error loading registries:', e);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    setRequests(account ? loadRequests(account) : []);
+    setSelectedId(null);
+    setResults({});
+  }, [account]);
+
+  const loadResponses = async (request: ProofRequest) => {
+    setWatching(true);
+    try {
+      const contract = await getContractReadOnly({ quorum: true });
+      if (!contract) return;
+      setResponses(await fetchRequestResponses(contract, proofRequestId(request), account, getDeploymentBlock()));
+    } catch (e) {
+      console.error('Error loading responses:', e);
+    } finally {
+      setWatching(false);
+    }
+  };
+
+  // Watch the selected request for holders' answers and reveals
+  useEffect(() => {
+    setResponses([]);
+    if (!selected) return;
+    loadResponses(selected);
+    const timer = setInterval(() => loadResponses(selected), RESPONSE_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [selectedId]);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const composePolicy = (): Policy => {
+    const conditions = toPolicy(name, drafts.filter(draft => draft.schema));
+    return {
+      ...conditions,
+      predicates: [...required.map(schema => ({ schema })), ...conditions.predicates]
+    };
+  };
+
+  const create = () => {
+    if (!account) {
+      onConnect();
+      return;
+    }
+    try {
+      const request = createProofRequest(account, composePolicy(), schemas, { issuers: allowlist, freshness });
+      const updated = [request, ...requests];
+      saveRequests(account, updated);
+      setRequests(updated);
+      setSelectedId(proofRequestId(request));
+      setStatus({ kind: 'success', message: 'Proof request created; share the link with holders' });
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: e.message });
+    }
+  };
+
+  // Answers are granted to the verifier only, so it decrypts them with its own signature
+  const decryptResults = async () => {
+    if (!account) return;
+    const handles = responses
+      .map(response => response.proof.resultHandle.toLowerCase())
+      .filter(handle => results[handle] === undefined);
+    if (handles.length === 0) return;
+
+    setDecrypting(true);
+    try {
+      setStatus({ kind: 'pending', message: 'Sign the decryption request in your wallet...' });
+      const cleartexts = await userDecrypt(config.contractAddress, await getWalletSigner(), handles);
+      setResults(prev => ({
+        ...prev,
+        ...Object.fromEntries(handles.map(handle => [handle, cleartexts[handle] === 1n]))
+      }));
+      setStatus(null);
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: 'Decryption failed: ' + (e.message || 'Unknown error') });
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const remove = (request: ProofRequest) => {
+    const updated = requests.filter(r => r !== request);
+    saveRequests(account, updated);
+    setRequests(updated);
+    if (request === selected) setSelectedId(null);
+  };
+
+  const link = selected ? proofRequestLink(selected, `${window.location.origin}/respond`) : '';
+  const qrCode = link ? `data:image/svg+xml;utf8,${encodeURIComponent(encodeQR(link, 'svg'))}` : '';
+  const issuerName = (address: string) =>
+    trustedIssuers.find(issuer => issuer.address.toLowerCase() === address.toLowerCase())?.displayName ?? address;
+
+  return (
+    <div className="issuer-panel">
+      <div className="section-header">
+        <h2>Verifier Portal</h2>
+      </div>
+
+      <div className="dashboard-grid">
+        <div className="dashboard-card cyber-card">
+          <h3>New Proof Request</h3>
+          <p>Holders answer with a yes/no only this wallet can decrypt; none of their claims are disclosed.</p>
+
+          <div className="form-group">
+            <label>Request Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g. Licensed adult for car rental"
+              className="cyber-input"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Required Credentials</label>
+            <div className="checkbox-list">
+              {definitions.map(definition => (
+                <label key={definition.name}>
+                  <input
+                    type="checkbox"
+                    checked={required.includes(definition.name)}
+                    onChange={() => setRequired(toggle(required, definition.name))}
+                    className="schema-checkbox"
+                  />
+                  {definition.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Conditions</label>
+            <PolicyEditor schemas={schemas} drafts={drafts} onChange={setDrafts} />
+            <button className="cyber-button" onClick={() => setDrafts([...drafts, EMPTY_PREDICATE])}>
+              Add Condition
+            </button>
+          </div>
+
+          <div className="form-group">
+            <label>Issuer Allowlist</label>
+            <div className="checkbox-list">
+              {trustedIssuers.length === 0 && <span>No trusted issuers registered</span>}
+              {trustedIssuers.map(issuer => (
+                <label key={issuer.address} title={issuer.address}>
+                  <input
+                    type="checkbox"
+                    checked={allowlist.includes(issuer.address)}
+                    onChange={() => setAllowlist(toggle(allowlist, issuer.address))}
+                    className="schema-checkbox"
+                  />
+                  {issuer.displayName}
+                </label>
+              ))}
+            </div>
+            <p className="vc-import-hint">Leave empty to accept any trusted issuer.</p>
+          </div>
+
+          <div className="form-group">
+            <label>Freshness Window</label>
+            <select value={freshness} onChange={e => setFreshness(Number(e.target.value))} className="cyber-select">
+              {FRESHNESS_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>{formatDuration(seconds)}</option>
+              ))}
+            </select>
+          </div>
+
+          {status && <div className={`issuer-status ${status.kind}`}>{status.message}</div>}
+
+          <button onClick={create} className="submit-btn cyber-button primary">
+            {account ? 'Create Request' : 'Connect Wallet'}
+          </button>
+        </div>
+
+        <div className="dashboard-card cyber-card">
+          <h3>Share Request</h3>
+          {!selected ? (
+            <p>{account ? 'Create or select a request to share it' : 'Connect the verifier wallet to manage requests'}</p>
+          ) : (
+            <>
+              <p className="vc-id" title={proofRequestId(selected)}>
+                Request {proofRequestId(selected).substring(0, 18)}...
+              </p>
+              <img className="request-qr" src={qrCode} alt="Proof request QR code" />
+              <div className="proof-actions">
+                <button className="cyber-button" onClick={() => navigator.clipboard.writeText(link)}>
+                  Copy Link
+                </button>
+              </div>
+              <ul className="policy-summary">
+                {describePolicy(selected.policy).map(line => <li key={line}>{line}</li>)}
+                <li>
+                  Issuers: {selected.issuers.length === 0 ? 'any trusted issuer' : selected.issuers.map(issuerName).join(', ')}
+                </li>
+                <li>Proofs accepted for {formatDuration(selected.freshness)}</li>
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="proof-events cyber-card">
+        <h3>My Requests</h3>
+        {requests.length === 0 ? (
+          <p>No proof requests yet</p>
+        ) : (
+          requests.map(request => {
+            const id = proofRequestId(request);
+            return (
+              <div className="proof-event verifier-request" key={id}>
+                <span>{request.policy.name}</span>
+                <span>{new Date(request.createdAt * 1000).toLocaleString()}</span>
+                <span className="vc-id">{id.substring(0, 10)}...</span>
+                <span>
+                  <button className="action-btn cyber-button" onClick={() => setSelectedId(id)} disabled={id === selectedId}>
+                    {id === selectedId ? 'Watching' : 'Watch'}
+                  </button>
+                  <button className="action-btn cyber-button danger" onClick={() => remove(request)}>
+                    Remove
+                  </button>
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {selected && (
+        <div className="proof-events cyber-card">
+          <div className="section-header">
+            <h3>Responses {watching && <span className="score-field-hint">(refreshing...)</span>}</h3>
+            <button
+              onClick={decryptResults}
+              className="cyber-button"
+              disabled={decrypting || responses.length === 0}
+            >
+              {decrypting ? 'Decrypting...' : 'Decrypt Results'}
+            </button>
+          </div>
+          {responses.length === 0 ? (
+            <p>No holder has answered this request yet</p>
+          ) : (
+            responses.map(response => {
+              const result = results[response.proof.resultHandle.toLowerCase()];
+              const outcome = requestOutcome(selected, response.proof, result);
+              return (
+                <div className="proof-event" key={response.pseudonym}>
+                  <span className="vc-id" title="Holder pseudonym for this verifier">{response.pseudonym}</span>
+                  <span>{new Date(response.proof.timestamp * 1000).toLocaleString()}</span>
+                  <span className={`request-outcome ${outcome}`}>{OUTCOME_LABELS[outcome]}</span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
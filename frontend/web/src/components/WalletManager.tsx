@@ -1,14 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Wallet, LogOut, RefreshCw } from 'lucide-react';
+import { Wallet, LogOut } from 'lucide-react';
+import { network } from '../network';
+import { WalletState } from '../wallet';
 
 interface WalletManagerProps {
-  account: string;
-  onConnect: () => void;
-  onDisconnect: () => void;
+  wallet: WalletState;
 }
 
-export default function WalletManager({ account, onConnect, onDisconnect }: WalletManagerProps) {
-  const [isConnecting, setIsConnecting] = useState(false);
+/** Header wallet control; connecting opens RainbowKit's modal, the address opens its account modal */
+export default function WalletManager({ wallet }: WalletManagerProps) {
+  const { account, chainId, connectorName, isConnecting } = wallet;
   const [theme, setTheme] = useState<Record<string, string>>({});
   const containerRef = useRef<HTMLDivElement>(null);
   const lastBgColorRef = useRef<string>('');
@@ -78,24 +79,14 @@ export default function WalletManager({ account, onConnect, onDisconnect }: Wall
     return bgColor || getComputedStyle(document.body).backgroundColor;
   };
 
-  const handleConnect = async () => {
-    setIsConnecting(true);
-    try {
-      await onConnect();
-    } finally {
-      setIsConnecting(false);
-    }
-  };
-
-  const handleDisconnect = () => {
-    onDisconnect();
-  };
+  // The wallet is moved to the profile's chain on the next transaction; until then, say so
+  const wrongChain = chainId !== undefined && chainId !== network.chainId;
 
   if (!account) {
     return (
       <div ref={containerRef} style={theme as React.CSSProperties}>
         <button
-          onClick={handleConnect}
+          onClick={wallet.connect}
           disabled={isConnecting}
           className="wallet-connect-button"
         >
@@ -109,24 +100,20 @@ export default function WalletManager({ account, onConnect, onDisconnect }: Wall
   return (
     <div ref={containerRef} style={theme as React.CSSProperties} className="wallet-container">
       {/* Account Info */}
-      <div className="wallet-account">
+      <button
+        onClick={wallet.manage}
+        className="wallet-account"
+        title={`${connectorName ?? 'Wallet'}${wrongChain ? ` on chain ${chainId}, not ${network.name}` : ''}`}
+      >
         <span>
           {account.slice(0, 6)}...{account.slice(-4)}
+          {wrongChain && ' (wrong network)'}
         </span>
-      </div>
-
-      {/* Refresh Button */}
-      <button
-        onClick={handleConnect}
-        className="wallet-refresh-button"
-        title="Refresh connection"
-      >
-        <RefreshCw size={16} />
       </button>
 
       {/* Disconnect Button */}
       <button
-        onClick={handleDisconnect}
+        onClick={wallet.disconnect}
         className="wallet-disconnect-button"
         title="Disconnect wallet"
       >
@@ -298,6 +285,7 @@ const styles = `
   color: var(--wallet-text);
   font-size: 14px;
   font-weight: 500;
+  cursor: pointer;
   transition: all 0.2s ease;
   position: relative;
   overflow: hidden;
@@ -319,7 +307,6 @@ const styles = `
   opacity: 0.3;
 }
 
-.wallet-refresh-button,
 .wallet-disconnect-button {
   background: var(--wallet-secondary);
   border: 1px solid var(--wallet-border);
@@ -336,12 +323,10 @@ const styles = `
   backdrop-filter: var(--wallet-backdrop-filter);
 }
 
-.wallet-refresh-button:hover,
 .wallet-disconnect-button:hover {
   transform: translateY(-2px);
 }
 
-.wallet-refresh-button:before,
 .wallet-disconnect-button:before {
   content: '';
   position: absolute;
@@ -358,12 +343,11 @@ const styles = `
   transition: opacity 0.3s ease;
 }
 
-.wallet-refresh-button:hover:before,
 .wallet-disconnect-button:hover:before {
   opacity: 0.5;
 }
 
-.wallet-refresh-button:hover {
+.wallet-account:hover {
   background: var(--wallet-secondary-hover);
 }
 
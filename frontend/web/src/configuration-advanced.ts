@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export const src-report = () => { return null; };
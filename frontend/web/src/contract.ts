@@ -1,64 +1,58 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { type VcIdFHE, VcIdFHE__factory } from "./typechain";
+import { network } from "./network";
+import { getQuorumProvider, getReadOnlyProvider } from "./rpc";
+import { getWalletSigner } from "./wallet";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+// The active network profile; see network.ts
+export const config = network;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
+/** Block the configured VcIdFHE contract was deployed at, so event queries can skip older history. */
+export function getDeploymentBlock(): number {
+  return network.deploymentBlock;
+}
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+// Checked until the contract is found, so a contract deployed after page load is picked up
+let deployed: Promise<boolean> | null = null;
+
+function hasContractCode(): Promise<boolean> {
+  if (!deployed) {
+    const check = getReadOnlyProvider()
+      .getCode(config.contractAddress)
+      .then(code => code !== "0x");
+    deployed = check;
+    check.then(
+      found => {
+        if (!found) deployed = null;
+      },
+      () => {
+        deployed = null;
+      }
+    );
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return deployed;
+}
+
+const contracts = new Map<boolean, VcIdFHE>();
 
-export async function getContractReadOnly() {
+/**
+ * The configured contract on the read-only RPC pool (see rpc.ts), or null when nothing is deployed
+ * at its address. With `quorum`, every read must be confirmed by several endpoints; use it where a
+ * single lying or stale endpoint could make the app trust the wrong thing.
+ */
+export async function getContractReadOnly(options: { quorum?: boolean } = {}): Promise<VcIdFHE | null> {
+  const quorum = options.quorum ?? false;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
+    if (!(await hasContractCode())) {
       return null;
     }
-    
+    let contract = contracts.get(quorum);
+    if (!contract) {
+      const provider = quorum ? getQuorumProvider() : getReadOnlyProvider();
+      contract = VcIdFHE__factory.connect(config.contractAddress, provider);
+      contracts.set(quorum, contract);
+    }
     return contract;
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
@@ -66,15 +60,14 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+/** The configured contract on the connected wallet, moved to the active profile's chain first. */
+export async function getContractWithSigner(): Promise<VcIdFHE> {
+  if (!config.contractAddress || config.contractAddress === ethers.ZeroAddress) {
+    throw new Error("VcIdFHE contract address is not configured");
   }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    const signer = await getWalletSigner();
+    return VcIdFHE__factory.connect(config.contractAddress, signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\project\demo\frontend\web\src\core.go
-// Generated at: 2025-10-01T04:45:37.713Z
\ No newline at end of file
@@ -0,0 +1,163 @@
+// fhevm.ts
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { ethers } from "ethers";
+import { network } from "./network";
+
+export interface CredentialInput {
+  schemaId: number;
+  // Claim fields packed by the schema definition
+  attributes: bigint;
+  expiry: number;
+}
+
+export interface EncryptedCredentialInput {
+  handles: string[];
+  inputProof: string;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+const EIP712_DOMAIN_ABI = [
+  "function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])"
+];
+
+/**
+ * A hardhat node answers relayer requests (input proofs, user decryption) over JSON-RPC with its
+ * mock keys, so the mock instance talks to the node directly. Public decryption callbacks still
+ * need `npx hardhat --network localhost vcid:oracle` running next to it.
+ */
+async function createMockInstance(): Promise<FhevmInstance> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0]);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+
+  // The gateway contracts signatures are verified against are named in the verifiers' EIP-712 domains
+  const verifyingContract = async (address: string): Promise<string> =>
+    (await new ethers.Contract(address, EIP712_DOMAIN_ABI, provider).eip712Domain())[4];
+
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: await verifyingContract(metadata.KMSVerifierAddress),
+    verifyingContractAddressInputVerification: await verifyingContract(metadata.InputVerifierAddress)
+  });
+}
+
+async function createRelayerInstance(): Promise<FhevmInstance> {
+  const sdk = window.relayerSDK;
+  if (!sdk) {
+    throw new Error("Relayer SDK script not loaded");
+  }
+  await sdk.initSDK();
+  // Reads go to the profile's RPC rather than the wallet, which may be a WalletConnect session
+  return sdk.createInstance({ ...sdk.SepoliaConfig, network: network.rpcUrls[0] });
+}
+
+export async function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = network.relayer === "mock" ? createMockInstance() : createRelayerInstance();
+    // Allow a later call to retry if the relayer was unreachable
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+export async function encryptCredential(
+  contractAddress: string,
+  userAddress: string,
+  credential: CredentialInput
+): Promise<EncryptedCredentialInput> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, ethers.getAddress(userAddress));
+  input.add64(credential.attributes);
+  input.add32(credential.expiry);
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// How long a user-decrypt signature stays valid for the relayer
+const USER_DECRYPT_DURATION_DAYS = 1;
+
+interface UserDecryptSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Keypairs and signatures live in memory only, so decryption access ends with the browser session
+const decryptSessions = new Map<string, UserDecryptSession>();
+
+async function getUserDecryptSession(
+  instance: FhevmInstance,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<UserDecryptSession> {
+  const userAddress = await signer.getAddress();
+  const key = `${ethers.getAddress(userAddress)}:${ethers.getAddress(contractAddress)}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  const cached = decryptSessions.get(key);
+  if (cached && cached.startTimestamp + cached.durationDays * 24 * 60 * 60 > now + 60) {
+    return cached;
+  }
+
+  const keypair = instance.generateKeypair();
+  const eip712 = instance.createEIP712(keypair.publicKey, [contractAddress], now, USER_DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const session: UserDecryptSession = {
+    publicKey: keypair.publicKey,
+    privateKey: keypair.privateKey,
+    signature: signature.replace("0x", ""),
+    startTimestamp: now,
+    durationDays: USER_DECRYPT_DURATION_DAYS
+  };
+  decryptSessions.set(key, session);
+  return session;
+}
+
+/**
+ * Decrypts ciphertext handles the signer has been granted access to on `contractAddress`.
+ * Uninitialized (zero) handles are skipped. Returns cleartexts keyed by lowercase handle.
+ */
+export async function userDecrypt(
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: string[]
+): Promise<Record<string, bigint>> {
+  const pending = [...new Set(handles.map(h => h.toLowerCase()))].filter(h => h !== ethers.ZeroHash);
+  if (pending.length === 0) return {};
+
+  const instance = await getFhevmInstance();
+  const session = await getUserDecryptSession(instance, contractAddress, signer);
+
+  const results = await instance.userDecrypt(
+    pending.map(handle => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature,
+    [contractAddress],
+    await signer.getAddress(),
+    session.startTimestamp,
+    session.durationDays
+  );
+
+  const cleartexts: Record<string, bigint> = {};
+  for (const [handle, value] of Object.entries(results)) {
+    cleartexts[handle.toLowerCase()] = BigInt(value);
+  }
+  return cleartexts;
+}
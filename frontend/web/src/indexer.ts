@@ -0,0 +1,98 @@
+// indexer.ts
+import { network } from "./network";
+
+/**
+ * Client for the event indexer API (indexer/ at the repository root). Its lists are complete up to
+ * `checkpoint`; callers read any newer blocks from the chain, so a lagging indexer never hides a
+ * transaction the user just sent.
+ */
+
+export interface IndexedList<T> {
+  checkpoint: number | null;
+  items: T[];
+}
+
+export interface IndexedCredential {
+  holder: string;
+  credentialId: number;
+  issuer: string;
+  blockNumber: number;
+  transactionHash: string;
+  issuedAt: number;
+  revokedAt: number | null;
+}
+
+export interface IndexedEvent {
+  name: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  holder: string | null;
+  issuer: string | null;
+  credentialId: number | null;
+}
+
+export interface TimeRange {
+  // Unix timestamps in seconds, inclusive
+  from?: number;
+  to?: number;
+}
+
+const REQUEST_TIMEOUT_MS = 5_000;
+// The API's largest page
+const EVENTS_PAGE_SIZE = 1_000;
+
+export const hasIndexer = () => Boolean(network.indexerUrl);
+
+async function get<T>(path: string, params: Record<string, string | number | undefined>): Promise<T> {
+  const url = new URL(path, network.indexerUrl!.replace(/\/?$/, "/"));
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`Indexer ${path}: ${body.error ?? response.statusText}`);
+  }
+  return body;
+}
+
+/** Credentials issued by `issuer` within `range`, newest first. */
+export async function fetchIndexedIssuedCredentials(
+  issuer: string,
+  range: TimeRange = {}
+): Promise<IndexedList<IndexedCredential>> {
+  const body = await get<{ checkpoint: number | null; credentials: IndexedCredential[] }>(
+    `issuers/${issuer}/credentials`,
+    { ...range }
+  );
+  return { checkpoint: body.checkpoint, items: body.credentials };
+}
+
+/**
+ * `holder`'s events with one of `names`, oldest first. The API pages them, so this reads pages until
+ * a short one, each starting after the last event read: blocks indexed or rolled back meanwhile
+ * cannot shift a page, and the last page's checkpoint covers everything read.
+ */
+export async function fetchIndexedHolderEvents(
+  holder: string,
+  names: string[],
+  range: TimeRange = {}
+): Promise<IndexedList<IndexedEvent>> {
+  const items: IndexedEvent[] = [];
+  for (;;) {
+    const last = items[items.length - 1];
+    const body = await get<{ checkpoint: number | null; events: IndexedEvent[] }>(`holders/${holder}/events`, {
+      name: names.join(","),
+      limit: EVENTS_PAGE_SIZE,
+      after: last && `${last.blockNumber}:${last.logIndex}`,
+      ...range
+    });
+    items.push(...body.events);
+    if (body.events.length < EVENTS_PAGE_SIZE) {
+      return { checkpoint: body.checkpoint, items };
+    }
+  }
+}
@@ -1,20 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
-import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
-import { WagmiConfig } from 'wagmi';
+import { RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
+import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
-
-const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
-
-const config = getDefaultConfig({
-  appName: '',
-  projectId: projectId,
-  chains: [sepolia],
-});
+import { wagmiConfig } from './wallet';
 
 const queryClient = new QueryClient();
 
@@ -119,13 +111,13 @@ const AdaptiveThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
-      <WagmiConfig config={config}>
+      <WagmiProvider config={wagmiConfig}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
             <App />
           </AdaptiveThemeProvider>
         </BrowserRouter>
-      </WagmiConfig>
+      </WagmiProvider>
     </QueryClientProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,153 @@
+// network.ts
+import { defineChain } from "viem";
+import configJson from "./config.json";
+import deploymentsJson from "./deployments.json";
+
+/**
+ * Network profiles
+ * ================
+ *
+ * The app runs against one network profile at a time: a local hardhat node, Sepolia, or a custom
+ * network configured through VITE_CUSTOM_* variables. The read-only provider, the wallet's chain,
+ * the wagmi chain and the FHE instance all come from the active profile. Contract addresses come
+ * from the deployment manifests (deployments.json, written by vcid:export) and config.json.
+ *
+ * Switching profiles reloads the app, so nothing built for the previous network survives.
+ */
+
+/** "zama": the relayer SDK's Sepolia config; "mock": a node running the FHEVM mock (see vcid:oracle) */
+export type RelayerMode = "zama" | "mock";
+
+export interface NetworkProfile {
+  id: string;
+  name: string;
+  chainId: number;
+  // Read-only RPC endpoints; rpc.ts ranks them by latency and errors, ties in this order
+  rpcUrls: string[];
+  contractAddress: string;
+  // Block the contract was deployed at, so event queries can skip older history
+  deploymentBlock: number;
+  deployer: string;
+  relayer: RelayerMode;
+  blockExplorerUrl?: string;
+  // Event indexer API (indexer/ at the repository root); event queries fall back to the RPC without it
+  indexerUrl?: string;
+}
+
+interface DeploymentRecord {
+  network: string;
+  chainId: number;
+  deployer: string;
+  contracts: Record<string, { address: string; blockNumber: number }>;
+}
+
+const deployments = deploymentsJson as unknown as DeploymentRecord[];
+const env = import.meta.env;
+
+export const SEPOLIA_CHAIN_ID = 11155111;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const STORAGE_KEY = "vcid.network";
+
+// Public endpoints that need no API key; keyed providers go in VITE_SEPOLIA_RPC_URLS
+const DEFAULT_SEPOLIA_RPC_URLS = [
+  "https://ethereum-sepolia-rpc.publicnode.com",
+  "https://sepolia.drpc.org",
+  "https://rpc.sepolia.org",
+  "https://rpc2.sepolia.org",
+  "https://eth-sepolia.public.blastapi.io"
+];
+
+const splitUrls = (value: string | undefined) => (value ?? "").split(",").map(url => url.trim()).filter(Boolean);
+
+/** The recorded VcIdFHE deployment for a profile: its manifest, else config.json when it is for that chain. */
+function findDeployment(id: string, chainId: number) {
+  const manifest = deployments.find(d => d.network === id && d.chainId === chainId && d.contracts.VcIdFHE);
+  if (manifest) {
+    const { address, blockNumber } = manifest.contracts.VcIdFHE;
+    return { contractAddress: address, deploymentBlock: blockNumber, deployer: manifest.deployer };
+  }
+  if (configJson.chainId === chainId && configJson.contractAddress !== ZERO_ADDRESS) {
+    return { contractAddress: configJson.contractAddress, deploymentBlock: 0, deployer: configJson.deployer };
+  }
+  return { contractAddress: ZERO_ADDRESS, deploymentBlock: 0, deployer: "" };
+}
+
+function buildProfiles(): NetworkProfile[] {
+  const profiles: NetworkProfile[] = [
+    {
+      id: "localhost",
+      name: "Hardhat (localhost)",
+      chainId: 31337,
+      rpcUrls: splitUrls(env.VITE_LOCALHOST_RPC_URL || "http://127.0.0.1:8545"),
+      relayer: "mock",
+      indexerUrl: env.VITE_LOCALHOST_INDEXER_URL || undefined,
+      ...findDeployment("localhost", 31337)
+    },
+    {
+      id: "sepolia",
+      name: "Sepolia",
+      chainId: SEPOLIA_CHAIN_ID,
+      rpcUrls: env.VITE_SEPOLIA_RPC_URLS ? splitUrls(env.VITE_SEPOLIA_RPC_URLS) : DEFAULT_SEPOLIA_RPC_URLS,
+      relayer: "zama",
+      blockExplorerUrl: "https://sepolia.etherscan.io",
+      indexerUrl: env.VITE_SEPOLIA_INDEXER_URL || undefined,
+      ...findDeployment("sepolia", SEPOLIA_CHAIN_ID)
+    }
+  ];
+
+  // Any other chain is expected to be a node running the FHEVM mock, like localhost
+  if (env.VITE_CUSTOM_RPC_URL && env.VITE_CUSTOM_CHAIN_ID) {
+    const chainId = Number(env.VITE_CUSTOM_CHAIN_ID);
+    const deployment = findDeployment("custom", chainId);
+    profiles.push({
+      id: "custom",
+      name: env.VITE_CUSTOM_NAME || `Custom (chain ${chainId})`,
+      chainId,
+      rpcUrls: splitUrls(env.VITE_CUSTOM_RPC_URL),
+      relayer: chainId === SEPOLIA_CHAIN_ID ? "zama" : "mock",
+      blockExplorerUrl: env.VITE_CUSTOM_EXPLORER_URL || undefined,
+      indexerUrl: env.VITE_CUSTOM_INDEXER_URL || undefined,
+      ...deployment,
+      ...(env.VITE_CUSTOM_CONTRACT_ADDRESS && {
+        contractAddress: env.VITE_CUSTOM_CONTRACT_ADDRESS,
+        deploymentBlock: Number(env.VITE_CUSTOM_DEPLOYMENT_BLOCK ?? 0)
+      })
+    });
+  }
+
+  return profiles;
+}
+
+export const NETWORK_PROFILES = buildProfiles();
+
+export const isDeployed = (profile: NetworkProfile) => profile.contractAddress !== ZERO_ADDRESS;
+
+/** The stored choice, else VITE_NETWORK, else the network config.json was written for, else Sepolia. */
+function resolveActiveProfile(): NetworkProfile {
+  const candidates = [localStorage.getItem(STORAGE_KEY), env.VITE_NETWORK, configJson.networkName, "sepolia"];
+  for (const id of candidates) {
+    const profile = NETWORK_PROFILES.find(p => p.id === id);
+    if (profile) return profile;
+  }
+  return NETWORK_PROFILES[0];
+}
+
+export const network = resolveActiveProfile();
+
+/** Makes `id` the active profile; the app reloads so every client is rebuilt for it. */
+export function selectNetwork(id: string) {
+  localStorage.setItem(STORAGE_KEY, id);
+  window.location.reload();
+}
+
+/** The active profile as a wagmi/viem chain. */
+export const wagmiChain = defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: network.rpcUrls } },
+  ...(network.blockExplorerUrl && {
+    blockExplorers: { default: { name: "Explorer", url: network.blockExplorerUrl } }
+  }),
+  testnet: true
+});
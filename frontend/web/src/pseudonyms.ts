@@ -0,0 +1,73 @@
+// pseudonyms.ts
+import type { Signer, Wallet } from "ethers";
+import { derivePseudonymWallet, newPseudonymSalt, Pseudonym } from "@vcid/schemas";
+
+// Only the salts are persisted; the keys are re-derived from a wallet signature when needed
+const storageKey = (holder: string) => `vcid.pseudonyms.${holder.toLowerCase()}`;
+
+// Derived keys for this session, so a holder signs the derivation message once per verifier
+const sessionWallets = new Map<string, Wallet>();
+const sessionKey = (holder: string, verifier: string) => `${holder.toLowerCase()}:${verifier.toLowerCase()}`;
+
+export function loadPseudonyms(holder: string): Pseudonym[] {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(holder)) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function savePseudonyms(holder: string, pseudonyms: Pseudonym[]) {
+  localStorage.setItem(storageKey(holder), JSON.stringify(pseudonyms));
+}
+
+/** The pseudonym `holder` uses towards `verifier`, if one was created in this browser. */
+export function findPseudonym(holder: string, verifier: string): Pseudonym | null {
+  return loadPseudonyms(holder).find(p => p.verifier.toLowerCase() === verifier.toLowerCase()) ?? null;
+}
+
+/**
+ * The pseudonym key for `verifier`, creating a pseudonym on first use. Asks the wallet to sign
+ * the derivation message unless the key was already derived in this session.
+ */
+export async function unlockPseudonym(signer: Signer, verifier: string): Promise<Wallet> {
+  const holder = await signer.getAddress();
+  const cached = sessionWallets.get(sessionKey(holder, verifier));
+  if (cached) return cached;
+
+  const stored = findPseudonym(holder, verifier);
+  const salt = stored?.salt ?? newPseudonymSalt();
+  const wallet = await derivePseudonymWallet(signer, verifier, salt);
+  if (stored && wallet.address.toLowerCase() !== stored.address.toLowerCase()) {
+    throw new Error("This wallet derived a different pseudonym; it does not sign deterministically");
+  }
+  if (!stored) {
+    savePseudonyms(holder, [...loadPseudonyms(holder), { verifier, salt, address: wallet.address }]);
+  }
+
+  sessionWallets.set(sessionKey(holder, verifier), wallet);
+  return wallet;
+}
+
+/** Drops the pseudonym for `verifier`; the next answer to that verifier starts a new one. */
+export function forgetPseudonym(holder: string, verifier: string) {
+  savePseudonyms(holder, loadPseudonyms(holder).filter(p => p.verifier.toLowerCase() !== verifier.toLowerCase()));
+  sessionWallets.delete(sessionKey(holder, verifier));
+}
+
+export function exportPseudonyms(holder: string): string {
+  return JSON.stringify(loadPseudonyms(holder), null, 2);
+}
+
+/** Merges exported pseudonyms into this browser; a stored pseudonym for the same verifier wins. */
+export function importPseudonyms(holder: string, text: string): number {
+  const imported: Pseudonym[] = JSON.parse(text);
+  if (!Array.isArray(imported) || imported.some(p => !p.verifier || !p.salt || !p.address)) {
+    throw new Error("Expected a list of pseudonyms with a verifier, salt and address");
+  }
+
+  const existing = loadPseudonyms(holder);
+  const added = imported.filter(p => !existing.some(e => e.verifier.toLowerCase() === p.verifier.toLowerCase()));
+  savePseudonyms(holder, [...existing, ...added]);
+  return added.length;
+}
@@ -1,3 +0,0 @@
-export const config = { runtime: 'edge' };
-
-export default function base-test-fragments() { return <div>Component</div>; }
@@ -0,0 +1,343 @@
+// rpc.ts
+import { AbstractProvider, CodedEthersError, isError, JsonRpcProvider, Network, PerformActionRequest } from "ethers";
+import { network } from "./network";
+
+/**
+ * RPC endpoint pool
+ * =================
+ *
+ * Read-only calls share one pool over the active profile's RPC URLs. Each request goes to the
+ * best-scoring endpoint and fails over to the next one on errors and timeouts. The score is the
+ * endpoint's average latency, inflated by its recent error rate; endpoints that keep failing sit
+ * out a growing cooldown, and endpoints lagging behind the others' head rank last. Critical reads
+ * use the quorum provider instead, which only returns an answer enough endpoints agree on.
+ */
+
+export interface EndpointHealth {
+  url: string;
+  // Moving averages over recent requests
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError: string | null;
+  blockNumber: number | null;
+  // Blocks behind the highest block any endpoint reported
+  lag: number | null;
+  coolingDown: boolean;
+  // Answered its last request and keeps up with the head
+  healthy: boolean;
+  // Lower is better; requests go to the lowest score first
+  score: number;
+}
+
+/** How the pool reaches one endpoint: a JsonRpcProvider in the app, a stub in tests. */
+export interface RpcTransport {
+  url: string;
+  perform(req: PerformActionRequest): Promise<unknown>;
+}
+
+export interface PoolOptions {
+  // Per request, before failing over to the next endpoint
+  timeoutMs: number;
+  // Matching answers a quorum read needs; capped at the pool size
+  quorum: number;
+  // Network name, for the error when the pool is empty
+  name: string;
+}
+
+interface Endpoint {
+  transport: RpcTransport;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError: string | null;
+  blockNumber: number | null;
+}
+
+const env = import.meta.env;
+
+const REQUEST_TIMEOUT_MS = Number(env.VITE_RPC_TIMEOUT_MS || 10_000);
+const QUORUM = Number(env.VITE_RPC_QUORUM || 2);
+const PROBE_INTERVAL_MS = 30_000;
+// Endpoints further behind the head than this rank after every up-to-date one
+export const MAX_LAG_BLOCKS = 5;
+// Assumed latency of endpoints that have not answered yet
+const UNTRIED_LATENCY_MS = 1_000;
+const LATENCY_SMOOTHING = 0.3;
+const ERROR_SMOOTHING = 0.2;
+const BASE_COOLDOWN_MS = 5_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+
+// Errors the chain itself produced; every endpoint would answer the same, so they do not fail over
+const CHAIN_ERRORS = ["CALL_EXCEPTION", "INVALID_ARGUMENT", "INSUFFICIENT_FUNDS", "NONCE_EXPIRED"] as const;
+type ChainError = CodedEthersError<(typeof CHAIN_ERRORS)[number]>;
+const isChainError = (error: unknown): error is ChainError => CHAIN_ERRORS.some(code => isError(error, code));
+
+// Reverts only match when their revert data does
+const chainErrorKey = (error: ChainError) =>
+  `error:${error.code}:${isError(error, "CALL_EXCEPTION") ? error.data ?? "" : ""}`;
+
+function score(endpoint: Endpoint, now: number, head: number): number {
+  let value = (endpoint.latencyMs ?? UNTRIED_LATENCY_MS) * (1 + 4 * endpoint.errorRate);
+  if (endpoint.blockNumber !== null && head - endpoint.blockNumber > MAX_LAG_BLOCKS) value += 100_000;
+  if (endpoint.cooldownUntil > now) value += 1_000_000;
+  return value;
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms`)), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface Answer {
+  key: string;
+  result?: unknown;
+  error?: ChainError;
+}
+
+/** One network's endpoints with their request statistics, and the failover and quorum reads over them. */
+export class EndpointPool {
+  readonly #endpoints: Endpoint[];
+  readonly #options: PoolOptions;
+  readonly #listeners = new Set<() => void>();
+
+  constructor(transports: RpcTransport[], options: PoolOptions) {
+    this.#options = options;
+    this.#endpoints = transports.map(transport => ({
+      transport,
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      lastError: null,
+      blockNumber: null
+    }));
+  }
+
+  get quorum(): number {
+    return Math.min(this.#options.quorum, this.#endpoints.length);
+  }
+
+  #notify() {
+    this.#listeners.forEach(listener => listener());
+  }
+
+  #highestBlock() {
+    return Math.max(0, ...this.#endpoints.map(endpoint => endpoint.blockNumber ?? 0));
+  }
+
+  /** Endpoints from best to worst; ties keep the configured order. */
+  #ranked(): Endpoint[] {
+    const now = Date.now();
+    const head = this.#highestBlock();
+    return this.#endpoints
+      .map((endpoint, index) => ({ endpoint, index, score: score(endpoint, now, head) }))
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(entry => entry.endpoint);
+  }
+
+  #recordSuccess(endpoint: Endpoint, latencyMs: number) {
+    endpoint.requests++;
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? latencyMs
+        : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - ERROR_SMOOTHING;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    this.#notify();
+  }
+
+  #recordFailure(endpoint: Endpoint, error: unknown) {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.errorRate += ERROR_SMOOTHING * (1 - endpoint.errorRate);
+    endpoint.consecutiveFailures++;
+    const cooldown = BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - 1);
+    endpoint.cooldownUntil = Date.now() + Math.min(cooldown, MAX_COOLDOWN_MS);
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    this.#notify();
+  }
+
+  /** Sends one request to one endpoint and records how it went. */
+  async #send(endpoint: Endpoint, req: PerformActionRequest): Promise<unknown> {
+    const started = performance.now();
+    try {
+      const result = await withTimeout(endpoint.transport.perform(req), this.#options.timeoutMs);
+      if (req.method === "getBlockNumber") endpoint.blockNumber = Number(result);
+      this.#recordSuccess(endpoint, performance.now() - started);
+      return result;
+    } catch (error) {
+      if (isChainError(error)) {
+        this.#recordSuccess(endpoint, performance.now() - started);
+      } else {
+        this.#recordFailure(endpoint, error);
+      }
+      throw error;
+    }
+  }
+
+  async performWithFailover(req: PerformActionRequest): Promise<unknown> {
+    let lastError: unknown = new Error(`No RPC endpoints configured for ${this.#options.name}`);
+    for (const endpoint of this.#ranked()) {
+      try {
+        return await this.#send(endpoint, req);
+      } catch (error) {
+        if (isChainError(error)) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Asks the best `quorum` endpoints at once, then one more at a time until enough of them gave the
+   * same answer. A revert every endpoint agrees on is an answer too.
+   */
+  async performWithQuorum(req: PerformActionRequest): Promise<unknown> {
+    const candidates = this.#ranked();
+    const needed = this.quorum;
+    const answers: Answer[] = [];
+
+    const ask = async (endpoint: Endpoint) => {
+      try {
+        const result = await this.#send(endpoint, req);
+        answers.push({ key: JSON.stringify(result), result });
+      } catch (error) {
+        if (isChainError(error)) {
+          answers.push({ key: chainErrorKey(error), error });
+        }
+      }
+    };
+
+    await Promise.all(candidates.slice(0, needed).map(ask));
+    for (let next = needed; ; next++) {
+      const counts = new Map<string, number>();
+      for (const answer of answers) counts.set(answer.key, (counts.get(answer.key) ?? 0) + 1);
+      const agreed = answers.find(answer => counts.get(answer.key)! >= needed);
+      if (agreed) {
+        if (agreed.error) throw agreed.error;
+        return agreed.result;
+      }
+      if (next >= candidates.length) {
+        throw new Error(
+          `RPC endpoints did not agree on ${req.method}: ${needed} matching answers needed, ${answers.length} received`
+        );
+      }
+      await ask(candidates[next]);
+    }
+  }
+
+  /** Asks every endpoint for its head, refreshing latencies and lag even for endpoints not in use. */
+  async probe() {
+    await Promise.all(
+      this.#endpoints.map(endpoint => this.#send(endpoint, { method: "getBlockNumber" }).catch(() => undefined))
+    );
+  }
+
+  health(): EndpointHealth[] {
+    const now = Date.now();
+    const head = this.#highestBlock();
+    return this.#endpoints.map(endpoint => ({
+      url: endpoint.transport.url,
+      latencyMs: endpoint.latencyMs,
+      errorRate: endpoint.errorRate,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      lastError: endpoint.lastError,
+      blockNumber: endpoint.blockNumber,
+      lag: endpoint.blockNumber === null ? null : head - endpoint.blockNumber,
+      coolingDown: endpoint.cooldownUntil > now,
+      healthy:
+        endpoint.blockNumber !== null &&
+        endpoint.consecutiveFailures === 0 &&
+        head - endpoint.blockNumber <= MAX_LAG_BLOCKS,
+      score: score(endpoint, now, head)
+    }));
+  }
+
+  /** Calls `listener` whenever a request or probe changes the pool's health; returns the unsubscribe. */
+  subscribe(listener: () => void): () => void {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+}
+
+const chain = new Network(network.id, network.chainId);
+
+const pool = new EndpointPool(
+  network.rpcUrls.map(url => {
+    const provider = new JsonRpcProvider(url, chain, { staticNetwork: chain });
+    return { url, perform: req => provider._perform(req) };
+  }),
+  { timeoutMs: REQUEST_TIMEOUT_MS, quorum: QUORUM, name: network.name }
+);
+
+class PoolProvider extends AbstractProvider {
+  readonly #quorum: boolean;
+
+  constructor(quorum: boolean) {
+    super(chain);
+    this.#quorum = quorum;
+  }
+
+  async _detectNetwork(): Promise<Network> {
+    return chain;
+  }
+
+  async _perform<T = unknown>(req: PerformActionRequest): Promise<T> {
+    // The endpoints answer with what JsonRpcProvider._perform returns for `req`, i.e. a T
+    return (await (this.#quorum ? pool.performWithQuorum(req) : pool.performWithFailover(req))) as T;
+  }
+}
+
+/** Asks every endpoint of the active profile for its head. */
+export const probeEndpoints = () => pool.probe();
+
+let readOnlyProvider: PoolProvider | null = null;
+let quorumProvider: PoolProvider | null = null;
+
+function startProbing() {
+  probeEndpoints();
+  setInterval(() => {
+    if (document.visibilityState === "visible") probeEndpoints();
+  }, PROBE_INTERVAL_MS);
+}
+
+/** The shared read-only provider; the first call starts probing the pool. */
+export function getReadOnlyProvider(): AbstractProvider {
+  if (!readOnlyProvider) {
+    readOnlyProvider = new PoolProvider(false);
+    startProbing();
+  }
+  return readOnlyProvider;
+}
+
+/** A provider for critical reads, answering only what a quorum of endpoints agrees on. */
+export function getQuorumProvider(): AbstractProvider {
+  getReadOnlyProvider();
+  if (!quorumProvider) quorumProvider = new PoolProvider(true);
+  return quorumProvider;
+}
+
+export const rpcQuorum = () => pool.quorum;
+
+export const getRpcHealth = (): EndpointHealth[] => pool.health();
+
+/** Calls `listener` whenever a request or probe changes the pool's health; returns the unsubscribe. */
+export const subscribeRpcHealth = (listener: () => void) => pool.subscribe(listener);
@@ -11,4 +11,5 @@ interface Window {
     selectedAddress?: string;
     chainId?: string;
   };
+  relayerSDK?: typeof import("@zama-fhe/relayer-sdk/bundle");
 }
\ No newline at end of file
@@ -0,0 +1,1355 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace VcIdFHE {
+  export type VerifierProofStruct = {
+    requestId: BytesLike;
+    verifier: AddressLike;
+    policyHash: BytesLike;
+    encryptedResult: BytesLike;
+    timestamp: BigNumberish;
+  };
+
+  export type VerifierProofStructOutput = [
+    requestId: string,
+    verifier: string,
+    policyHash: string,
+    encryptedResult: string,
+    timestamp: bigint
+  ] & {
+    requestId: string;
+    verifier: string;
+    policyHash: string;
+    encryptedResult: string;
+    timestamp: bigint;
+  };
+
+  export type PredicateStruct = {
+    schemaId: BigNumberish;
+    issuer: AddressLike;
+    fieldOffset: BigNumberish;
+    fieldWidth: BigNumberish;
+    op: BigNumberish;
+    value: BigNumberish;
+  };
+
+  export type PredicateStructOutput = [
+    schemaId: bigint,
+    issuer: string,
+    fieldOffset: bigint,
+    fieldWidth: bigint,
+    op: bigint,
+    value: bigint
+  ] & {
+    schemaId: bigint;
+    issuer: string;
+    fieldOffset: bigint;
+    fieldWidth: bigint;
+    op: bigint;
+    value: bigint;
+  };
+
+  export type ProofRequestStruct = {
+    verifier: AddressLike;
+    predicates: VcIdFHE.PredicateStruct[];
+    issuers: AddressLike[];
+    freshness: BigNumberish;
+    createdAt: BigNumberish;
+    nonce: BytesLike;
+  };
+
+  export type ProofRequestStructOutput = [
+    verifier: string,
+    predicates: VcIdFHE.PredicateStructOutput[],
+    issuers: string[],
+    freshness: bigint,
+    createdAt: bigint,
+    nonce: string
+  ] & {
+    verifier: string;
+    predicates: VcIdFHE.PredicateStructOutput[];
+    issuers: string[];
+    freshness: bigint;
+    createdAt: bigint;
+    nonce: string;
+  };
+}
+
+export interface VcIdFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_CREDENTIALS"
+      | "MAX_POLICY_COMPARISONS"
+      | "MAX_POLICY_PREDICATES"
+      | "MAX_REQUEST_ISSUERS"
+      | "addCredential"
+      | "allowIssuer"
+      | "deactivateSchema"
+      | "denyIssuer"
+      | "finalizePolicyReveal"
+      | "finalizeReveal"
+      | "getCredential"
+      | "getCredentialCount"
+      | "getIssuer"
+      | "getIssuers"
+      | "getPolicyProof"
+      | "getProof"
+      | "getProofsFor"
+      | "getSchema"
+      | "getSchemaCount"
+      | "getVerifierProof"
+      | "hasPolicyProof"
+      | "hasProof"
+      | "isTrustedIssuer"
+      | "owner"
+      | "protocolId"
+      | "provePolicy"
+      | "pseudonymDigest"
+      | "registerSchema"
+      | "requestPolicyReveal"
+      | "requestProofGeneration"
+      | "requestProofReveal"
+      | "respondToRequest"
+      | "revokeCredential"
+      | "schemaIdByHash"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CredentialAdded"
+      | "CredentialRevoked"
+      | "DecryptionFulfilled"
+      | "IssuerAllowed"
+      | "IssuerDenied"
+      | "OwnershipTransferred"
+      | "PolicyProofGenerated"
+      | "PolicyProofRevealed"
+      | "ProofGenerated"
+      | "ProofRequestAnswered"
+      | "ProofRevealed"
+      | "SchemaDeactivated"
+      | "SchemaRegistered"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_CREDENTIALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_POLICY_COMPARISONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_POLICY_PREDICATES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_REQUEST_ISSUERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addCredential",
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowIssuer",
+    values: [AddressLike, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deactivateSchema",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "denyIssuer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizePolicyReveal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeReveal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCredential",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCredentialCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIssuer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIssuers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPolicyProof",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProof",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProofsFor",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSchema",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSchemaCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVerifierProof",
+    values: [AddressLike, AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasPolicyProof",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasProof",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTrustedIssuer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "provePolicy",
+    values: [VcIdFHE.PredicateStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pseudonymDigest",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerSchema",
+    values: [string, BigNumberish, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestPolicyReveal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestProofGeneration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestProofReveal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "respondToRequest",
+    values: [VcIdFHE.ProofRequestStruct, AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeCredential",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "schemaIdByHash",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_CREDENTIALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_POLICY_COMPARISONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_POLICY_PREDICATES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_REQUEST_ISSUERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowIssuer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deactivateSchema",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "denyIssuer", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizePolicyReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCredentialCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getIssuer", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getIssuers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPolicyProof",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getProof", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getProofsFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSchema", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSchemaCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVerifierProof",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasPolicyProof",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasProof", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isTrustedIssuer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "provePolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pseudonymDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerSchema",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestPolicyReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestProofGeneration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestProofReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "respondToRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "schemaIdByHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CredentialAddedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    issuer: AddressLike,
+    credentialId: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    issuer: string,
+    credentialId: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    issuer: string;
+    credentialId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CredentialRevokedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    issuer: AddressLike,
+    credentialId: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    issuer: string,
+    credentialId: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    issuer: string;
+    credentialId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IssuerAllowedEvent {
+  export type InputTuple = [
+    issuer: AddressLike,
+    displayName: string,
+    allowedCredentialTypes: BigNumberish
+  ];
+  export type OutputTuple = [
+    issuer: string,
+    displayName: string,
+    allowedCredentialTypes: bigint
+  ];
+  export interface OutputObject {
+    issuer: string;
+    displayName: string;
+    allowedCredentialTypes: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IssuerDeniedEvent {
+  export type InputTuple = [issuer: AddressLike];
+  export type OutputTuple = [issuer: string];
+  export interface OutputObject {
+    issuer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PolicyProofGeneratedEvent {
+  export type InputTuple = [user: AddressLike, policyHash: BytesLike];
+  export type OutputTuple = [user: string, policyHash: string];
+  export interface OutputObject {
+    user: string;
+    policyHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PolicyProofRevealedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    policyHash: BytesLike,
+    result: boolean
+  ];
+  export type OutputTuple = [user: string, policyHash: string, result: boolean];
+  export interface OutputObject {
+    user: string;
+    policyHash: string;
+    result: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProofGeneratedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProofRequestAnsweredEvent {
+  export type InputTuple = [
+    requestId: BytesLike,
+    pseudonym: AddressLike,
+    verifier: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: string,
+    pseudonym: string,
+    verifier: string
+  ];
+  export interface OutputObject {
+    requestId: string;
+    pseudonym: string;
+    verifier: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProofRevealedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SchemaDeactivatedEvent {
+  export type InputTuple = [schemaId: BigNumberish];
+  export type OutputTuple = [schemaId: bigint];
+  export interface OutputObject {
+    schemaId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SchemaRegisteredEvent {
+  export type InputTuple = [
+    schemaId: BigNumberish,
+    name: string,
+    credentialType: BigNumberish,
+    definitionHash: BytesLike
+  ];
+  export type OutputTuple = [
+    schemaId: bigint,
+    name: string,
+    credentialType: bigint,
+    definitionHash: string
+  ];
+  export interface OutputObject {
+    schemaId: bigint;
+    name: string;
+    credentialType: bigint;
+    definitionHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface VcIdFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): VcIdFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: VcIdFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_CREDENTIALS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_POLICY_COMPARISONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_POLICY_PREDICATES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_REQUEST_ISSUERS: TypedContractMethod<[], [bigint], "view">;
+
+  addCredential: TypedContractMethod<
+    [
+      user: AddressLike,
+      schemaId: BigNumberish,
+      attributes: BytesLike,
+      expiry: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  allowIssuer: TypedContractMethod<
+    [
+      issuer: AddressLike,
+      displayName: string,
+      allowedCredentialTypes: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  deactivateSchema: TypedContractMethod<
+    [schemaId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  denyIssuer: TypedContractMethod<[issuer: AddressLike], [void], "nonpayable">;
+
+  finalizePolicyReveal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  finalizeReveal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getCredential: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [
+      [string, bigint, string, string, string, bigint, boolean] & {
+        issuer: string;
+        schemaId: bigint;
+        credentialType: string;
+        attributes: string;
+        expiry: string;
+        timestamp: bigint;
+        revoked: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getCredentialCount: TypedContractMethod<
+    [user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getIssuer: TypedContractMethod<
+    [issuer: AddressLike],
+    [
+      [bigint, string, bigint, bigint] & {
+        status: bigint;
+        displayName: string;
+        allowedCredentialTypes: bigint;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getIssuers: TypedContractMethod<[], [string[]], "view">;
+
+  getPolicyProof: TypedContractMethod<
+    [user: AddressLike],
+    [
+      [string, string, boolean, boolean, bigint] & {
+        policyHash: string;
+        encryptedResult: string;
+        isRevealed: boolean;
+        revealedResult: boolean;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getProof: TypedContractMethod<
+    [user: AddressLike],
+    [
+      [string, boolean, bigint, bigint] & {
+        encryptedCompositeScore: string;
+        isRevealed: boolean;
+        revealedScore: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getProofsFor: TypedContractMethod<
+    [pseudonym: AddressLike, verifier: AddressLike],
+    [VcIdFHE.VerifierProofStructOutput[]],
+    "view"
+  >;
+
+  getSchema: TypedContractMethod<
+    [schemaId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, string, boolean] & {
+        name: string;
+        credentialType: bigint;
+        scoreOffset: bigint;
+        scoreWidth: bigint;
+        definitionHash: string;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getSchemaCount: TypedContractMethod<[], [bigint], "view">;
+
+  getVerifierProof: TypedContractMethod<
+    [pseudonym: AddressLike, verifier: AddressLike, requestId: BytesLike],
+    [VcIdFHE.VerifierProofStructOutput],
+    "view"
+  >;
+
+  hasPolicyProof: TypedContractMethod<[user: AddressLike], [boolean], "view">;
+
+  hasProof: TypedContractMethod<[user: AddressLike], [boolean], "view">;
+
+  isTrustedIssuer: TypedContractMethod<
+    [issuer: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  provePolicy: TypedContractMethod<
+    [predicates: VcIdFHE.PredicateStruct[]],
+    [string],
+    "nonpayable"
+  >;
+
+  pseudonymDigest: TypedContractMethod<
+    [requestId: BytesLike, holder: AddressLike],
+    [string],
+    "view"
+  >;
+
+  registerSchema: TypedContractMethod<
+    [
+      name: string,
+      credentialType: BigNumberish,
+      scoreOffset: BigNumberish,
+      scoreWidth: BigNumberish,
+      definitionHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestPolicyReveal: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestProofGeneration: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestProofReveal: TypedContractMethod<[], [void], "nonpayable">;
+
+  respondToRequest: TypedContractMethod<
+    [
+      request: VcIdFHE.ProofRequestStruct,
+      pseudonym: AddressLike,
+      pseudonymSignature: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  revokeCredential: TypedContractMethod<
+    [user: AddressLike, credentialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  schemaIdByHash: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_CREDENTIALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_POLICY_COMPARISONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_POLICY_PREDICATES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_REQUEST_ISSUERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addCredential"
+  ): TypedContractMethod<
+    [
+      user: AddressLike,
+      schemaId: BigNumberish,
+      attributes: BytesLike,
+      expiry: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowIssuer"
+  ): TypedContractMethod<
+    [
+      issuer: AddressLike,
+      displayName: string,
+      allowedCredentialTypes: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "deactivateSchema"
+  ): TypedContractMethod<[schemaId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "denyIssuer"
+  ): TypedContractMethod<[issuer: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "finalizePolicyReveal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeReveal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getCredential"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [
+      [string, bigint, string, string, string, bigint, boolean] & {
+        issuer: string;
+        schemaId: bigint;
+        credentialType: string;
+        attributes: string;
+        expiry: string;
+        timestamp: bigint;
+        revoked: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCredentialCount"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getIssuer"
+  ): TypedContractMethod<
+    [issuer: AddressLike],
+    [
+      [bigint, string, bigint, bigint] & {
+        status: bigint;
+        displayName: string;
+        allowedCredentialTypes: bigint;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getIssuers"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getPolicyProof"
+  ): TypedContractMethod<
+    [user: AddressLike],
+    [
+      [string, string, boolean, boolean, bigint] & {
+        policyHash: string;
+        encryptedResult: string;
+        isRevealed: boolean;
+        revealedResult: boolean;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProof"
+  ): TypedContractMethod<
+    [user: AddressLike],
+    [
+      [string, boolean, bigint, bigint] & {
+        encryptedCompositeScore: string;
+        isRevealed: boolean;
+        revealedScore: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProofsFor"
+  ): TypedContractMethod<
+    [pseudonym: AddressLike, verifier: AddressLike],
+    [VcIdFHE.VerifierProofStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSchema"
+  ): TypedContractMethod<
+    [schemaId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, string, boolean] & {
+        name: string;
+        credentialType: bigint;
+        scoreOffset: bigint;
+        scoreWidth: bigint;
+        definitionHash: string;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSchemaCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getVerifierProof"
+  ): TypedContractMethod<
+    [pseudonym: AddressLike, verifier: AddressLike, requestId: BytesLike],
+    [VcIdFHE.VerifierProofStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasPolicyProof"
+  ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasProof"
+  ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isTrustedIssuer"
+  ): TypedContractMethod<[issuer: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "provePolicy"
+  ): TypedContractMethod<
+    [predicates: VcIdFHE.PredicateStruct[]],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pseudonymDigest"
+  ): TypedContractMethod<
+    [requestId: BytesLike, holder: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "registerSchema"
+  ): TypedContractMethod<
+    [
+      name: string,
+      credentialType: BigNumberish,
+      scoreOffset: BigNumberish,
+      scoreWidth: BigNumberish,
+      definitionHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestPolicyReveal"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestProofGeneration"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestProofReveal"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "respondToRequest"
+  ): TypedContractMethod<
+    [
+      request: VcIdFHE.ProofRequestStruct,
+      pseudonym: AddressLike,
+      pseudonymSignature: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeCredential"
+  ): TypedContractMethod<
+    [user: AddressLike, credentialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "schemaIdByHash"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "CredentialAdded"
+  ): TypedContractEvent<
+    CredentialAddedEvent.InputTuple,
+    CredentialAddedEvent.OutputTuple,
+    CredentialAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CredentialRevoked"
+  ): TypedContractEvent<
+    CredentialRevokedEvent.InputTuple,
+    CredentialRevokedEvent.OutputTuple,
+    CredentialRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "IssuerAllowed"
+  ): TypedContractEvent<
+    IssuerAllowedEvent.InputTuple,
+    IssuerAllowedEvent.OutputTuple,
+    IssuerAllowedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IssuerDenied"
+  ): TypedContractEvent<
+    IssuerDeniedEvent.InputTuple,
+    IssuerDeniedEvent.OutputTuple,
+    IssuerDeniedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PolicyProofGenerated"
+  ): TypedContractEvent<
+    PolicyProofGeneratedEvent.InputTuple,
+    PolicyProofGeneratedEvent.OutputTuple,
+    PolicyProofGeneratedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PolicyProofRevealed"
+  ): TypedContractEvent<
+    PolicyProofRevealedEvent.InputTuple,
+    PolicyProofRevealedEvent.OutputTuple,
+    PolicyProofRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProofGenerated"
+  ): TypedContractEvent<
+    ProofGeneratedEvent.InputTuple,
+    ProofGeneratedEvent.OutputTuple,
+    ProofGeneratedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProofRequestAnswered"
+  ): TypedContractEvent<
+    ProofRequestAnsweredEvent.InputTuple,
+    ProofRequestAnsweredEvent.OutputTuple,
+    ProofRequestAnsweredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProofRevealed"
+  ): TypedContractEvent<
+    ProofRevealedEvent.InputTuple,
+    ProofRevealedEvent.OutputTuple,
+    ProofRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SchemaDeactivated"
+  ): TypedContractEvent<
+    SchemaDeactivatedEvent.InputTuple,
+    SchemaDeactivatedEvent.OutputTuple,
+    SchemaDeactivatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SchemaRegistered"
+  ): TypedContractEvent<
+    SchemaRegisteredEvent.InputTuple,
+    SchemaRegisteredEvent.OutputTuple,
+    SchemaRegisteredEvent.OutputObject
+  >;
+
+  filters: {
+    "CredentialAdded(address,address,uint256)": TypedContractEvent<
+      CredentialAddedEvent.InputTuple,
+      CredentialAddedEvent.OutputTuple,
+      CredentialAddedEvent.OutputObject
+    >;
+    CredentialAdded: TypedContractEvent<
+      CredentialAddedEvent.InputTuple,
+      CredentialAddedEvent.OutputTuple,
+      CredentialAddedEvent.OutputObject
+    >;
+
+    "CredentialRevoked(address,address,uint256)": TypedContractEvent<
+      CredentialRevokedEvent.InputTuple,
+      CredentialRevokedEvent.OutputTuple,
+      CredentialRevokedEvent.OutputObject
+    >;
+    CredentialRevoked: TypedContractEvent<
+      CredentialRevokedEvent.InputTuple,
+      CredentialRevokedEvent.OutputTuple,
+      CredentialRevokedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "IssuerAllowed(address,string,uint32)": TypedContractEvent<
+      IssuerAllowedEvent.InputTuple,
+      IssuerAllowedEvent.OutputTuple,
+      IssuerAllowedEvent.OutputObject
+    >;
+    IssuerAllowed: TypedContractEvent<
+      IssuerAllowedEvent.InputTuple,
+      IssuerAllowedEvent.OutputTuple,
+      IssuerAllowedEvent.OutputObject
+    >;
+
+    "IssuerDenied(address)": TypedContractEvent<
+      IssuerDeniedEvent.InputTuple,
+      IssuerDeniedEvent.OutputTuple,
+      IssuerDeniedEvent.OutputObject
+    >;
+    IssuerDenied: TypedContractEvent<
+      IssuerDeniedEvent.InputTuple,
+      IssuerDeniedEvent.OutputTuple,
+      IssuerDeniedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PolicyProofGenerated(address,bytes32)": TypedContractEvent<
+      PolicyProofGeneratedEvent.InputTuple,
+      PolicyProofGeneratedEvent.OutputTuple,
+      PolicyProofGeneratedEvent.OutputObject
+    >;
+    PolicyProofGenerated: TypedContractEvent<
+      PolicyProofGeneratedEvent.InputTuple,
+      PolicyProofGeneratedEvent.OutputTuple,
+      PolicyProofGeneratedEvent.OutputObject
+    >;
+
+    "PolicyProofRevealed(address,bytes32,bool)": TypedContractEvent<
+      PolicyProofRevealedEvent.InputTuple,
+      PolicyProofRevealedEvent.OutputTuple,
+      PolicyProofRevealedEvent.OutputObject
+    >;
+    PolicyProofRevealed: TypedContractEvent<
+      PolicyProofRevealedEvent.InputTuple,
+      PolicyProofRevealedEvent.OutputTuple,
+      PolicyProofRevealedEvent.OutputObject
+    >;
+
+    "ProofGenerated(address)": TypedContractEvent<
+      ProofGeneratedEvent.InputTuple,
+      ProofGeneratedEvent.OutputTuple,
+      ProofGeneratedEvent.OutputObject
+    >;
+    ProofGenerated: TypedContractEvent<
+      ProofGeneratedEvent.InputTuple,
+      ProofGeneratedEvent.OutputTuple,
+      ProofGeneratedEvent.OutputObject
+    >;
+
+    "ProofRequestAnswered(bytes32,address,address)": TypedContractEvent<
+      ProofRequestAnsweredEvent.InputTuple,
+      ProofRequestAnsweredEvent.OutputTuple,
+      ProofRequestAnsweredEvent.OutputObject
+    >;
+    ProofRequestAnswered: TypedContractEvent<
+      ProofRequestAnsweredEvent.InputTuple,
+      ProofRequestAnsweredEvent.OutputTuple,
+      ProofRequestAnsweredEvent.OutputObject
+    >;
+
+    "ProofRevealed(address)": TypedContractEvent<
+      ProofRevealedEvent.InputTuple,
+      ProofRevealedEvent.OutputTuple,
+      ProofRevealedEvent.OutputObject
+    >;
+    ProofRevealed: TypedContractEvent<
+      ProofRevealedEvent.InputTuple,
+      ProofRevealedEvent.OutputTuple,
+      ProofRevealedEvent.OutputObject
+    >;
+
+    "SchemaDeactivated(uint256)": TypedContractEvent<
+      SchemaDeactivatedEvent.InputTuple,
+      SchemaDeactivatedEvent.OutputTuple,
+      SchemaDeactivatedEvent.OutputObject
+    >;
+    SchemaDeactivated: TypedContractEvent<
+      SchemaDeactivatedEvent.InputTuple,
+      SchemaDeactivatedEvent.OutputTuple,
+      SchemaDeactivatedEvent.OutputObject
+    >;
+
+    "SchemaRegistered(uint256,string,uint32,bytes32)": TypedContractEvent<
+      SchemaRegisteredEvent.InputTuple,
+      SchemaRegisteredEvent.OutputTuple,
+      SchemaRegisteredEvent.OutputObject
+    >;
+    SchemaRegistered: TypedContractEvent<
+      SchemaRegisteredEvent.InputTuple,
+      SchemaRegisteredEvent.OutputTuple,
+      SchemaRegisteredEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1238 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type { VcIdFHE, VcIdFHEInterface } from "../../contracts/VcIdFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "credentialId",
+        type: "uint256",
+      },
+    ],
+    name: "CredentialAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "credentialId",
+        type: "uint256",
+      },
+    ],
+    name: "CredentialRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "allowedCredentialTypes",
+        type: "uint32",
+      },
+    ],
+    name: "IssuerAllowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+    ],
+    name: "IssuerDenied",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "policyHash",
+        type: "bytes32",
+      },
+    ],
+    name: "PolicyProofGenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "policyHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "result",
+        type: "bool",
+      },
+    ],
+    name: "PolicyProofRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "ProofGenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "requestId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pseudonym",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "ProofRequestAnswered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "ProofRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "schemaId",
+        type: "uint256",
+      },
+    ],
+    name: "SchemaDeactivated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "schemaId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "credentialType",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "definitionHash",
+        type: "bytes32",
+      },
+    ],
+    name: "SchemaRegistered",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CREDENTIALS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_POLICY_COMPARISONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_POLICY_PREDICATES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_REQUEST_ISSUERS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "schemaId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "attributes",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "expiry",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "addCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "allowedCredentialTypes",
+        type: "uint32",
+      },
+    ],
+    name: "allowIssuer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "schemaId",
+        type: "uint256",
+      },
+    ],
+    name: "deactivateSchema",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+    ],
+    name: "denyIssuer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "finalizePolicyReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "finalizeReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getCredential",
+    outputs: [
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "schemaId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "credentialType",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "attributes",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "expiry",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revoked",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getCredentialCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+    ],
+    name: "getIssuer",
+    outputs: [
+      {
+        internalType: "enum VcIdFHE.IssuerStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "allowedCredentialTypes",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getIssuers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getPolicyProof",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "policyHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedResult",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "revealedResult",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getProof",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedCompositeScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "revealedScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "pseudonym",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "getProofsFor",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "requestId",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "verifier",
+            type: "address",
+          },
+          {
+            internalType: "bytes32",
+            name: "policyHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "encryptedResult",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct VcIdFHE.VerifierProof[]",
+        name: "proofs",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "schemaId",
+        type: "uint256",
+      },
+    ],
+    name: "getSchema",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "credentialType",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "scoreOffset",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "scoreWidth",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "definitionHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSchemaCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "pseudonym",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "requestId",
+        type: "bytes32",
+      },
+    ],
+    name: "getVerifierProof",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "requestId",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "verifier",
+            type: "address",
+          },
+          {
+            internalType: "bytes32",
+            name: "policyHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "encryptedResult",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct VcIdFHE.VerifierProof",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "hasPolicyProof",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "hasProof",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+    ],
+    name: "isTrustedIssuer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "schemaId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "issuer",
+            type: "address",
+          },
+          {
+            internalType: "uint8",
+            name: "fieldOffset",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "fieldWidth",
+            type: "uint8",
+          },
+          {
+            internalType: "enum VcIdFHE.PredicateOp",
+            name: "op",
+            type: "uint8",
+          },
+          {
+            internalType: "uint64",
+            name: "value",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct VcIdFHE.Predicate[]",
+        name: "predicates",
+        type: "tuple[]",
+      },
+    ],
+    name: "provePolicy",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "requestId",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "pseudonymDigest",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "credentialType",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "scoreOffset",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "scoreWidth",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "definitionHash",
+        type: "bytes32",
+      },
+    ],
+    name: "registerSchema",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestPolicyReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestProofGeneration",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestProofReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "verifier",
+            type: "address",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "schemaId",
+                type: "uint256",
+              },
+              {
+                internalType: "address",
+                name: "issuer",
+                type: "address",
+              },
+              {
+                internalType: "uint8",
+                name: "fieldOffset",
+                type: "uint8",
+              },
+              {
+                internalType: "uint8",
+                name: "fieldWidth",
+                type: "uint8",
+              },
+              {
+                internalType: "enum VcIdFHE.PredicateOp",
+                name: "op",
+                type: "uint8",
+              },
+              {
+                internalType: "uint64",
+                name: "value",
+                type: "uint64",
+              },
+            ],
+            internalType: "struct VcIdFHE.Predicate[]",
+            name: "predicates",
+            type: "tuple[]",
+          },
+          {
+            internalType: "address[]",
+            name: "issuers",
+            type: "address[]",
+          },
+          {
+            internalType: "uint64",
+            name: "freshness",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "createdAt",
+            type: "uint64",
+          },
+          {
+            internalType: "bytes32",
+            name: "nonce",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct VcIdFHE.ProofRequest",
+        name: "request",
+        type: "tuple",
+      },
+      {
+        internalType: "address",
+        name: "pseudonym",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "pseudonymSignature",
+        type: "bytes",
+      },
+    ],
+    name: "respondToRequest",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "requestId",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "credentialId",
+        type: "uint256",
+      },
+    ],
+    name: "revokeCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "schemaIdByHash",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200018b575f6060620000176200018f565b8281528260208201528260408201520152620000326200018f565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970390828254161790553390600a541617600a55604051335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a36149cd9081620001c48239f35b5f80fd5b60405190608082016001600160401b03811183821017620001af57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063012335cf1461023f57806315b125d91461023a57806319dab8a6146102355780631b6385e61461023057806321911d841461022b5780632b26fb29146102265780632d405995146102215780633684040b1461021c5780633eea79d1146102175780634c41427a1461021257806366b1a1af1461020d57806367fecebf146102085780637106b2fc1461020357806372f0852a146101fe5780637c4f4e0b146101f95780638a937fad146101f45780638d3ddee8146101f45780638da5cb5b146101ef578063a16c9c40146101ea578063a594da95146101e5578063b13719ac146101e0578063b35b6296146101db578063b7b45dcf146101d6578063b8d18b6a146101d1578063bfccdd43146101cc578063c92bc4fd146101c7578063d2fc40c7146101c2578063d42e92bb146101bd578063d5f15534146101b8578063da1f12ab146101b3578063dac3ae50146101ae578063e3beac03146101a9578063ef2ed1a4146101a4578063f2fde38b1461019f5763fef03da31461019a575f80fd5b611b75565b611aa7565b611a7b565b611a3e565b61199c565b611980565b6118f4565b6118d7565b6117a7565b6114df565b6114c8565b6114ad565b61146d565b611454565b6112ac565b6111e8565b6111b6565b61118e565b611173565b6110aa565b61108f565b610f84565b610ef7565b610e35565b610dc6565b610d60565b610c86565b610c42565b610bb3565b610985565b610837565b6105da565b610571565b610286565b6001600160a01b0381160361025557565b5f80fd5b9181601f84011215610255578235916001600160401b038311610255576020838186019501011161025557565b3461025557600319606036820112610255576001600160401b039081600435116102555760c09060043536030112610255576102c3602435610244565b604435908111610255576102de610382913690600401610259565b919091335f525f6020526102f760405f20541515611c02565b6103176001600160a01b0361030f6004803501611c3f565b161515611c49565b6103396010610330604460043501600435600401611c88565b90501115611cbd565b60405160208101906103628161035460043560040185611e65565b03601f19810183528261131d565b519020926024356001600160a01b031615159182610537575b5050611f3c565b6024600435016103be61039a82600435600401611f7c565b6103b86103b1604460043501600435600401611c88565b3691611fc8565b916130cf565b6103c781613213565b506103df6103d9600435600401611c3f565b82613c5f565b60036104338461042661040460243560018060a01b03165f52600760205260405f2090565b610412600435600401611c3f565b60018060a01b03165f5260205260405f2090565b905f5260205260405f2090565b61049f61035461048b600484019687541561050a575b88855561048061045d600435600401611c3f565b6001870180546001600160a01b0319166001600160a01b03909216919091179055565b600435600401611f7c565b604093919351928391602083019586612082565b519020600282015501554290556001600160a01b036104c16004803501611c3f565b60405192839261050692166024356001600160a01b0316827fb62de50d4c94186377844e452ea56cd29d2dce58f82773cd10eb6078a88975655f80a482526020820190565b0390f35b6105328961052d61040460243560018060a01b03165f52600860205260405f2090565b61204e565b610449565b6024356001600160a01b031692506105699161055d91906105583388612bb3565b612fab565b6001600160a01b031690565b145f8061037b565b34610255576020366003190112610255576001600160401b0360043581811161025557366023820112156102555780600401359182116102555736602460c0840283010111610255576105069160246105ca9201612093565b6040519081529081906020820190565b346102555760a0366003190112610255576004356105f781610244565b6024356084356001600160401b0381116102555761061c6107a1913690600401610259565b929061062f61062a33612f77565b6121df565b81151580610805575b806107e0575b61064790612278565b6106ef6106e76106c8610672600161066661066188612232565b612240565b50015463ffffffff1690565b335f908152600b602052604090206002015463ffffffff9182169161069e916001841b161615156122b5565b6001600160a01b0389165f9081526009602052604090206106c39060089054106122f4565b613d75565b926106df6106d73689846113ab565b604435613f13565b9636916113ab565b606435614008565b6106f882613213565b5061070285613213565b5061070c81613213565b506107178683613c5f565b6107218686613c5f565b61072b8682613c5f565b6001600160a01b0386165f90815260096020526040902061074c8154612337565b90556001600160a01b0386165f908152602081905260409020805495909261077261133e565b8781523360208201529460408601526060850152608084015260a08301524260c08301525f60e083015261235e565b60405190815233916001600160a01b0316907f1ee0a79cda91fb10aaffdd60e2da976db90b8587087e33c2ec34d3e6419e17f99080602081015b0390a3005b506106476107fe60036107f561066186612232565b50015460ff1690565b905061063e565b50600d54821115610638565b6044359063ffffffff8216820361025557565b6024359063ffffffff8216820361025557565b346102555760603660031901126102555760043561085481610244565b6024356001600160401b03811161025557610873903690600401610259565b61087b610811565b9160018060a01b0361089281600a541633146123f9565b8416936108a0851515612431565b63ffffffff84161561093f577fb2263847d74629a4a9c1d4822a374e4d0d7b850fbd2766cbe75cf6c1b85cc47b9361092e826108de61093a9461321d565b6109296108e961135e565b60018152916108f93689896113ab565b602084015263ffffffff851660408401524260608401526001600160a01b03165f908152600b6020526040902090565b61250d565b6040519384938461265a565b0390a2005b60405162461bcd60e51b81526020600482015260136024820152724e6f2063726564656e7469616c20747970657360681b6044820152606490fd5b60ff81160361025557565b346102555760a0366003190112610255576004356001600160401b038111610255576109b8610506913690600401610259565b7f9d43e15e4fa350f14c2e0583918e48cad87bc5495fbed6b8e4e15783f0b301ca6109e1610824565b91604435936109ef8561097a565b610abf606435956109ff8761097a565b610aa760843597610a1b60018060a01b03600a541633146123f9565b610a3563ffffffff89168015159081610b20575b5061267f565b610a5260ff82168015159081610b14575b81610afb575b506126d8565b610a6e610a678a5f52600e60205260405f2090565b541561271a565b610a9d610a7961137d565b93610a853689896113ab565b855263ffffffff8a16602086015260ff166040850152565b60ff166060830152565b866080820152610aba60a0820160019052565b612756565b610ae8600d5495869586610adb835f52600e60205260405f2090565b55604051948594856128f5565b0390a26040519081529081906020820190565b60409150610b0c9060ff87166126cb565b11155f610a4c565b60208111159150610a46565b60209150105f610a2f565b5f5b838110610b3c5750505f910152565b8181015183820152602001610b2d565b90602091610b6581518092818552858086019101610b2b565b601f01601f1916010190565b94919695929360ff60a09563ffffffff610b94839560c08b5260c08b0190610b4c565b9a16602089015216604087015216606085015260808401521515910152565b346102555760203660031901126102555760043580151580610c36575b610bd990612278565b5f198101908111610c3157610bed90612240565b506001810154610506600283015492610c0d60ff6003830154169161291f565b93604051948460ff879660281c169163ffffffff60ff8360201c1692169087610b71565b61221e565b50600d54811115610bd0565b3461025557602036600319011261025557600435610c5f81610244565b60018060a01b03165f525f602052602060405f2054604051908152f35b5f91031261025557565b34610255575f36600319011261025557335f525f602052610cac60405f20541515611c02565b335f526001602052610cc860ff600160405f20015416156129bf565b335f90815260016020526040902054610ce29015156129fe565b610cea612a35565b335f90815260016020526040902054610d0282612a5f565b52610d5d610d4d610d12836140eb565b92610d4833610d29865f52600260205260405f2090565b80546001600160a01b0319166001600160a01b03909216919091179055565b612a5f565b51915f52600360205260405f2090565b55005b3461025557602036600319011261025557600435610d7d81610244565b60018060a01b03165f526001602052608060405f2080549063ffffffff600260018301549201549160405193845260ff81161515602085015260081c1660408301526060820152f35b3461025557602036600319011261025557600435610de381610244565b60018060a01b03165f52600460205260a060405f2080549060ff600182015491600360028201549101549260405194855260208501528181161515604085015260081c16151560608301526080820152f35b3461025557606036600319011261025557610e93600435610e5581610244565b60243590610e6282610244565b610e6a612a80565b5060018060a01b03165f52600760205260405f209060018060a01b03165f5260205260405f2090565b6044355f5260205260a0610eb860405f20610eb3600482015415156129fe565b612aaa565b610ef56040518092608080918051845260018060a01b03602082015116602085015260408101516040850152606081015160608501520151910152565bf35b3461025557602036600319011261025557600435610f2060018060a01b03600a541633146123f9565b80151580610f78575b610f3290612278565b5f198101818111610c3157610f48600391612240565b5001805460ff191690557f4b2adec1d4f25650f25c63d872be0a3c121ddc6e43e3e511b022e3e9540cce4a5f80a2005b50600d54811115610f29565b3461025557604036600319011261025557600435610fa181610244565b6024359061104f60018060a01b0391611036600784831694855f525f602052610fcf60405f20548810612aef565b61100e610ff488610fef8760018060a01b03165f525f60205260405f2090565b612345565b5060018101549092906001600160a01b0316163314612b30565b01611029611024611020835460ff1690565b1590565b612b69565b805460ff19166001179055565b6001600160a01b03165f90815260096020526040902090565b6110598154612ba7565b905560405191825233917fc9e9a75cd40bba3f11b6712ce939c5d33595a314af7649c9302a6011e975d3099080602081016107db565b34610255575f36600319011261025557602060405160108152f35b34610255576040366003190112610255576004356110c781610244565b6110fc60243560018060a01b03809316805f525f6020526110ed60405f20548310612aef565b5f525f60205260405f20612345565b509060018201541661050660028301549260038101549060048101546005820154906111316007600685015494015460ff1690565b9360405197889788959260c09592989794919860e088019960018060a01b03168852602088015260408701526060860152608085015260a08401521515910152565b34610255575f36600319011261025557602060405160088152f35b34610255575f36600319011261025557600a546040516001600160a01b039091168152602090f35b346102555760403660031901126102555760206111e06024356111d881610244565b600435612bb3565b604051908152f35b34610255575f3660031901126102555760405180600c5480835260208093018091600c5f527fdf6966c971051c3d54ec59162606531493a51404a002842f56009d7e5cf4a8c7905f5b8682821061128f5786866112478288038361131d565b60405192839281840190828552518091526040840192915f5b82811061126f57505050500390f35b83516001600160a01b031685528695509381019392810192600101611260565b83546001600160a01b031685529093019260019283019201611231565b34610255576020366003190112610255576004355f52600e602052602060405f2054604051908152f35b634e487b7160e01b5f52604160045260245ffd5b60a081019081106001600160401b0382111761130557604052565b6112d6565b6001600160401b03811161130557604052565b90601f801991011681019081106001600160401b0382111761130557604052565b6040519061010082018281106001600160401b0382111761130557604052565b60405190608082018281106001600160401b0382111761130557604052565b6040519060c082018281106001600160401b0382111761130557604052565b604051906113a9826112ea565b565b9291926001600160401b03821161130557604051916113d4601f8201601f19166020018461131d565b829481845281830111610255578281602093845f960137010152565b9080601f830112156102555781602061140b933591016113ab565b90565b606060031982011261025557600435916001600160401b03602435818111610255578361143d916004016113f0565b926044359182116102555761140b916004016113f0565b346102555761146b6114653661140e565b91612c79565b005b346102555760203660031901126102555760043561148a81610244565b60018060a01b03165f5260046020526020600160405f2001541515604051908152f35b34610255575f36600319011261025557602060405160408152f35b346102555761146b6114d93661140e565b91612d96565b34610255575f36600319011261025557335f5260205f60205261150760405f20541515611c02565b335f90815260208190526040902061151d613cd5565b91611526613d27565b908384935f905f9363ffffffff9688884216955b898554891015611668575061155460076107f58a88612345565b8015611639575b61162a579080859493926115708a8c98612345565b506002015461157e90612232565b61158790612240565b506115928b88612345565b50600401549060010190815460ff808260281c1691891c166115b39261339b565b6115bc906134b8565b905463ffffffff166115cd91613520565b6115d78b88612345565b50600501546115e6908b61359e565b936115f19185614548565b6115fa916135cd565b9961160492614548565b61160d916135cd565b9361161790612ec8565b956001905b01959390919296899061153a565b9793929194966001915061161c565b5061166361102061165e600161164f8c8a612345565b5001546001600160a01b031690565b612f77565b61155b565b908187949394169361167b851515612edd565b926001945b8084871611156116fa576116d38561169781613213565b506116a23382613c5f565b6116aa61135e565b9081525f6020808301829052604080840183905242606085015233835260019091529020612f29565b337fe7cf8606f45ae999f69f07e3e9b6a1feb0d3142c2846fa13ce4fc7acd5c62b085f80a2005b9091929361171f6117259161170f8886613651565b611719898861367f565b90614548565b95612ec8565b9493929190611680565b60209060206040818301928281528551809452019301915f5b828110611756575050505090565b909192938260a08261179b6001948951608080918051845260018060a01b03602082015116602085015260408101516040850152606081015160608501520151910152565b01950193929101611748565b34610255576040366003190112610255576004356117c481610244565b602435906117d182610244565b6001600160a01b038181165f9081526008602090815260408083209386168352928152919020909281549261180584611fb1565b94611813604051968761131d565b848652601f1961182286611fb1565b015f5b8181106118c1575050505f5b8481106118465760405180610506888261172f565b6001906118a5610eb36118828661186d8760018060a01b03165f52600760205260405f2090565b9060018060a01b03165f5260205260405f2090565b61189961188f858a612034565b90549060031b1c90565b5f5260205260405f2090565b6118af8289612a6c565b526118ba8188612a6c565b5001611831565b82906118cb612a80565b82828b01015201611825565b34610255575f366003190112610255576020600d54604051908152f35b346102555760203660031901126102555760043561191181610244565b61193d60018060a01b0361192a81600a541633146123f9565b821691611938831515612431565b61321d565b805f52600b60205260405f20600260ff198254161781556003429101557f38c33030638ec6bda1c1d86906725a516d3bb60671146cfd6f1f1472577c0d1b5f80a2005b34610255575f3660031901126102555760206040516127118152f35b34610255575f36600319011261025557335f525f6020526119c260405f20541515611c02565b335f52600460205260405f206119f56119f060ff60026001850154946119e98615156129fe565b0154161590565b6129bf565b6119fd612a35565b90611a0782612a5f565b52610d5d611a2e611a178361423e565b92610d4833610d29865f52600560205260405f2090565b51915f52600660205260405f2090565b3461025557602036600319011261025557600435611a5b81610244565b60018060a01b03165f526001602052602060405f20541515604051908152f35b34610255576020366003190112610255576020611a9d60043561165e81610244565b6040519015158152f35b3461025557602036600319011261025557600435611ac481610244565b600a546001600160a01b039081169190611adf3384146123f9565b81168015611b2c5761146b927f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a360018060a01b03166001600160601b0360a01b600a541617600a55565b60405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b21037bbb732b960991b6044820152606490fd5b634e487b7160e01b5f52602160045260245ffd5b3461025557602036600319011261025557600435611b9281610244565b60018060a01b03165f52600b60205260405f2060ff8154169063ffffffff600282015416611bc760016003840154930161291f565b91604051936003811015611bfd578493611bee918552608060208601526080850190610b4c565b91604084015260608301520390f35b611b61565b15611c0957565b60405162461bcd60e51b815260206004820152600e60248201526d4e6f2063726564656e7469616c7360901b6044820152606490fd5b3561140b81610244565b15611c5057565b60405162461bcd60e51b815260206004820152601060248201526f24b73b30b634b2103b32b934b334b2b960811b6044820152606490fd5b903590601e198136030182121561025557018035906001600160401b03821161025557602001918160051b3603831361025557565b15611cc457565b60405162461bcd60e51b815260206004820152601060248201526f546f6f206d616e79206973737565727360801b6044820152606490fd5b6007111561025557565b60071115611bfd57565b6001600160401b0381160361025557565b35906113a982611d10565b91818152602080910192915f915b818310611d48575050505090565b909192938435815281850135611d5d81610244565b6001600160a01b03168183015260408581013590611d7a8261097a565b60ff8092169083015260609081870135611d938161097a565b169082015260809081860135611da881611cfc565b6007811015611bfd57600192820152611dda60a08088013590611dca82611d10565b8301906001600160401b03169052565b60c0809101950193019190611d3a565b9035601e19823603018112156102555701602081359101916001600160401b038211610255578160051b3603831361025557565b9190808252602080920192915f5b828110611e3a575050505090565b9091929382806001928735611e4e81610244565b848060a01b03168152019501910192919092611e2c565b602081528135611e7481610244565b6001600160a01b031660208281019190915282013536839003601e1901811215610255578201602081359101906001600160401b0381116102555760c081023603821361025557611ef6611ed760c09360a09385604088015260e0870191611d2c565b611ee46040870187611dea565b868303601f1901606088015290611e1e565b93611f16611f0660608301611d21565b6001600160401b03166080860152565b611f34611f2560808301611d21565b6001600160401b031685840152565b013591015290565b15611f4357565b60405162461bcd60e51b8152602060048201526011602482015270496e76616c69642070736575646f6e796d60781b6044820152606490fd5b903590601e198136030182121561025557018035906001600160401b038211610255576020019160c082023603831361025557565b6001600160401b0381116113055760051b60200190565b9291611fd382611fb1565b91611fe1604051938461131d565b829481845260208094019160051b810192831161025557905b8282106120075750505050565b838091833561201581610244565b815201910190611ffa565b634e487b7160e01b5f52603260045260245ffd5b8054821015612049575f5260205f2001905f90565b612020565b8054600160401b8110156113055761206b91600182018155612034565b819291549060031b91821b915f19901b1916179055565b91602061140b938181520191611d2c565b335f525f6020526120a960405f20541515611c02565b60405190602082018281106001600160401b03821117611305576121046120de61214a94610354936040525f815286856130cf565b946120e886613213565b506120f33387613c5f565b604051928391602083019586612082565b5190209161211061139c565b9083825260208201525f60408201525f60608201524260808201526121453360018060a01b03165f52600460205260405f2090565b612186565b80337f20144c49a2c7ab2e6af0caa19354db0e1e7142bd493b78aa92333998b7ed4e575f80a390565b634e487b7160e01b5f525f60045260245ffd5b90608060039180518455602081015160018501556121d8600285016121bd60408401511515829060ff801983541691151516179055565b6060830151815461ff00191690151560081b61ff0016179055565b0151910155565b156121e657565b60405162461bcd60e51b815260206004820152601060248201526f2ab73a393ab9ba32b21034b9b9bab2b960811b6044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b5f19810191908211610c3157565b600d5481101561204957600d5f5260021b7fd7b6990105719101dabeb77144f2a3385c8033acd3af97e9423a695e81ad1eb501905f90565b1561227f57565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c696420736368656d6160901b6044820152606490fd5b156122bc57565b60405162461bcd60e51b815260206004820152601060248201526f151e5c19481b9bdd08185b1b1bddd95960821b6044820152606490fd5b156122fb57565b60405162461bcd60e51b8152602060048201526014602482015273546f6f206d616e792063726564656e7469616c7360601b6044820152606490fd5b5f198114610c315760010190565b8054821015612049575f5260205f209060031b01905f90565b8054600160401b8110156113055761237b91600182018155612345565b6123f4578151815560208201516113a9926007916123e19160e0916123a8906001600160a01b031661045d565b60408101516002860155606081015160038601556080810151600486015560a0810151600586015560c081015160068601550151151590565b91019060ff801983541691151516179055565b612173565b1561240057565b60405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606490fd5b1561243857565b60405162461bcd60e51b815260206004820152600e60248201526d24b73b30b634b21034b9b9bab2b960911b6044820152606490fd5b906003811015611bfd5760ff80198354169116179055565b90600182811c921680156124b4575b60208310146124a057565b634e487b7160e01b5f52602260045260245ffd5b91607f1691612495565b601f82116124cb57505050565b5f5260205f20906020601f840160051c83019310612503575b601f0160051c01905b8181106124f8575050565b5f81556001016124ed565b90915081906124e4565b9080516003811015611bfd57612523908361246e565b6001808301906020808401518051926001600160401b038411611305576125548461254e8754612486565b876124be565b602092601f85116001146125c757505082600395936060959361258c935f926125bc575b50508160011b915f199060031b1c19161790565b90555b6121d86125a3604083015163ffffffff1690565b600286019063ffffffff1663ffffffff19825416179055565b015190505f80612578565b929190601f198516906125dd875f5260205f2090565b945f915b8383106126235750505092600192859260039896606098961061260c575b505050811b01905561258f565b01515f1983891b60f8161c191690555f80806125ff565b8486015187559586019594810194918101916125e1565b908060209392818452848401375f828201840152601f01601f1916010190565b9161267860209263ffffffff9296959660408652604086019161263a565b9416910152565b1561268657565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c69642063726564656e7469616c20747970650000000000000000006044820152606490fd5b91908201809211610c3157565b156126df57565b60405162461bcd60e51b8152602060048201526013602482015272125b9d985b1a59081cd8dbdc9948199a595b19606a1b6044820152606490fd5b1561272157565b60405162461bcd60e51b815260206004820152600d60248201526c536368656d612065786973747360981b6044820152606490fd5b90600d5491600160401b8310156113055761277960019360018101600d55612240565b9190916123f4578051938451906001600160401b038211611305576127a8826127a28654612486565b866124be565b60208091601f841160011461287b5750506003926127e6836123e19460a0946113a9999a5f926125bc5750508160011b915f199060031b1c19161790565b85555b61286a6001860161281a612804602085015163ffffffff1690565b825463ffffffff191663ffffffff909116178255565b61284761282b604085015160ff1690565b825464ff00000000191660209190911b64ff0000000016178255565b6060830151815465ff0000000000191660289190911b65ff000000000016179055565b608081015160028601550151151590565b96601f92919219841697612892875f5260205f2090565b935f915b8a83106128de575050508360a093600396936001936123e1976113a99b9c106128c7575b505050811b0185556127e9565b01515f1983891b60f8161c191690555f80806128ba565b838501518655948501949381019391810191612896565b9061291463ffffffff916040949796959760608552606085019161263a565b951660208201520152565b9060405191825f825461293181612486565b908184526020946001916001811690815f1461299d575060011461295f575b5050506113a99250038361131d565b5f90815285812095935091905b8183106129855750506113a993508201015f8080612950565b8554888401850152948501948794509183019161296c565b925050506113a994925060ff191682840152151560051b8201015f8080612950565b156129c657565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b15612a0557565b60405162461bcd60e51b8152602060048201526008602482015267273790383937b7b360c11b6044820152606490fd5b60405190604082018281106001600160401b03821117611305576040526001825260203681840137565b8051156120495760200190565b80518210156120495760209160051b010190565b60405190612a8d826112ea565b5f6080838281528260208201528260408201528260608201520152565b90604051612ab7816112ea565b8254815260018301546001600160a01b0316602082015260028301546040820152600383015460608201526004909201546080830152565b15612af657565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a590818dc9959195b9d1a585b60721b6044820152606490fd5b15612b3757565b60405162461bcd60e51b815260206004820152600a6024820152692737ba1034b9b9bab2b960b11b6044820152606490fd5b15612b7057565b60405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481c995d9bdad959608a1b6044820152606490fd5b8015610c31575f190190565b90604051906020820192308452466040840152606083015260018060a01b0316608082015260808152612be5816112ea565b51902060405160208101917f19457468657265756d205369676e6564204d6573736167653a0a3332000000008352603c820152603c8152606081018181106001600160401b038211176113055760405251902090565b15612c4257565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b5f818152600560205260409020919291612cab906001600160a01b0390541692612ca4841515612c3b565b848361329f565b5f612cf3612cc1835f52600660205260405f2090565b5492612cd5815f52600560205260405f2090565b6001600160601b0360a01b81541690555f52600660205260405f2090565b556001600160a01b0382165f90815260046020526040902090600182015403612d9157612d8c60ff82612d70602060027fd0cb073b4b64c470bc6e4f3b63abd36ccecd0156a75da6a19d0b6b309c800139960197612d5889600160ff19825416179055565b0151875461ff00191690151560081b61ff0016178755565b54945460081c1660405191829182919091602081019215159052565b0390a3565b505050565b5f818152600260205260409020546001600160a01b031692612dc490612dbd851515612c3b565b838361329f565b5f612e0c612dda835f52600360205260405f2090565b5492612dee815f52600260205260405f2090565b6001600160601b0360a01b81541690555f52600360205260405f2090565b556001600160a01b0383165f9081526001602052604090205403612ec45763ffffffff6020612e9e92612e626001612e548760018060a01b03165f52600160205260405f2090565b01805460ff19166001179055565b0151166001612e818460018060a01b03165f52600160205260405f2090565b019064ffffffff0082549160081b169064ffffffff001916179055565b7f726990b9d6454feb3222c6703d8df3b3bc55f339792274eb1fbf0a7b441b79515f80a2565b5050565b63ffffffff809116908114610c315760010190565b15612ee457565b60405162461bcd60e51b815260206004820152601760248201527f4e6f20656c696769626c652063726564656e7469616c730000000000000000006044820152606490fd5b906060600291805184556121d860018501612f5660208401511515829060ff801983541691151516179055565b6040830151815464ffffffff00191660089190911b64ffffffff0016179055565b6001600160a01b03165f908152600b602052604090205460ff166003811015611bfd5760011490565b6040513d5f823e3d90fd5b91906041820361303b578160201161025557816040116102555760208101359160401015612049577f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0821161303b57604080519384528181013560f81c60208086019190915291359084015260608301919091525f808052909160809060015afa15613036575f5190565b612fa0565b5050505f90565b1561304957565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c696420706f6c69637960901b6044820152606490fd5b91908110156120495760c0020190565b1561309657565b60405162461bcd60e51b8152602060048201526011602482015270506f6c69637920746f6f20636f73746c7960781b6044820152606490fd5b919080151580613208575b6130e690939293613042565b335f9081526020819052604090206130fc613e17565b925f915f905b848210613113575050505050905090565b61312661312183878661307f565b61374d565b61312e613e6a565b945f5b82548110156131ee5761315a8961314986858961307f565b6131538487612345565b50906137ef565b613167575b600101613131565b95946131e661318b60019261318561318088878b61307f565b6138c6565b906126cb565b96613199604089111561308f565b6131e06131bb60056131ab8c89612345565b50015463ffffffff421690613946565b6131da6131c989888c61307f565b6131d38d8a612345565b509061395c565b90613b57565b90613bdb565b96905061315f565b50946131ff90600192939897613b57565b95960190613102565b5060088111156130da565b61140b3082613c5f565b6001600160a01b03165f818152600b602052604090205460ff166003811015611bfd57156132485750565b600c54600160401b811015611305576001810180600c5581101561204957600c5f527fdf6966c971051c3d54ec59162606531493a51404a002842f56009d7e5cf4a8c70180546001600160a01b0319169091179055565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561337157845f5260205260405f206040519182602083549182815201925f5260205f20915f905b82821061335a5750505050918161331961331e959361102095038261131d565b61439f565b613348577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906132f9565b60405163d66ca67560e01b8152600490fd5b6001600160401b039081165f190191908211610c3157565b909160ff82931691826133e2575b506133ba60ff6040921680936126cb565b106133c3575090565b906133dc6001600160401b03600161140b941b16613383565b90614468565b8291935080156134a0575b5f805160206149818339815191525461344d9260209290916134199061055d906001600160a01b031681565b905f6040518096819582946348fcc7ff60e11b8452600484019092916060820193825260208201526040600160f81b910152565b03925af180156130365760ff6133ba916040935f91613471575b50949250506133a9565b613493915060203d602011613499575b61348b818361131d565b810190613cc6565b5f613467565b503d613481565b50602061344d916134af613dc4565b915091506133ed565b60205f91604460018060a01b035f8051602061498183398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af1908115613036575f91613507575090565b61140b915060203d6020116134995761348b818361131d565b63ffffffff91602091801561358c575b5f8051602061498183398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b506064613597613cd5565b9050613530565b9061140b9181156135b6575b63ffffffff16906144e9565b905063ffffffff6135c5613cd5565b9190506135aa565b908115613641575b801561362f575b602090606460018060a01b035f805160206149818339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115613036575f91613507575090565b50602061363a613cd5565b90506135dc565b905061364b613cd5565b906135d5565b61140b918115613668575b63ffffffff169061459a565b905063ffffffff613677613cd5565b91905061365c565b63ffffffff9160209180156136eb575b5f8051602061498183398151915254604051635a53accb60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b5060646136f6613cd5565b905061368f565b3561140b8161097a565b1561370e57565b60405162461bcd60e51b815260206004820152600d60248201526c125b9d985b1a5908199a595b19609a1b6044820152606490fd5b3561140b81611cfc565b613762813580151590816137e2575b50612278565b60ff60408201356137728161097a565b16906060810135906137838261097a565b60ff821690818401809411610c315760806006916137a760406113a9971115613707565b01356137b281611cfc565b6137bb81611d06565b14918215926137cc575b5050613707565b600692506137d99061097a565b11155f806137c5565b9050600d5410155f61375c565b9160028201548335149283613868575b5082613846575b508161382d575b81613816575090565b6001015461140b91506001600160a01b0316612f77565b9050613840611020600783015460ff1690565b9061380d565b6001820154919250613861916001600160a01b0316906145f9565b905f613806565b9092506001600160a01b03906020018161388182611c3f565b1615918215613894575b5050915f6137ff565b60018401546001600160a01b03169250906138b29061055d90611c3f565b9116145f8061388b565b3561140b81611d10565b905f91600660808201356138d981611cfc565b6138e281611d06565b1480159061392e575b6139275760a001356138fc81611d10565b6001600160401b03811661390d5750565b9161391790612337565b9161392181613383565b166138fc565b5060019150565b5060ff606082013561393f8161097a565b16156138eb565b61140b9181156135b65763ffffffff16906144e9565b90606082019060ff61396d836136fd565b1615613b4c57600461399991015460409261399361398d604087016136fd565b916136fd565b9161339b565b60808301916139a783613743565b6139b081611d06565b15613b34576139be83613743565b926139c884611d06565b6001809414613b1b5760026139dc82613743565b6139e581611d06565b14613b025760036139f582613743565b6139fe81611d06565b14613ae9576004613a0e82613743565b613a1781611d06565b14613ad057613a27600591613743565b613a3081611d06565b14613ab8579082939291613a42613e6a565b935f955b613a54575b50505050905090565b6001600160401b0380871683811015613ab15785613a7460a085016138bc565b911b1616613a90575b9483016001600160401b03169483613a46565b6001600160401b0384613aa881976131e08a88614640565b96505050613a7d565b5050613a4b565b509050613aca60a061140b93016138bc565b9061482b565b50509050613ae360a061140b93016138bc565b906147aa565b50509050613afc60a061140b93016138bc565b90614729565b50509050613b1560a061140b93016138bc565b906146f5565b50509050613b2e60a061140b93016138bc565b90614674565b509050613b4660a061140b93016138bc565b90614640565b50505061140b613e17565b908115613bcb575b8015613bb9575b602090606460018060a01b035f805160206149818339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115613036575f91613507575090565b506020613bc4613e6a565b9050613b66565b9050613bd5613e6a565b90613b5f565b908115613c4f575b8015613c3d575b602090606460018060a01b035f805160206149818339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af1908115613036575f91613507575090565b506020613c48613e6a565b9050613bea565b9050613c59613e6a565b90613be3565b5f805160206149a1833981519152546001600160a01b031691823b1561025557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561303657613cbd5750565b6113a99061130a565b90816020910312610255575190565b5f8051602061498183398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115613036575f91613507575090565b5f602060018060a01b035f805160206149818339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af1908115613036575f91613507575090565b60205f91604460018060a01b035f805160206149818339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115613036575f91613507575090565b5f8051602061498183398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115613036575f91613507575090565b5f8051602061498183398151915254604051639cd07acb60e01b8152600160048201525f602482018190529091602091839160449183916001600160a01b03165af1908115613036575f91613507575090565b5f602060018060a01b035f805160206149818339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115613036575f91613507575090565b9392613ee290600593606093875260018060a01b03166020870152608060408701526080860190610b4c565b930152565b9392613ee290600493606093875260018060a01b03166020870152608060408701526080860190610b4c565b5f8051602061498183398151915254613f6093926020929091613f409061055d906001600160a01b031681565b905f60405180978195829463196d0b9b60e01b8452339060048501613eb6565b03925af1918215613036575f92613fe7575b505f805160206149a1833981519152548290613f989061055d906001600160a01b031681565b803b1561025557604051630f8e573b60e21b815260048101929092523360248301525f908290604490829084905af1801561303657613fd45750565b80613fe16113a99261130a565b80610c7c565b61400191925060203d6020116134995761348b818361131d565b905f613f72565b5f8051602061498183398151915254613f60939260209290916140359061055d906001600160a01b031681565b905f60405180978195829463196d0b9b60e01b8452339060048501613ee7565b9081518082526020808093019301915f5b828110614074575050505090565b835185529381019392810192600101614066565b90602061140b928181520190614055565b92916140b2918452606060208501526060840190614055565b91604063bfccdd4360e01b910152565b92916140db918452606060208501526060840190614055565b9160406359adb14b60e11b910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f805160206149a18339815191525490939291906141369061055d906001600160a01b031681565b803b15610255575f6040518092637d6e912360e11b825281838161415d8960048301614088565b03925af180156130365761422b575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546141a39061055d906001600160a01b031681565b90813b15610255575f6040518093633263b83b60e01b82528183816141cc898c60048401614099565b03925af18015613036576113a9936141f4936141ee92614218575b50866148ac565b54612337565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b80613fe16142259261130a565b5f6141e7565b80613fe16142389261130a565b5f61416c565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f805160206149a18339815191525490939291906142899061055d906001600160a01b031681565b803b15610255575f6040518092637d6e912360e11b82528183816142b08960048301614088565b03925af180156130365761431f575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546142f69061055d906001600160a01b031681565b90813b15610255575f6040518093633263b83b60e01b82528183816141cc898c600484016140c2565b80613fe161432c9261130a565b5f6142bf565b6020929190614348849282815194859201610b2b565b019081520190565b90816020910312610255575180151581036102555790565b916143919061438361140b9593606086526060860190614055565b908482036020860152610b4c565b916040818403910152610b4c565b919080519160209383850193848611610c3157604001809411610c315761442c936143d68694610354604051938492888401614332565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f9061440e9061055d906001600160a01b031681565b92604051968795869485936378542ead60e01b855260048501614368565b03925af1918215613036575f9261444257505090565b61140b9250803d10614461575b614459818361131d565b810190614350565b503d61444f565b6001600160401b039160209180156144d7575b5f805160206149818339815191525460405163d99882d560e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b5060646144e2613dc4565b905061447b565b5f80516020614981833981519152546040516385362ee760e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b9060646020925f60018060a01b035f8051602061498183398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115613036575f91613507575090565b5f805160206149818339815191525460405163f77f3f1d60e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b90815115614639575f5b825181101561303b576001600160a01b038061461f8386612a6c565b51169083161461463157600101614603565b505050600190565b5050600190565b61140b91811561465a575b6001600160401b03169061459a565b90506001600160401b0361466c613dc4565b91905061464b565b6001600160401b039160209180156146e3575b5f80516020614981833981519152546040516336024b2f60e21b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b5060646146ee613dc4565b9050614687565b61140b91811561470f575b6001600160401b0316906144e9565b90506001600160401b03614721613dc4565b919050614700565b6001600160401b03916020918015614798575b5f8051602061498183398151915254604051631391547f60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b5060646147a3613dc4565b905061473c565b6001600160401b03916020918015614819575b5f8051602061498183398151915254604051637210768160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b506064614824613dc4565b90506147bd565b6001600160401b0391602091801561489a575b5f8051602061498183398151915254604051631d44e90160e21b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115613036575f91613507575090565b5060646148a5613dc4565b905061483e565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f205461496e575f5260205260405f20908251926001600160401b03841161130557600160401b8411611305578254848455808510614948575b5060206149259101925f5260205f2090565b905f5b848110614936575050505050565b83518382015592810192600101614928565b835f528460205f2091820191015b8181106149635750614913565b5f8155600101614956565b604051633f06d22b60e01b8152600490fdfe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type VcIdFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: VcIdFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class VcIdFHE__factory extends ContractFactory {
+  constructor(...args: VcIdFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      VcIdFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): VcIdFHE__factory {
+    return super.connect(runner) as VcIdFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): VcIdFHEInterface {
+    return new Interface(_abi) as VcIdFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): VcIdFHE {
+    return new Contract(address, _abi, runner) as unknown as VcIdFHE;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { VcIdFHE } from "./contracts/VcIdFHE";
+export { VcIdFHE__factory } from "./factories/contracts/VcIdFHE__factory";
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\validator-pages-local.py
-// Generated at: 2025-10-16T08:20:11.124Z
\ No newline at end of file
@@ -0,0 +1,517 @@
+// vcid.ts
+import {
+  CredentialSchemaDefinition,
+  decodeAttributes,
+  DEFAULT_SCHEMAS,
+  encodeAttributes,
+  FieldValue,
+  isFresh,
+  ProofRequest,
+  schemaHash
+} from "@vcid/schemas";
+import { isError } from "ethers";
+import type { CredentialInput } from "./fhevm";
+import { fetchIndexedHolderEvents, fetchIndexedIssuedCredentials, hasIndexer, IndexedList } from "./indexer";
+import type { VcIdFHE } from "./typechain";
+
+// Credential type codes; each registered schema declares the one its credentials carry
+export const CREDENTIAL_TYPE_CODES: Record<string, number> = {
+  ID: 1,
+  Degree: 2,
+  License: 3,
+  Certification: 4,
+  Membership: 5
+};
+
+export const CREDENTIAL_TYPE_LABELS: Record<string, string> = {
+  ID: "Identity Document",
+  Degree: "Educational Degree",
+  License: "Professional License",
+  Certification: "Skills Certification",
+  Membership: "Organization Membership"
+};
+
+export const credentialTypeName = (code: bigint) =>
+  Object.keys(CREDENTIAL_TYPE_CODES).find(name => BigInt(CREDENTIAL_TYPE_CODES[name]) === code) ?? `Type ${code}`;
+
+/** Credential type names set in an issuer registry bitmask (bit n allows type code n) */
+export const credentialTypesFromMask = (mask: number) =>
+  Object.keys(CREDENTIAL_TYPE_CODES).filter(name => (mask >>> CREDENTIAL_TYPE_CODES[name]) & 1);
+
+export interface RegisteredSchema {
+  id: number;
+  name: string;
+  credentialType: number;
+  active: boolean;
+  definitionHash: string;
+  // The bundled definition with the same hash; without one the credential cannot be encoded or decoded here
+  definition?: CredentialSchemaDefinition;
+}
+
+export async function fetchSchemas(contract: VcIdFHE): Promise<RegisteredSchema[]> {
+  const count = Number(await contract.getSchemaCount());
+  const results = await Promise.all(
+    Array.from({ length: count }, (_, index) => contract.getSchema(index + 1))
+  );
+
+  return results.map((result, index) => ({
+    id: index + 1,
+    name: result.name,
+    credentialType: Number(result.credentialType),
+    active: result.active,
+    definitionHash: result.definitionHash,
+    definition: DEFAULT_SCHEMAS.find(schema => schemaHash(schema) === result.definitionHash)
+  }));
+}
+
+/** Active schemas with a bundled definition for the given credential type names */
+export const issuableSchemas = (schemas: RegisteredSchema[], typeNames: string[]) =>
+  schemas.filter(schema =>
+    schema.active && schema.definition && typeNames.includes(credentialTypeName(BigInt(schema.credentialType)))
+  );
+
+/** Decrypted attributes as "Label: value" pairs, or the raw value when the schema is unknown */
+export function describeAttributes(schema: RegisteredSchema | undefined, attributes: bigint): string {
+  if (!schema?.definition) {
+    return `Value ${attributes}`;
+  }
+  const values = decodeAttributes(schema.definition, attributes);
+  return schema.definition.fields
+    .map(field => `${field.label}: ${values[field.name] === true ? "yes" : values[field.name] === false ? "no" : values[field.name]}`)
+    .join(" · ");
+}
+
+/** Raw values of the credential form, as entered */
+export interface CredentialFormData {
+  schemaId: string;
+  fields: Record<string, FieldValue>;
+  expiryDate: string;
+}
+
+/** Validates the credential form and packs its fields with the selected schema. */
+export function toCredentialInput(form: CredentialFormData, schemas: RegisteredSchema[]): CredentialInput {
+  if (!form.schemaId || !form.expiryDate) {
+    throw new Error("Please fill required fields");
+  }
+
+  const schema = schemas.find(s => String(s.id) === form.schemaId);
+  if (!schema?.definition) {
+    throw new Error(`Unknown credential schema #${form.schemaId}`);
+  }
+
+  // Unticked checkboxes leave boolean fields unset
+  const defaults = Object.fromEntries(
+    schema.definition.fields.filter(field => field.encoding.kind === "bool").map(field => [field.name, false])
+  );
+  const attributes = encodeAttributes(schema.definition, { ...defaults, ...form.fields });
+
+  const expiry = Math.floor(new Date(form.expiryDate).getTime() / 1000);
+  if (!Number.isFinite(expiry) || expiry <= 0 || expiry > 0xffffffff) {
+    throw new Error("Invalid expiry date");
+  }
+
+  return { schemaId: schema.id, attributes, expiry };
+}
+
+export interface CredentialHandles {
+  credentialType: string;
+  attributes: string;
+  expiry: string;
+}
+
+export interface CredentialRecord {
+  id: number;
+  holder: string;
+  issuer: string;
+  schemaId: number;
+  timestamp: number;
+  revoked: boolean;
+  handles: CredentialHandles;
+}
+
+export interface ProofState {
+  exists: boolean;
+  isRevealed: boolean;
+  revealedScore: number;
+  timestamp: number;
+  scoreHandle: string;
+}
+
+export async function fetchCredentials(contract: VcIdFHE, holder: string): Promise<CredentialRecord[]> {
+  const count = Number(await contract.getCredentialCount(holder));
+  const results = await Promise.all(
+    Array.from({ length: count }, (_, index) => contract.getCredential(holder, index))
+  );
+
+  return results.map((result, index) => ({
+    id: index,
+    holder,
+    issuer: result.issuer,
+    schemaId: Number(result.schemaId),
+    timestamp: Number(result.timestamp),
+    revoked: result.revoked,
+    handles: {
+      credentialType: result.credentialType,
+      attributes: result.attributes,
+      expiry: result.expiry
+    }
+  }));
+}
+
+export async function fetchProofState(contract: VcIdFHE, holder: string): Promise<ProofState> {
+  const [exists, proof] = await Promise.all([
+    contract.hasProof(holder),
+    contract.getProof(holder)
+  ]);
+
+  return {
+    exists,
+    isRevealed: proof.isRevealed,
+    revealedScore: Number(proof.revealedScore),
+    timestamp: Number(proof.timestamp),
+    scoreHandle: proof.encryptedCompositeScore
+  };
+}
+
+export interface PolicyProofState {
+  exists: boolean;
+  policyHash: string;
+  resultHandle: string;
+  isRevealed: boolean;
+  revealedResult: boolean;
+  timestamp: number;
+}
+
+export async function fetchPolicyProof(contract: VcIdFHE, holder: string): Promise<PolicyProofState> {
+  const [exists, proof] = await Promise.all([
+    contract.hasPolicyProof(holder),
+    contract.getPolicyProof(holder)
+  ]);
+
+  return {
+    exists,
+    policyHash: proof.policyHash,
+    resultHandle: proof.encryptedResult,
+    isRevealed: proof.isRevealed,
+    revealedResult: proof.revealedResult,
+    timestamp: Number(proof.timestamp)
+  };
+}
+
+export type IssuerStatus = "unknown" | "allowed" | "denied";
+
+export interface IssuerInfo {
+  address: string;
+  status: IssuerStatus;
+  displayName: string;
+  allowedCredentialTypes: number;
+}
+
+// Order of the VcIdFHE.IssuerStatus enum
+const ISSUER_STATUSES: IssuerStatus[] = ["unknown", "allowed", "denied"];
+
+export async function fetchIssuer(contract: VcIdFHE, issuer: string): Promise<IssuerInfo> {
+  const info = await contract.getIssuer(issuer);
+  return {
+    address: issuer,
+    status: ISSUER_STATUSES[Number(info.status)] ?? "unknown",
+    displayName: info.displayName,
+    allowedCredentialTypes: Number(info.allowedCredentialTypes)
+  };
+}
+
+/** Registry entries for each distinct issuer, keyed by lowercase address */
+export async function fetchIssuers(contract: VcIdFHE, issuers: string[]): Promise<Record<string, IssuerInfo>> {
+  const unique = [...new Set(issuers.map(issuer => issuer.toLowerCase()))];
+  const infos = await Promise.all(unique.map(issuer => fetchIssuer(contract, issuer)));
+  return Object.fromEntries(infos.map(info => [info.address, info]));
+}
+
+/** Every issuer the registry currently allows. */
+export async function fetchTrustedIssuers(contract: VcIdFHE): Promise<IssuerInfo[]> {
+  const issuers = await fetchIssuers(contract, await contract.getIssuers());
+  return Object.values(issuers).filter(issuer => issuer.status === "allowed");
+}
+
+export interface IssuedCredential {
+  id: number;
+  holder: string;
+  issuer: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+  revoked: boolean;
+}
+
+/**
+ * An indexed list and the block to continue from on the chain, null when the indexer is already at
+ * the head. Without an indexer, or when it is unreachable, everything from `fromBlock` is read from
+ * the chain.
+ */
+async function readIndexer<T>(
+  contract: VcIdFHE,
+  fromBlock: number,
+  query: () => Promise<IndexedList<T>>
+): Promise<{ items: T[]; fromBlock: number | null }> {
+  if (!hasIndexer()) return { items: [], fromBlock };
+  try {
+    const { checkpoint, items } = await query();
+    if (checkpoint === null) return { items, fromBlock };
+    const head = await providerOf(contract).getBlockNumber();
+    return { items, fromBlock: checkpoint >= head ? null : Math.max(fromBlock, checkpoint + 1) };
+  } catch (e) {
+    console.warn("Indexer unavailable, reading events from the chain:", e);
+    return { items: [], fromBlock };
+  }
+}
+
+function providerOf(contract: VcIdFHE) {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("The contract is not connected to a provider");
+  return provider;
+}
+
+const credentialKey = (holder: string, id: bigint | number) => `${holder.toLowerCase()}:${id}`;
+
+/**
+ * Credentials issued by `issuer`, newest first, optionally only those issued at or after `since`
+ * (unix seconds). Reconstructed from CredentialAdded and CredentialRevoked events, or taken from
+ * the indexer and topped up with the events after its checkpoint.
+ */
+export async function fetchIssuedCredentials(
+  contract: VcIdFHE,
+  issuer: string,
+  fromBlock = 0,
+  since?: number
+): Promise<IssuedCredential[]> {
+  const indexed = await readIndexer(contract, fromBlock, () =>
+    fetchIndexedIssuedCredentials(issuer, { from: since })
+  );
+  const [events, revocations] =
+    indexed.fromBlock === null
+      ? [[], []]
+      : await Promise.all([
+          contract.queryFilter(contract.filters.CredentialAdded(undefined, issuer), indexed.fromBlock),
+          contract.queryFilter(contract.filters.CredentialRevoked(undefined, issuer), indexed.fromBlock)
+        ]);
+  const revoked = new Set(revocations.map(event => credentialKey(event.args.user, event.args.credentialId)));
+
+  const blockNumbers = [...new Set(events.map(event => event.blockNumber))];
+  const blocks = await Promise.all(blockNumbers.map(n => providerOf(contract).getBlock(n)));
+  const timestamps = new Map(blocks.map((block, i) => [blockNumbers[i], block ? block.timestamp : 0]));
+
+  const fromIndexer = indexed.items.map(item => ({
+    id: item.credentialId,
+    holder: item.holder,
+    issuer: item.issuer,
+    blockNumber: item.blockNumber,
+    transactionHash: item.transactionHash,
+    timestamp: item.issuedAt,
+    revoked: item.revokedAt !== null
+  }));
+  const fromChain = events.map(event => ({
+    id: Number(event.args.credentialId),
+    holder: event.args.user,
+    issuer: event.args.issuer,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    timestamp: timestamps.get(event.blockNumber) ?? 0,
+    revoked: false
+  }));
+
+  return [...fromIndexer, ...fromChain]
+    .map(item => (revoked.has(credentialKey(item.holder, item.id)) ? { ...item, revoked: true } : item))
+    .filter(item => since === undefined || item.timestamp >= since)
+    .sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+export type ProofEventName =
+  | "ProofGenerated"
+  | "ProofRevealed"
+  | "PolicyProofGenerated"
+  | "PolicyProofRevealed";
+
+export interface ProofEvent {
+  name: ProofEventName;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+const PROOF_EVENT_NAMES: ProofEventName[] = [
+  "ProofGenerated",
+  "ProofRevealed",
+  "PolicyProofGenerated",
+  "PolicyProofRevealed"
+];
+
+function proofEventFilter(contract: VcIdFHE, name: ProofEventName, holder: string) {
+  switch (name) {
+    case "ProofGenerated":
+      return contract.filters.ProofGenerated(holder);
+    case "ProofRevealed":
+      return contract.filters.ProofRevealed(holder);
+    case "PolicyProofGenerated":
+      return contract.filters.PolicyProofGenerated(holder);
+    case "PolicyProofRevealed":
+      return contract.filters.PolicyProofRevealed(holder);
+  }
+}
+
+/** `holder`'s proof events, oldest first. */
+export async function fetchProofEvents(contract: VcIdFHE, holder: string, fromBlock = 0): Promise<ProofEvent[]> {
+  const indexed = await readIndexer(contract, fromBlock, () => fetchIndexedHolderEvents(holder, PROOF_EVENT_NAMES));
+  const chainFrom = indexed.fromBlock;
+  const logs =
+    chainFrom === null
+      ? []
+      : await Promise.all(
+          PROOF_EVENT_NAMES.map(async name => {
+            const events = await contract.queryFilter(proofEventFilter(contract, name, holder), chainFrom);
+            return events.map(event => ({
+              name,
+              blockNumber: event.blockNumber,
+              transactionHash: event.transactionHash
+            }));
+          })
+        );
+
+  const fromIndexer = indexed.items.map(item => ({
+    name: item.name as ProofEventName,
+    blockNumber: item.blockNumber,
+    transactionHash: item.transactionHash
+  }));
+  return [...fromIndexer, ...logs.flat()].sort((a, b) => a.blockNumber - b.blockNumber);
+}
+
+/**
+ * Polls until `name` is emitted for `holder` at or after `fromBlock`.
+ * The decryption oracle calls back in a later transaction, typically within a few blocks.
+ */
+export async function waitForProofEvent(
+  contract: VcIdFHE,
+  name: ProofEventName,
+  holder: string,
+  fromBlock: number,
+  intervalMs = 5_000,
+  timeoutMs = 10 * 60_000
+): Promise<ProofEvent> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const events = await contract.queryFilter(proofEventFilter(contract, name, holder), fromBlock);
+    if (events.length > 0) {
+      const event = events[events.length - 1];
+      return { name, blockNumber: event.blockNumber, transactionHash: event.transactionHash };
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error(`Timed out waiting for ${name}`);
+}
+
+/** An answer to one proof request under a holder pseudonym; only the verifier can decrypt `resultHandle` */
+export interface VerifierProof {
+  requestId: string;
+  verifier: string;
+  policyHash: string;
+  resultHandle: string;
+  timestamp: number;
+}
+
+const toVerifierProof = (proof: VcIdFHE.VerifierProofStructOutput): VerifierProof => ({
+  requestId: proof.requestId,
+  verifier: proof.verifier,
+  policyHash: proof.policyHash,
+  resultHandle: proof.encryptedResult,
+  timestamp: Number(proof.timestamp)
+});
+
+/** Every answer given under `pseudonym` to proof requests of `verifier`, oldest first. */
+export async function getProofsFor(contract: VcIdFHE, pseudonym: string, verifier: string): Promise<VerifierProof[]> {
+  const proofs = await contract.getProofsFor(pseudonym, verifier);
+  return proofs.map(toVerifierProof);
+}
+
+/** The answer under `pseudonym` to `requestId` of `verifier`, or null when none is recorded. */
+export async function getVerifierProof(
+  contract: VcIdFHE,
+  pseudonym: string,
+  verifier: string,
+  requestId: string
+): Promise<VerifierProof | null> {
+  try {
+    return toVerifierProof(await contract.getVerifierProof(pseudonym, verifier, requestId));
+  } catch (e) {
+    if (isError(e, "CALL_EXCEPTION") && e.reason === "No proof") return null;
+    throw e;
+  }
+}
+
+export interface RequestResponse {
+  pseudonym: string;
+  blockNumber: number;
+  transactionHash: string;
+  proof: VerifierProof;
+}
+
+/** Pseudonyms that answered `requestId` of `verifier`, newest first, with each one's current answer. */
+export async function fetchRequestResponses(
+  contract: VcIdFHE,
+  requestId: string,
+  verifier: string,
+  fromBlock = 0
+): Promise<RequestResponse[]> {
+  const events = await contract.queryFilter(
+    contract.filters.ProofRequestAnswered(requestId, undefined, verifier),
+    fromBlock
+  );
+
+  // A holder may answer more than once; each answer replaces the previous one
+  const latest = new Map<string, (typeof events)[number]>();
+  for (const event of events) {
+    latest.set(event.args.pseudonym.toLowerCase(), event);
+  }
+
+  const responses = await Promise.all(
+    [...latest.values()].map(async (event): Promise<RequestResponse | null> => {
+      const proof = await getVerifierProof(contract, event.args.pseudonym, verifier, requestId);
+      // The answer's block was reorged away, or the node serving the call lags the one serving the logs
+      if (!proof) return null;
+      return {
+        pseudonym: event.args.pseudonym,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        proof
+      };
+    })
+  );
+  return responses
+    .filter((response): response is RequestResponse => response !== null)
+    .sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+/** A freshness window in the largest whole unit, e.g. "7 days". */
+export function formatDuration(seconds: number): string {
+  const units: [number, string][] = [[86_400, "day"], [3_600, "hour"], [60, "minute"]];
+  for (const [size, unit] of units) {
+    if (seconds >= size && seconds % size === 0) {
+      const count = seconds / size;
+      return `${count} ${unit}${count === 1 ? "" : "s"}`;
+    }
+  }
+  return `${seconds} seconds`;
+}
+
+export type RequestOutcome = "encrypted" | "pass" | "fail" | "stale";
+
+/** The verifier's view of a holder's answer, given the answer it decrypted, if any. */
+export function requestOutcome(
+  request: ProofRequest,
+  proof: VerifierProof,
+  result: boolean | undefined,
+  now = Math.floor(Date.now() / 1000)
+): RequestOutcome {
+  if (!isFresh(request, proof.timestamp, now)) return "stale";
+  if (result === undefined) return "encrypted";
+  return result ? "pass" : "fail";
+}
@@ -0,0 +1,28 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Network profile to start with: localhost, sepolia or custom
+  readonly VITE_NETWORK?: string;
+  readonly VITE_LOCALHOST_RPC_URL?: string;
+  // Comma-separated; all of them form the read-only RPC pool
+  readonly VITE_SEPOLIA_RPC_URLS?: string;
+  readonly VITE_CUSTOM_NAME?: string;
+  readonly VITE_CUSTOM_RPC_URL?: string;
+  readonly VITE_CUSTOM_CHAIN_ID?: string;
+  readonly VITE_CUSTOM_CONTRACT_ADDRESS?: string;
+  readonly VITE_CUSTOM_DEPLOYMENT_BLOCK?: string;
+  readonly VITE_CUSTOM_EXPLORER_URL?: string;
+  // Event indexer API per profile, e.g. http://127.0.0.1:8787
+  readonly VITE_LOCALHOST_INDEXER_URL?: string;
+  readonly VITE_SEPOLIA_INDEXER_URL?: string;
+  readonly VITE_CUSTOM_INDEXER_URL?: string;
+  // Read-only RPC pool: per-request timeout, and matching answers needed for quorum reads
+  readonly VITE_RPC_TIMEOUT_MS?: string;
+  readonly VITE_RPC_QUORUM?: string;
+  // WalletConnect Cloud project id used by RainbowKit's WalletConnect wallets
+  readonly VITE_WALLETCONNECT_PROJECT_ID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
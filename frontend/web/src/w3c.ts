@@ -0,0 +1,385 @@
+// w3c.ts
+import { ethers } from "ethers";
+import { decodeField, encodeField, FieldValue } from "@vcid/schemas";
+import { CREDENTIAL_TYPE_CODES, CredentialFormData, CredentialRecord, RegisteredSchema } from "./vcid";
+
+const VC_CONTEXT_V1 = "https://www.w3.org/2018/credentials/v1";
+const VC_CONTEXT_V2 = "https://www.w3.org/ns/credentials/v2";
+// The type an EthereumEip712Signature2021 proof signs the credential as
+const EIP712_PRIMARY_TYPE = "VerifiableCredential";
+
+/** The subset of the W3C VC Data Model 1.1 / 2.0 used here */
+export interface W3CCredential {
+  "@context": (string | Record<string, unknown>)[];
+  id?: string;
+  type: string[];
+  issuer: string | { id: string; name?: string };
+  credentialSubject: Record<string, unknown>;
+  // Data Model 1.1
+  issuanceDate?: string;
+  expirationDate?: string;
+  // Data Model 2.0
+  validFrom?: string;
+  validUntil?: string;
+  proof?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface ParsedCredential {
+  format: "json-ld" | "jwt";
+  version: "1.1" | "2.0";
+  credential: W3CCredential;
+  // The compact JWS for JWT-VCs
+  jwt?: string;
+}
+
+// Keywords matched case-insensitively against the VC `type` entries
+const VC_TYPE_KEYWORDS: [string, string][] = [
+  ["degree", "Degree"],
+  ["diploma", "Degree"],
+  ["license", "License"],
+  ["licence", "License"],
+  ["certif", "Certification"],
+  ["member", "Membership"],
+  ["identity", "ID"],
+  ["passport", "ID"]
+];
+
+const base64UrlToBytes = (segment: string) => ethers.decodeBase64(
+  segment.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(segment.length / 4) * 4, "=")
+);
+
+const base64UrlDecode = (segment: string) => ethers.toUtf8String(base64UrlToBytes(segment));
+
+const toIsoDate = (seconds: unknown) =>
+  typeof seconds === "number" ? new Date(seconds * 1000).toISOString() : undefined;
+
+function assertCredential(value: any): asserts value is W3CCredential {
+  if (!value || typeof value !== "object") {
+    throw new Error("Credential must be a JSON object");
+  }
+  const contexts = value["@context"];
+  if (!Array.isArray(contexts) || (contexts[0] !== VC_CONTEXT_V1 && contexts[0] !== VC_CONTEXT_V2)) {
+    throw new Error("Credential @context must start with the W3C credentials context");
+  }
+  if (!Array.isArray(value.type) || !value.type.includes("VerifiableCredential")) {
+    throw new Error("Credential type must include VerifiableCredential");
+  }
+  if (!value.issuer || !value.credentialSubject || typeof value.credentialSubject !== "object") {
+    throw new Error("Credential must have an issuer and a credentialSubject");
+  }
+}
+
+const versionOf = (credential: W3CCredential): "1.1" | "2.0" =>
+  credential["@context"][0] === VC_CONTEXT_V2 ? "2.0" : "1.1";
+
+/** Converts a JWT-VC payload into a credential; 1.1 JWTs carry it in `vc`, 2.0 JWTs are the credential. */
+function credentialFromJwtPayload(payload: any): W3CCredential {
+  if (!payload.vc) {
+    assertCredential(payload);
+    return payload;
+  }
+
+  const vc = payload.vc;
+  const credential = {
+    ...vc,
+    id: vc.id ?? payload.jti,
+    issuer: vc.issuer ?? payload.iss,
+    issuanceDate: vc.issuanceDate ?? toIsoDate(payload.nbf),
+    expirationDate: vc.expirationDate ?? toIsoDate(payload.exp),
+    credentialSubject: { ...vc.credentialSubject, id: vc.credentialSubject?.id ?? payload.sub }
+  };
+  assertCredential(credential);
+  return credential;
+}
+
+/** Parses a JSON-LD credential (object or JSON text) or a compact JWT-VC. Does not verify signatures. */
+export function parseVerifiableCredential(input: string | object): ParsedCredential {
+  if (typeof input === "string") {
+    const text = input.trim();
+    if (!text.startsWith("{")) {
+      const parts = text.split(".");
+      if (parts.length !== 3) {
+        throw new Error("Expected a JSON credential or a compact JWT");
+      }
+      const credential = credentialFromJwtPayload(JSON.parse(base64UrlDecode(parts[1])));
+      return { format: "jwt", version: versionOf(credential), credential, jwt: text };
+    }
+    input = JSON.parse(text);
+  }
+
+  assertCredential(input);
+  return { format: "json-ld", version: versionOf(input), credential: input };
+}
+
+export const issuerId = (credential: W3CCredential) =>
+  typeof credential.issuer === "string" ? credential.issuer : credential.issuer.id;
+
+/**
+ * Resolves the Ethereum address behind a did:pkh:eip155, did:ethr or bare address identifier.
+ * did:ethr identifiers holding a public key resolve to that key's address.
+ */
+export function didToAddress(did: string): string {
+  const id = did.split("#")[0];
+  const last = id.split(":").pop() ?? "";
+
+  if (id.startsWith("did:pkh:eip155:") || (id.startsWith("did:ethr:") && last.length === 42)) {
+    return ethers.getAddress(last);
+  }
+  if (id.startsWith("did:ethr:") && (last.length === 68 || last.length === 132)) {
+    return ethers.computeAddress(last);
+  }
+  if (ethers.isAddress(id)) {
+    return ethers.getAddress(id);
+  }
+  throw new Error(`Unsupported issuer identifier ${did}; expected did:pkh:eip155, did:ethr or an address`);
+}
+
+export const addressToDid = (address: string, chainId: number) =>
+  `did:pkh:eip155:${chainId}:${ethers.getAddress(address)}`;
+
+/** Recovers the signer of an ES256K or ES256K-R compact JWS. */
+function recoverJwtSigner(jwt: string): string[] {
+  const [headerSegment, payloadSegment, signatureSegment] = jwt.split(".");
+  const header = JSON.parse(base64UrlDecode(headerSegment));
+  const digest = ethers.sha256(ethers.toUtf8Bytes(`${headerSegment}.${payloadSegment}`));
+  const signature = base64UrlToBytes(signatureSegment);
+
+  if (header.alg === "ES256K-R" && signature.length === 65) {
+    const v = 27 + (signature[64] % 27);
+    return [ethers.recoverAddress(digest, ethers.Signature.from({
+      r: ethers.hexlify(signature.slice(0, 32)),
+      s: ethers.hexlify(signature.slice(32, 64)),
+      v
+    }))];
+  }
+  if (header.alg === "ES256K" && signature.length === 64) {
+    // Without a recovery id either key may have produced the signature
+    return [27, 28].map(v => ethers.recoverAddress(digest, ethers.Signature.from({
+      r: ethers.hexlify(signature.slice(0, 32)),
+      s: ethers.hexlify(signature.slice(32, 64)),
+      v
+    })));
+  }
+  throw new Error(`Unsupported JWT algorithm ${header.alg}; expected ES256K or ES256K-R`);
+}
+
+interface Eip712Proof {
+  type: "EthereumEip712Signature2021";
+  proofValue: string;
+  eip712: {
+    domain: ethers.TypedDataDomain;
+    types: Record<string, ethers.TypedDataField[]>;
+    primaryType: string;
+  };
+}
+
+function assertEip712Proof(proof: any): asserts proof is Eip712Proof {
+  if (!proof || proof.type !== "EthereumEip712Signature2021") {
+    throw new Error("JSON-LD credentials must carry an EthereumEip712Signature2021 proof");
+  }
+  const eip712 = proof.eip712;
+  if (!eip712?.domain || !eip712?.types || typeof proof.proofValue !== "string") {
+    throw new Error("EIP-712 proof is missing its domain, types or proofValue");
+  }
+  if (eip712.primaryType !== EIP712_PRIMARY_TYPE) {
+    throw new Error(`EIP-712 proof must sign a ${EIP712_PRIMARY_TYPE}, not ${eip712.primaryType}`);
+  }
+}
+
+/**
+ * Verifies an EthereumEip712Signature2021 proof. The proof carries its own EIP-712
+ * domain and types and signs the credential without its `proof` member.
+ */
+function recoverEip712Signer(credential: W3CCredential): string {
+  const proof = credential.proof;
+  assertEip712Proof(proof);
+
+  const { proof: _proof, ...document } = credential;
+  const { EIP712Domain: _domain, ...types } = proof.eip712.types;
+  // ethers signs the one type no other type references; it has to be the declared one
+  if (ethers.TypedDataEncoder.getPrimaryType(types) !== EIP712_PRIMARY_TYPE) {
+    throw new Error(`EIP-712 types must have ${EIP712_PRIMARY_TYPE} as their only root type`);
+  }
+  return ethers.verifyTypedData(proof.eip712.domain, types, document, proof.proofValue);
+}
+
+/**
+ * Whether the member at `path` from the credential root is part of the signed EIP-712 message.
+ * The typed data only encodes the members its types declare, so the rest of the document is unsigned.
+ */
+function isSignedPath(credential: W3CCredential, path: string[]): boolean {
+  const proof = credential.proof;
+  assertEip712Proof(proof);
+
+  let type = EIP712_PRIMARY_TYPE;
+  for (const key of path) {
+    const array = type.match(/^(.*)\[\d*\]$/);
+    if (array) {
+      if (!/^\d+$/.test(key)) return false;
+      type = array[1];
+      continue;
+    }
+    const member = proof.eip712.types[type]?.find(field => field.name === key);
+    if (!member) return false;
+    type = member.type;
+  }
+  return true;
+}
+
+/** Rejects a JWT whose `exp` has passed or whose `nbf` is still ahead; both are in seconds. */
+function assertJwtValidityPeriod(jwt: string, now = Date.now()) {
+  const payload = JSON.parse(base64UrlDecode(jwt.split(".")[1]));
+  if (typeof payload.exp === "number" && payload.exp * 1000 <= now) {
+    throw new Error(`JWT expired at ${new Date(payload.exp * 1000).toISOString()}`);
+  }
+  if (typeof payload.nbf === "number" && payload.nbf * 1000 > now) {
+    throw new Error(`JWT is not valid before ${new Date(payload.nbf * 1000).toISOString()}`);
+  }
+}
+
+/**
+ * Checks the issuer signature and returns the issuer's Ethereum address.
+ * Throws if the signature is invalid or does not belong to the credential's issuer.
+ */
+export function verifyCredentialSignature(parsed: ParsedCredential): string {
+  if (parsed.format === "jwt") {
+    assertJwtValidityPeriod(parsed.jwt!);
+  }
+  const issuer = didToAddress(issuerId(parsed.credential));
+  const signers = parsed.format === "jwt"
+    ? recoverJwtSigner(parsed.jwt!)
+    : [recoverEip712Signer(parsed.credential)];
+
+  if (!signers.some(signer => signer === issuer)) {
+    throw new Error(`Credential signature does not match issuer ${issuer}`);
+  }
+  return issuer;
+}
+
+/** Looks up a dot-separated claim path in the credential subject. */
+function readClaim(subject: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    subject
+  );
+}
+
+export function inferCredentialType(credential: W3CCredential): string | undefined {
+  for (const type of credential.type) {
+    const lower = type.toLowerCase();
+    const match = VC_TYPE_KEYWORDS.find(([keyword]) => lower.includes(keyword));
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Picks the schema to issue a credential under: the newest of `schemas` for `typeName`,
+ * or for the type inferred from the VC `type` when no name is given.
+ */
+export function schemaForVc(
+  credential: W3CCredential,
+  schemas: RegisteredSchema[],
+  typeName = inferCredentialType(credential)
+): RegisteredSchema {
+  const code = typeName === undefined ? undefined : CREDENTIAL_TYPE_CODES[typeName];
+  const matching = schemas.filter(schema => schema.credentialType === code);
+  if (matching.length === 0) {
+    throw new Error(`No schema for credential type ${typeName ?? credential.type.join(", ")}; choose one explicitly`);
+  }
+  return matching[matching.length - 1];
+}
+
+/** Throws unless the credential's signature covers the member at `path`; a JWT signs its whole payload. */
+function assertSignedClaim(parsed: ParsedCredential, path: string[]) {
+  if (parsed.format === "json-ld" && !isSignedPath(parsed.credential, path)) {
+    throw new Error(`Claim ${path.join(".")} is not covered by the credential's EIP-712 types`);
+  }
+}
+
+/**
+ * Maps a credential onto the issuance form of `schema`. Each field is read from the
+ * credentialSubject at its `claim` path (its name by default) and normalized by the schema codec.
+ * JSON-LD claims must be covered by the EIP-712 types; a JWT signs its whole payload.
+ */
+export function toCredentialFormFromVc(parsed: ParsedCredential, schema: RegisteredSchema): CredentialFormData {
+  if (!schema.definition) {
+    throw new Error(`Schema ${schema.name} has no local definition`);
+  }
+
+  const { credential } = parsed;
+
+  const fields: Record<string, FieldValue> = {};
+  for (const field of schema.definition.fields) {
+    const path = field.claim ?? field.name;
+    assertSignedClaim(parsed, ["credentialSubject", ...path.split(".")]);
+    const value = readClaim(credential.credentialSubject, path);
+    if (typeof value !== "number" && typeof value !== "boolean" && typeof value !== "string") {
+      throw new Error(`Claim ${path} is missing or not a number, boolean or string`);
+    }
+    fields[field.name] = decodeField(field, encodeField(field, value));
+  }
+
+  const expiryKey = credential.validUntil !== undefined ? "validUntil" : "expirationDate";
+  const validUntil = credential[expiryKey];
+  if (!validUntil || Number.isNaN(Date.parse(validUntil))) {
+    throw new Error("Credential has no valid expirationDate/validUntil");
+  }
+  assertSignedClaim(parsed, [expiryKey]);
+
+  return {
+    schemaId: String(schema.id),
+    fields,
+    expiryDate: new Date(validUntil).toISOString().slice(0, 10)
+  };
+}
+
+/**
+ * The holder address from credentialSubject.id, if it is an Ethereum identifier.
+ * Throws when a JSON-LD credential's signature does not cover the id.
+ */
+export function subjectAddress(parsed: ParsedCredential): string | undefined {
+  const id = parsed.credential.credentialSubject.id;
+  if (typeof id !== "string") return undefined;
+  assertSignedClaim(parsed, ["credentialSubject", "id"]);
+  try {
+    return didToAddress(id);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wraps an on-chain VcIdFHE credential as an unsigned VC 2.0 document. The claims stay
+ * encrypted: the subject references the ciphertext handles, which only ACL-granted
+ * accounts can decrypt. The contract state is the source of truth, so no proof is attached.
+ */
+export function exportCredentialRecord(
+  record: CredentialRecord,
+  contractAddress: string,
+  chainId: number
+): W3CCredential {
+  return {
+    "@context": [VC_CONTEXT_V2],
+    id: `urn:vcidfhe:${chainId}:${ethers.getAddress(contractAddress)}:${ethers.getAddress(record.holder)}:${record.id}`,
+    type: ["VerifiableCredential", "VcIdFHEEncryptedCredential"],
+    issuer: addressToDid(record.issuer, chainId),
+    validFrom: new Date(record.timestamp * 1000).toISOString(),
+    credentialSubject: {
+      id: addressToDid(record.holder, chainId),
+      encryptedCredential: {
+        contract: ethers.getAddress(contractAddress),
+        chainId,
+        credentialId: record.id,
+        schemaId: record.schemaId,
+        revoked: record.revoked,
+        handles: {
+          credentialType: record.handles.credentialType,
+          attributes: record.handles.attributes,
+          expiry: record.handles.expiry
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,77 @@
+// wallet.ts
+import { getDefaultConfig, useAccountModal, useConnectModal } from "@rainbow-me/rainbowkit";
+import { BrowserProvider, JsonRpcSigner } from "ethers";
+import type { Account, Chain, Client, Transport } from "viem";
+import { useAccount, useDisconnect } from "wagmi";
+import { getAccount, getConnectorClient, switchChain } from "wagmi/actions";
+import { network, wagmiChain } from "./network";
+
+/**
+ * Wallet connection
+ * =================
+ *
+ * Wallets connect through wagmi with RainbowKit's connect modal: injected wallets (each announced
+ * one, e.g. MetaMask, OKX or Binance), WalletConnect and Coinbase Wallet. The wagmi config only
+ * knows the active network profile's chain, so the connected account, its chain and the signer
+ * all come from wagmi. Transactions and signatures go through `getWalletSigner`, which first
+ * moves the wallet to the profile's chain.
+ */
+
+const env = import.meta.env;
+
+export const wagmiConfig = getDefaultConfig({
+  appName: "FHE Identity",
+  // WalletConnect Cloud project; the default one is for local development only
+  projectId: env.VITE_WALLETCONNECT_PROJECT_ID || "4eeb32175359e6b21f4e3ceae163ccea",
+  chains: [wagmiChain]
+});
+
+/** An ethers signer over a wagmi connector client, so the ethers-based contract code can use any wallet. */
+function clientToSigner(client: Client<Transport, Chain, Account>): JsonRpcSigner {
+  const { account, chain, transport } = client;
+  const provider = new BrowserProvider(transport, { chainId: chain.id, name: chain.name });
+  return new JsonRpcSigner(provider, account.address);
+}
+
+/** The connected wallet's signer on the active profile's chain, switching (or adding) the chain if needed. */
+export async function getWalletSigner(): Promise<JsonRpcSigner> {
+  const account = getAccount(wagmiConfig);
+  if (!account.isConnected) {
+    throw new Error("No wallet connected");
+  }
+  if (account.chainId !== network.chainId) {
+    await switchChain(wagmiConfig, { chainId: network.chainId });
+  }
+  return clientToSigner(await getConnectorClient(wagmiConfig, { chainId: network.chainId }));
+}
+
+export interface WalletState {
+  // Connected account, or "" when disconnected
+  account: string;
+  // Chain the wallet is on; it may differ from the active profile's until the next transaction
+  chainId: number | undefined;
+  connectorName: string | undefined;
+  isConnecting: boolean;
+  // Opens RainbowKit's connect modal
+  connect: () => void;
+  // Opens RainbowKit's account modal (address, balance, chain, disconnect)
+  manage: () => void;
+  disconnect: () => void;
+}
+
+export function useWallet(): WalletState {
+  const { address, chainId, connector, isConnecting, isReconnecting } = useAccount();
+  const { openConnectModal } = useConnectModal();
+  const { openAccountModal } = useAccountModal();
+  const { disconnect } = useDisconnect();
+
+  return {
+    account: address ?? "",
+    chainId,
+    connectorName: connector?.name,
+    isConnecting: isConnecting || isReconnecting,
+    connect: () => openConnectModal?.(),
+    manage: () => openAccountModal?.(),
+    disconnect: () => disconnect()
+  };
+}
@@ -0,0 +1,241 @@
+import { isError, makeError, PerformActionRequest } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EndpointPool, RpcTransport } from "../src/rpc";
+
+// The module-level pool is built from the active profile; these tests build their own
+vi.mock("../src/network", () => ({ network: { id: "test", name: "Test", chainId: 31337, rpcUrls: [] } }));
+
+const TIMEOUT_MS = 1_000;
+const GET_BLOCK_NUMBER: PerformActionRequest = { method: "getBlockNumber" };
+const CALL: PerformActionRequest = {
+  method: "call",
+  transaction: { to: "0x" + "11".repeat(20), data: "0x" },
+  blockTag: "latest"
+};
+
+interface StubEndpoint extends RpcTransport {
+  calls: number;
+}
+
+/**
+ * An endpoint that takes `latencyMs` of fake time per request and then answers with `respond`.
+ * `respond` may throw, or return a promise that never settles to simulate a hung endpoint.
+ */
+function stub(url: string, latencyMs: number, respond: (req: PerformActionRequest) => unknown): StubEndpoint {
+  const endpoint = {
+    url,
+    calls: 0,
+    perform: async (req: PerformActionRequest) => {
+      endpoint.calls++;
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+      return respond(req);
+    }
+  };
+  return endpoint;
+}
+
+/** Runs the fake clock until `request` and its timeouts are done. */
+async function settle<T>(request: Promise<T>): Promise<T> {
+  // Handled here so a rejection before the caller awaits it is not reported as unhandled
+  request.catch(() => undefined);
+  await vi.runAllTimersAsync();
+  return request;
+}
+
+const answer = (value: unknown) => () => value;
+const fail = (message: string) => () => {
+  throw new Error(message);
+};
+const revert = (data: string) => () => {
+  throw makeError("execution reverted", "CALL_EXCEPTION", {
+    action: "call",
+    data,
+    reason: null,
+    transaction: { to: null, data: "" },
+    invocation: null,
+    revert: null
+  });
+};
+
+function createPool(endpoints: StubEndpoint[], quorum = 2) {
+  return new EndpointPool(endpoints, { timeoutMs: TIMEOUT_MS, quorum, name: "Test" });
+}
+
+const healthOf = (pool: EndpointPool, url: string) => pool.health().find(endpoint => endpoint.url === url)!;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date", "performance"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("scoring", () => {
+  it("sends reads to the fastest endpoint", async () => {
+    const slow = stub("slow", 300, answer(100));
+    const fast = stub("fast", 50, answer(100));
+    const medium = stub("medium", 120, answer(100));
+    const pool = createPool([slow, fast, medium]);
+
+    await settle(pool.probe());
+    await settle(pool.performWithFailover(CALL));
+
+    expect([slow.calls, fast.calls, medium.calls]).toEqual([1, 2, 1]);
+    const scores = pool.health().map(endpoint => endpoint.score);
+    expect(scores[1]).toBeLessThan(scores[2]);
+    expect(scores[2]).toBeLessThan(scores[0]);
+  });
+
+  it("weighs an endpoint's latency by its recent error rate", async () => {
+    let down = false;
+    const flaky = stub("flaky", 50, () => (down ? fail("connection reset")() : 100));
+    const steady = stub("steady", 80, answer(100));
+    const pool = createPool([flaky, steady]);
+    await settle(pool.probe());
+    expect(healthOf(pool, "flaky").score).toBeLessThan(healthOf(pool, "steady").score);
+
+    down = true;
+    expect(await settle(pool.performWithFailover(CALL))).toBe(100);
+    down = false;
+    // Past the cooldown the failure still counts: 50ms at a 20% error rate scores worse than 80ms
+    vi.advanceTimersByTime(5_000);
+    expect(healthOf(pool, "flaky")).toMatchObject({ coolingDown: false, errorRate: 0.2, failures: 1 });
+    await settle(pool.performWithFailover(CALL));
+    expect(steady.calls).toBe(3);
+    expect(flaky.calls).toBe(2);
+  });
+
+  it("cools a failing endpoint down for a time that doubles per failure, up to five minutes", async () => {
+    const down = stub("down", 0, fail("503 Service Unavailable"));
+    const pool = createPool([down]);
+
+    await expect(settle(pool.performWithFailover(CALL))).rejects.toThrow("503 Service Unavailable");
+    vi.advanceTimersByTime(4_999);
+    expect(healthOf(pool, "down").coolingDown).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(healthOf(pool, "down").coolingDown).toBe(false);
+
+    await expect(settle(pool.performWithFailover(CALL))).rejects.toThrow();
+    vi.advanceTimersByTime(9_999);
+    expect(healthOf(pool, "down").coolingDown).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(healthOf(pool, "down").coolingDown).toBe(false);
+
+    for (let i = 0; i < 10; i++) {
+      await expect(settle(pool.performWithFailover(CALL))).rejects.toThrow();
+    }
+    vi.advanceTimersByTime(5 * 60_000 - 1);
+    expect(healthOf(pool, "down").coolingDown).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(healthOf(pool, "down")).toMatchObject({
+      coolingDown: false,
+      failures: 12,
+      lastError: "503 Service Unavailable"
+    });
+  });
+
+  it("ranks endpoints more than MAX_LAG_BLOCKS behind the head last", async () => {
+    const behind = stub("behind", 10, req => (req.method === "getBlockNumber" ? 100 : "behind"));
+    const current = stub("current", 200, req => (req.method === "getBlockNumber" ? 106 : "current"));
+    const pool = createPool([behind, current]);
+
+    await settle(pool.probe());
+
+    expect(healthOf(pool, "behind")).toMatchObject({ blockNumber: 100, lag: 6, healthy: false });
+    expect(healthOf(pool, "current")).toMatchObject({ blockNumber: 106, lag: 0, healthy: true });
+    expect(await settle(pool.performWithFailover(CALL))).toBe("current");
+  });
+
+  it("notifies subscribers of every recorded request until they unsubscribe", async () => {
+    const pool = createPool([stub("a", 10, answer(1)), stub("b", 10, answer(1))]);
+    const listener = vi.fn();
+    const unsubscribe = pool.subscribe(listener);
+
+    await settle(pool.probe());
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+    await settle(pool.probe());
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("failover", () => {
+  it("fails over on errors and timeouts to the next endpoint", async () => {
+    const erroring = stub("erroring", 10, fail("connection refused"));
+    const hung = stub("hung", 20, () => new Promise(() => undefined));
+    const working = stub("working", 30, answer("0x2a"));
+    const pool = createPool([erroring, hung, working]);
+
+    expect(await settle(pool.performWithFailover(CALL))).toBe("0x2a");
+    expect(healthOf(pool, "erroring").lastError).toBe("connection refused");
+    expect(healthOf(pool, "hung").lastError).toBe(`RPC timeout after ${TIMEOUT_MS}ms`);
+    expect(healthOf(pool, "working")).toMatchObject({ failures: 0, requests: 1 });
+  });
+
+  it("rejects with the last error when every endpoint fails", async () => {
+    const pool = createPool([stub("a", 10, fail("first")), stub("b", 10, fail("second"))]);
+    await expect(settle(pool.performWithFailover(CALL))).rejects.toThrow("second");
+    await expect(settle(createPool([]).performWithFailover(CALL))).rejects.toThrow(
+      "No RPC endpoints configured for Test"
+    );
+  });
+
+  it("passes a revert through without failing over or counting it against the endpoint", async () => {
+    const reverting = stub("reverting", 10, revert("0x1234"));
+    const other = stub("other", 20, answer("0x"));
+    const pool = createPool([reverting, other]);
+
+    const error = await settle(pool.performWithFailover(CALL)).catch(e => e);
+
+    expect(isError(error, "CALL_EXCEPTION") && error.data).toBe("0x1234");
+    expect(other.calls).toBe(0);
+    expect(healthOf(pool, "reverting")).toMatchObject({ failures: 0, coolingDown: false });
+  });
+});
+
+describe("quorum", () => {
+  it("answers once the best endpoints agree, without asking the others", async () => {
+    const endpoints = [stub("a", 10, answer("0x01")), stub("b", 20, answer("0x01")), stub("c", 30, answer("0x01"))];
+    const pool = createPool(endpoints);
+
+    expect(await settle(pool.performWithQuorum(CALL))).toBe("0x01");
+    expect(endpoints.map(endpoint => endpoint.calls)).toEqual([1, 1, 0]);
+  });
+
+  it("asks one more endpoint at a time until enough answers match", async () => {
+    const endpoints = [
+      stub("a", 10, answer("0x01")),
+      stub("b", 20, fail("connection reset")),
+      stub("c", 30, answer("0x02")),
+      stub("d", 40, answer("0x02"))
+    ];
+    const pool = createPool(endpoints);
+
+    expect(await settle(pool.performWithQuorum(CALL))).toBe("0x02");
+    expect(endpoints.map(endpoint => endpoint.calls)).toEqual([1, 1, 1, 1]);
+  });
+
+  it("rejects when no answer reaches the quorum", async () => {
+    const pool = createPool([stub("a", 10, answer(1)), stub("b", 20, answer(2)), stub("c", 30, answer(3))]);
+    await expect(settle(pool.performWithQuorum(CALL))).rejects.toThrow(
+      "RPC endpoints did not agree on call: 2 matching answers needed, 3 received"
+    );
+  });
+
+  it("treats a revert with the same data on enough endpoints as the answer", async () => {
+    const endpoints = [stub("a", 10, revert("0x12")), stub("b", 20, revert("0x34")), stub("c", 30, revert("0x12"))];
+    const pool = createPool(endpoints);
+
+    const error = await settle(pool.performWithQuorum(CALL)).catch(e => e);
+
+    expect(isError(error, "CALL_EXCEPTION") && error.data).toBe("0x12");
+    expect(endpoints.map(endpoint => endpoint.calls)).toEqual([1, 1, 1]);
+  });
+
+  it("caps the quorum at the number of endpoints", async () => {
+    const pool = createPool([stub("only", 10, answer(7))], 3);
+    expect(pool.quorum).toBe(1);
+    expect(await settle(pool.performWithQuorum(GET_BLOCK_NUMBER))).toBe(7);
+  });
+});
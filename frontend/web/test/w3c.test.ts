@@ -0,0 +1,274 @@
+import { ethers, TypedDataField, Wallet } from "ethers";
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_SCHEMAS } from "@vcid/schemas";
+import { RegisteredSchema } from "../src/vcid";
+import {
+  parseVerifiableCredential,
+  subjectAddress,
+  toCredentialFormFromVc,
+  verifyCredentialSignature
+} from "../src/w3c";
+
+// vcid.ts reaches network.ts through the indexer client, which reads the stored profile on import
+vi.mock("../src/network", () => ({ network: { id: "test", name: "Test", chainId: 31337, rpcUrls: [] } }));
+
+const CHAIN_ID = 11155111;
+const issuer = new Wallet(ethers.id("issuer"));
+const holder = new Wallet(ethers.id("holder"));
+const issuerDid = `did:pkh:eip155:${CHAIN_ID}:${issuer.address}`;
+const holderDid = `did:pkh:eip155:${CHAIN_ID}:${holder.address}`;
+
+const DEGREE: RegisteredSchema = {
+  id: 2,
+  name: "DegreeV1",
+  credentialType: 2,
+  active: true,
+  definitionHash: ethers.ZeroHash,
+  definition: DEFAULT_SCHEMAS.find(schema => schema.name === "DegreeV1")
+};
+
+const degreeCredential = () => ({
+  "@context": ["https://www.w3.org/2018/credentials/v1"],
+  type: ["VerifiableCredential", "UniversityDegreeCredential"],
+  issuer: issuerDid,
+  issuanceDate: "2024-01-01T00:00:00Z",
+  expirationDate: "2030-01-01T00:00:00Z",
+  credentialSubject: {
+    id: holderDid,
+    degree: { level: "master" },
+    graduationDate: "2023-06-30",
+    honors: true
+  }
+});
+
+const base64Url = (bytes: Uint8Array) =>
+  ethers.encodeBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const encodeSegment = (value: object) => base64Url(ethers.toUtf8Bytes(JSON.stringify(value)));
+
+/** A compact JWS over a VC 1.1 JWT payload, signed by `signer`. */
+function signJwt(alg: "ES256K" | "ES256K-R", payload: object, signer = issuer): string {
+  const signingInput = `${encodeSegment({ alg, typ: "JWT" })}.${encodeSegment(payload)}`;
+  const signature = signer.signingKey.sign(ethers.sha256(ethers.toUtf8Bytes(signingInput)));
+  const bytes = ethers.concat([
+    signature.r,
+    signature.s,
+    ...(alg === "ES256K-R" ? [ethers.toBeHex(signature.yParity)] : [])
+  ]);
+  return `${signingInput}.${base64Url(ethers.getBytes(bytes))}`;
+}
+
+const jwtPayload = (credential: object = degreeCredential()) => ({
+  iss: issuerDid,
+  sub: holderDid,
+  nbf: Date.parse("2024-01-01T00:00:00Z") / 1000,
+  exp: Date.parse("2030-01-01T00:00:00Z") / 1000,
+  vc: credential
+});
+
+/** Replaces the payload of `jwt`, keeping its header and signature. */
+function swapPayload(jwt: string, payload: object): string {
+  const [header, , signature] = jwt.split(".");
+  return `${header}.${encodeSegment(payload)}.${signature}`;
+}
+
+const DOMAIN = { name: "VcIdFHE Issuer", version: "1", chainId: CHAIN_ID };
+
+const EIP712_TYPES: Record<string, TypedDataField[]> = {
+  VerifiableCredential: [
+    { name: "@context", type: "string[]" },
+    { name: "type", type: "string[]" },
+    { name: "issuer", type: "string" },
+    { name: "issuanceDate", type: "string" },
+    { name: "expirationDate", type: "string" },
+    { name: "credentialSubject", type: "CredentialSubject" }
+  ],
+  CredentialSubject: [
+    { name: "id", type: "string" },
+    { name: "degree", type: "Degree" },
+    { name: "graduationDate", type: "string" },
+    { name: "honors", type: "bool" }
+  ],
+  Degree: [{ name: "level", type: "string" }]
+};
+
+/** Attaches an EthereumEip712Signature2021 proof over `credential` under `types`. */
+async function signEip712<T extends Record<string, unknown>>(
+  credential: T,
+  types = EIP712_TYPES,
+  primaryType = "VerifiableCredential"
+) {
+  return {
+    ...credential,
+    proof: {
+      type: "EthereumEip712Signature2021",
+      created: "2024-01-01T00:00:00Z",
+      proofPurpose: "assertionMethod",
+      verificationMethod: `${issuerDid}#blockchainAccountId`,
+      proofValue: await issuer.signTypedData(DOMAIN, types, credential),
+      eip712: { domain: DOMAIN, types, primaryType }
+    }
+  };
+}
+
+describe("JWT-VCs", () => {
+  for (const alg of ["ES256K", "ES256K-R"] as const) {
+    it(`verifies an ${alg} signature from the issuer`, () => {
+      const parsed = parseVerifiableCredential(signJwt(alg, jwtPayload()));
+
+      expect(parsed).toMatchObject({ format: "jwt", version: "1.1" });
+      expect(verifyCredentialSignature(parsed)).toBe(issuer.address);
+    });
+
+    it(`rejects an ${alg} JWT whose payload was changed after signing`, () => {
+      const tampered = degreeCredential();
+      tampered.credentialSubject.degree.level = "doctorate";
+      const parsed = parseVerifiableCredential(swapPayload(signJwt(alg, jwtPayload()), jwtPayload(tampered)));
+
+      expect(() => verifyCredentialSignature(parsed)).toThrow(
+        `Credential signature does not match issuer ${issuer.address}`
+      );
+    });
+  }
+
+  it("rejects a JWT signed by someone other than the issuer", () => {
+    const parsed = parseVerifiableCredential(signJwt("ES256K-R", jwtPayload(), holder));
+    expect(() => verifyCredentialSignature(parsed)).toThrow("does not match issuer");
+  });
+
+  it("rejects a JWT past its exp or before its nbf", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const expired = parseVerifiableCredential(signJwt("ES256K-R", { ...jwtPayload(), exp: now - 60 }));
+    const early = parseVerifiableCredential(signJwt("ES256K-R", { ...jwtPayload(), nbf: now + 3600 }));
+
+    expect(() => verifyCredentialSignature(expired)).toThrow(
+      `JWT expired at ${new Date((now - 60) * 1000).toISOString()}`
+    );
+    expect(() => verifyCredentialSignature(early)).toThrow(
+      `JWT is not valid before ${new Date((now + 3600) * 1000).toISOString()}`
+    );
+  });
+});
+
+describe("EIP-712 credentials", () => {
+  it("verifies a proof from the issuer", async () => {
+    const parsed = parseVerifiableCredential(JSON.stringify(await signEip712(degreeCredential())));
+
+    expect(parsed).toMatchObject({ format: "json-ld", version: "1.1" });
+    expect(verifyCredentialSignature(parsed)).toBe(issuer.address);
+  });
+
+  it("rejects a credential whose signed claims were changed", async () => {
+    const signed = await signEip712(degreeCredential());
+    signed.credentialSubject = { ...signed.credentialSubject, honors: false };
+
+    expect(() => verifyCredentialSignature(parseVerifiableCredential(signed))).toThrow("does not match issuer");
+  });
+
+  it("rejects a proof that declares another primary type", async () => {
+    const signed = await signEip712(degreeCredential(), EIP712_TYPES, "CredentialSubject");
+    expect(() => verifyCredentialSignature(parseVerifiableCredential(signed))).toThrow(
+      "EIP-712 proof must sign a VerifiableCredential, not CredentialSubject"
+    );
+  });
+
+  it("rejects types whose root is not the credential", async () => {
+    // Signs only the subject; the declared primary type is not what the signature covers
+    const { VerifiableCredential: _credential, ...subjectTypes } = EIP712_TYPES;
+    const credential = degreeCredential();
+    const signed = {
+      ...credential,
+      proof: {
+        type: "EthereumEip712Signature2021",
+        proofValue: await issuer.signTypedData(DOMAIN, subjectTypes, credential.credentialSubject),
+        eip712: { domain: DOMAIN, types: subjectTypes, primaryType: "VerifiableCredential" }
+      }
+    };
+
+    expect(() => verifyCredentialSignature(parseVerifiableCredential(signed))).toThrow(
+      "EIP-712 types must have VerifiableCredential as their only root type"
+    );
+  });
+});
+
+describe("toCredentialFormFromVc", () => {
+  it("reads each field at its claim path and normalizes it with the schema codec", async () => {
+    const expected = {
+      schemaId: "2",
+      fields: { level: "master", graduationDate: "2023-06-30", honors: true },
+      expiryDate: "2030-01-01"
+    };
+
+    const jwt = parseVerifiableCredential(signJwt("ES256K", jwtPayload()));
+    expect(toCredentialFormFromVc(jwt, DEGREE)).toEqual(expected);
+    const jsonLd = parseVerifiableCredential(await signEip712(degreeCredential()));
+    expect(toCredentialFormFromVc(jsonLd, DEGREE)).toEqual(expected);
+  });
+
+  it("rejects a missing claim", () => {
+    const credential = degreeCredential();
+    const { honors: _honors, ...subject } = credential.credentialSubject;
+    const parsed = parseVerifiableCredential(
+      signJwt("ES256K", jwtPayload({ ...credential, credentialSubject: subject }))
+    );
+
+    expect(() => toCredentialFormFromVc(parsed, DEGREE)).toThrow(
+      "Claim honors is missing or not a number, boolean or string"
+    );
+  });
+
+  it("rejects a mapped claim the EIP-712 types do not sign", async () => {
+    // The signature still verifies: the unsigned member is simply not part of the typed data
+    const types = { ...EIP712_TYPES, Degree: [{ name: "field", type: "string" }] };
+    const credential = degreeCredential();
+    const signed = await signEip712(
+      { ...credential, credentialSubject: { ...credential.credentialSubject, degree: { field: "Physics" } } },
+      types
+    );
+    const parsed = parseVerifiableCredential({
+      ...signed,
+      credentialSubject: { ...signed.credentialSubject, degree: { field: "Physics", level: "doctorate" } }
+    });
+
+    expect(verifyCredentialSignature(parsed)).toBe(issuer.address);
+    expect(() => toCredentialFormFromVc(parsed, DEGREE)).toThrow(
+      "Claim credentialSubject.degree.level is not covered by the credential's EIP-712 types"
+    );
+  });
+
+  it("rejects an expiry date the EIP-712 types do not sign", async () => {
+    const types = {
+      ...EIP712_TYPES,
+      VerifiableCredential: EIP712_TYPES.VerifiableCredential.filter(field => field.name !== "expirationDate")
+    };
+    const parsed = parseVerifiableCredential(await signEip712(degreeCredential(), types));
+
+    expect(verifyCredentialSignature(parsed)).toBe(issuer.address);
+    expect(() => toCredentialFormFromVc(parsed, DEGREE)).toThrow(
+      "Claim expirationDate is not covered by the credential's EIP-712 types"
+    );
+  });
+});
+
+describe("subjectAddress", () => {
+  it("reads the holder address from a signed subject id", async () => {
+    expect(subjectAddress(parseVerifiableCredential(signJwt("ES256K", jwtPayload())))).toBe(holder.address);
+    expect(subjectAddress(parseVerifiableCredential(await signEip712(degreeCredential())))).toBe(holder.address);
+  });
+
+  it("rejects a subject id the EIP-712 types do not sign", async () => {
+    // Signed without a subject id, which is then pointed at another account
+    const types = {
+      ...EIP712_TYPES,
+      CredentialSubject: EIP712_TYPES.CredentialSubject.filter(field => field.name !== "id")
+    };
+    const { id: _id, ...subject } = degreeCredential().credentialSubject;
+    const signed = await signEip712({ ...degreeCredential(), credentialSubject: subject }, types);
+    const parsed = parseVerifiableCredential({ ...signed, credentialSubject: { ...subject, id: issuerDid } });
+
+    expect(verifyCredentialSignature(parsed)).toBe(issuer.address);
+    expect(() => subjectAddress(parsed)).toThrow(
+      "Claim credentialSubject.id is not covered by the credential's EIP-712 types"
+    );
+  });
+});
@@ -1,10 +1,62 @@
-import { defineConfig } from "vite";
+import fs from "fs";
+import path from "path";
+import { Interface, InterfaceAbi } from "ethers";
+import { defineConfig, Plugin, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
+import { VcIdFHE__factory } from "./src/typechain";
 
-export default defineConfig({
-  plugins: [react()],
+const ARTIFACT = path.resolve(__dirname, "../../artifacts/contracts/VcIdFHE.sol/VcIdFHE.json");
+const EXPORTED_ABI = path.resolve(__dirname, "src/abi/VcIdFHE.json");
+// Schema definitions and codecs, shared with the contracts workspace
+const SCHEMAS_DIR = path.resolve(__dirname, "../../schemas");
+
+// Signatures of every function, event and error, so formatting differences between the copies do not count
+const signatures = (abi: InterfaceAbi) => JSON.stringify(Interface.from(abi).format());
+
+/**
+ * Fails the build when the typechain factory the app talks to the contract through, the exported ABI
+ * and the compiled artifact disagree, i.e. when the contract changed without `npx hardhat vcid:export`.
+ * The artifact is only compared when the contracts were compiled in this checkout.
+ */
+function checkContractAbi(): Plugin {
+  return {
+    name: "vcid-check-contract-abi",
+    buildStart() {
+      const typechain = signatures(VcIdFHE__factory.abi);
+      const copies: Record<string, InterfaceAbi> = {
+        "src/abi/VcIdFHE.json": JSON.parse(fs.readFileSync(EXPORTED_ABI, "utf8")).abi
+      };
+      if (fs.existsSync(ARTIFACT)) {
+        copies["the compiled artifact"] = JSON.parse(fs.readFileSync(ARTIFACT, "utf8")).abi;
+      } else {
+        this.warn(`${ARTIFACT} not found; checking the frontend ABI against its typechain bindings only`);
+      }
+
+      const stale = Object.entries(copies)
+        .filter(([, abi]) => signatures(abi) !== typechain)
+        .map(([name]) => name);
+      if (stale.length > 0) {
+        this.error(
+          `VcIdFHE typechain bindings do not match ${stale.join(" and ")}; run npx hardhat vcid:export`
+        );
+      }
+    }
+  };
+}
+
+// Only NODE_ENV reaches the bundle; client settings are read from import.meta.env.VITE_*
+export default defineConfig(({ mode }) => ({
+  plugins: [react(), checkContractAbi()],
+  resolve: {
+    alias: { "@vcid/schemas": SCHEMAS_DIR },
+    // schemas/ sits outside the app; its ethers import must resolve to the app's copy
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: { allow: [searchForWorkspaceRoot(process.cwd()), SCHEMAS_DIR] }
+  },
   define: {
-    'process.env': process.env
+    'process.env.NODE_ENV': JSON.stringify(mode)
   },
   esbuild: {
     target: "es2022",
@@ -20,4 +72,4 @@ export default defineConfig({
       }
     }
   }
-});
\ No newline at end of file
+}));
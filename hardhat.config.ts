@@ -1,7 +1,11 @@
+import "dotenv/config";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/VcIdFHE";
+import "./tasks/frontend";
+import "./tasks/oracle";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -9,10 +13,14 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: process.env.LOCALHOST_RPC_URL || "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
     },
   },
   solidity: {
@@ -0,0 +1,229 @@
+// indexer/api.ts
+import { isAddress } from "ethers";
+import type { EventEmitter } from "events";
+import http from "http";
+import { executeGraphQL, GraphQLRequest } from "./graphql";
+import {
+  EventPosition,
+  EventQuery,
+  getCheckpoint,
+  Page,
+  queryCredentials,
+  queryEvents,
+  queryIssuers,
+  Store,
+} from "./store";
+
+/**
+ * HTTP/JSON API
+ * =============
+ *
+ *   GET /status                                  checkpoint of the index
+ *   GET /events?name=&holder=&issuer=&verifier=&from=&to=&after=&limit=&offset=
+ *   GET /holders/:address/credentials?from=&to=
+ *   GET /holders/:address/events?name=&from=&to=&after=&limit=&offset=
+ *   GET /issuers                                 every issuer's latest status
+ *   GET /issuers/:address/credentials?from=&to=
+ *   GET|POST /graphql                            see graphql.ts
+ *
+ * `from` and `to` bound the block timestamp and take unix seconds or ISO dates; `name` takes a
+ * comma-separated list of event names. Event lists page with `after`, the `blockNumber:logIndex` of the
+ * last event read: unlike `offset`, it does not shift as blocks are indexed or rolled back. Addresses are
+ * returned checksummed, and lists carry the `checkpoint` block they are complete up to.
+ */
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1_000;
+const MAX_BODY_BYTES = 1_000_000;
+
+export interface ApiContext {
+  db: Store;
+  chainId: number;
+  contractAddress: string;
+  // Emits "events" with each batch of newly indexed events
+  indexed: EventEmitter;
+}
+
+class BadRequest extends Error {}
+
+function parseTime(value: string | null, param: string): number | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+  if (Number.isNaN(time)) {
+    throw new BadRequest(`${param} must be unix seconds or an ISO date`);
+  }
+  return time;
+}
+
+function parseCount(value: string | null, param: string, fallback: number, max = Number.MAX_SAFE_INTEGER) {
+  if (value === null || value === "") {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new BadRequest(`${param} must be a non-negative integer`);
+  }
+  return Math.min(Number(value), max);
+}
+
+function parseAddress(value: string | null, param: string): string | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  if (!isAddress(value)) {
+    throw new BadRequest(`${param} is not an address`);
+  }
+  return value;
+}
+
+function parsePosition(value: string | null, param: string): EventPosition | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const match = /^(\d+):(\d+)$/.exec(value);
+  if (!match) {
+    throw new BadRequest(`${param} must be blockNumber:logIndex`);
+  }
+  return { blockNumber: Number(match[1]), logIndex: Number(match[2]) };
+}
+
+function parseEventQuery(params: URLSearchParams): EventQuery {
+  return {
+    after: parsePosition(params.get("after"), "after"),
+    names: params.get("name")?.split(",").filter(Boolean),
+    holder: parseAddress(params.get("holder"), "holder"),
+    issuer: parseAddress(params.get("issuer"), "issuer"),
+    verifier: parseAddress(params.get("verifier"), "verifier"),
+    from: parseTime(params.get("from"), "from"),
+    to: parseTime(params.get("to"), "to"),
+  };
+}
+
+function parsePage(params: URLSearchParams): Page {
+  return {
+    limit: parseCount(params.get("limit"), "limit", DEFAULT_LIMIT, MAX_LIMIT),
+    offset: parseCount(params.get("offset"), "offset", 0),
+  };
+}
+
+function route(context: ApiContext, url: URL): unknown {
+  const { db } = context;
+  const params = url.searchParams;
+  const parts = url.pathname.split("/").filter(Boolean);
+  const range = { from: parseTime(params.get("from"), "from"), to: parseTime(params.get("to"), "to") };
+  // Lists carry the block they are complete up to, so clients can read newer blocks from the chain
+  const checkpoint = getCheckpoint(db)?.number ?? null;
+
+  if (parts.length === 1 && parts[0] === "status") {
+    return { chainId: context.chainId, contractAddress: context.contractAddress, checkpoint: getCheckpoint(db) };
+  }
+  if (parts.length === 1 && parts[0] === "events") {
+    return { checkpoint, events: queryEvents(db, parseEventQuery(params), parsePage(params)).items };
+  }
+  if (parts.length === 1 && parts[0] === "issuers") {
+    return { issuers: queryIssuers(db, {}).items };
+  }
+  if (parts.length === 3 && (parts[0] === "holders" || parts[0] === "issuers")) {
+    const address = parseAddress(parts[1], parts[0] === "holders" ? "holder" : "issuer")!;
+    const key = parts[0] === "holders" ? "holder" : "issuer";
+    if (parts[2] === "credentials") {
+      return { checkpoint, credentials: queryCredentials(db, { [key]: address, ...range }).items };
+    }
+    if (parts[2] === "events" && key === "holder") {
+      const query = { ...parseEventQuery(params), holder: address };
+      return { checkpoint, events: queryEvents(db, query, parsePage(params)).items };
+    }
+  }
+  return undefined;
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    // The frontend is served from another origin
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(body));
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new BadRequest("Request body too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+async function parseGraphQLRequest(request: http.IncomingMessage, url: URL): Promise<GraphQLRequest> {
+  if (request.method === "GET") {
+    const variables = url.searchParams.get("variables");
+    let parsed = null;
+    try {
+      parsed = variables ? JSON.parse(variables) : null;
+    } catch {
+      throw new BadRequest("variables must be a JSON object");
+    }
+    return {
+      query: url.searchParams.get("query") ?? undefined,
+      variables: parsed,
+      operationName: url.searchParams.get("operationName"),
+    };
+  }
+  try {
+    return JSON.parse(await readBody(request));
+  } catch (e) {
+    throw e instanceof BadRequest ? e : new BadRequest("The body must be a JSON GraphQL request");
+  }
+}
+
+async function handle(context: ApiContext, request: http.IncomingMessage, response: http.ServerResponse) {
+  const url = new URL(request.url ?? "/", "http://indexer");
+  if (url.pathname === "/graphql" && (request.method === "GET" || request.method === "POST")) {
+    const result = await executeGraphQL(context, await parseGraphQLRequest(request, url));
+    send(response, result.data ? 200 : 400, result);
+    return;
+  }
+  if (request.method !== "GET") {
+    send(response, 405, { error: "Only GET is supported" });
+    return;
+  }
+
+  const body = route(context, url);
+  if (body === undefined) {
+    send(response, 404, { error: `No route for ${request.url}` });
+  } else {
+    send(response, 200, body);
+  }
+}
+
+export function createApiServer(context: ApiContext): http.Server {
+  return http.createServer((request, response) => {
+    if (request.method === "OPTIONS") {
+      response.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST",
+        "Access-Control-Allow-Headers": "Content-Type",
+      });
+      response.end();
+      return;
+    }
+
+    handle(context, request, response).catch((e) => {
+      if (e instanceof BadRequest) {
+        send(response, 400, { error: e.message });
+      } else {
+        console.error(e);
+        send(response, 500, { error: "Internal error" });
+      }
+    });
+  });
+}
@@ -0,0 +1,420 @@
+// indexer/graphql.ts
+import { isAddress } from "ethers";
+import { on } from "events";
+import { buildSchema, ExecutionResult, graphql, GraphQLError } from "graphql";
+import { useServer } from "graphql-ws/lib/use/ws";
+import type http from "http";
+import { WebSocketServer } from "ws";
+import type { ApiContext } from "./api";
+import {
+  getCheckpoint,
+  IndexedCredential,
+  IndexedEvent,
+  IndexedIssuer,
+  IndexedProof,
+  IndexedProofRequest,
+  IssuerStatus,
+  Page,
+  PageResult,
+  ProofKind,
+  queryCredentials,
+  queryEvents,
+  queryHolders,
+  queryIssuers,
+  queryProofRequests,
+  queryProofs,
+} from "./store";
+
+/**
+ * GraphQL API
+ * ===========
+ *
+ * The indexed events as holders, issuers, credentials, proofs and proof requests, served at
+ * /graphql over HTTP (queries) and WebSocket (subscriptions, graphql-ws protocol). Lists are
+ * paginated with `first` and the `endCursor` of the previous page as `after`. Subscriptions see
+ * events once they are indexed, i.e. after the configured confirmations.
+ */
+
+export const schema = buildSchema(`
+  type PageInfo {
+    hasNextPage: Boolean!
+    endCursor: String
+  }
+
+  type IndexerStatus {
+    chainId: Int!
+    contractAddress: String!
+    "The last block whose events are all indexed"
+    checkpoint: Int
+  }
+
+  type Holder {
+    address: String!
+    credentials(revoked: Boolean, first: Int, after: String): CredentialConnection!
+    proofs(kind: ProofKind, first: Int, after: String): ProofConnection!
+  }
+
+  type HolderConnection {
+    nodes: [Holder!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  enum IssuerStatus {
+    ALLOWED
+    DENIED
+  }
+
+  type Issuer {
+    address: String!
+    status: IssuerStatus!
+    "Null for issuers denied without ever being allowed"
+    displayName: String
+    "Bitmask of the credential type codes the issuer may issue"
+    allowedCredentialTypes: Int!
+    updatedAt: Int!
+    credentials(revoked: Boolean, from: Int, to: Int, first: Int, after: String): CredentialConnection!
+  }
+
+  type IssuerConnection {
+    nodes: [Issuer!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  type Credential {
+    "holder:credentialId"
+    id: ID!
+    credentialId: Int!
+    holder: Holder!
+    issuer: Issuer
+    issuedAt: Int!
+    revokedAt: Int
+    revoked: Boolean!
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type CredentialConnection {
+    nodes: [Credential!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  enum ProofKind {
+    COMPOSITE
+    POLICY
+  }
+
+  type Proof {
+    "blockNumber:logIndex of the generation event"
+    id: ID!
+    kind: ProofKind!
+    holder: Holder!
+    policyHash: String
+    generatedAt: Int!
+    revealedAt: Int
+    "The revealed answer of a policy proof"
+    result: Boolean
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type ProofConnection {
+    nodes: [Proof!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  type ProofRequestAnswer {
+    "The holder's pseudonym for the request's verifier"
+    pseudonym: String!
+    answeredAt: Int!
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type ProofRequestAnswerConnection {
+    nodes: [ProofRequestAnswer!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  "A proof request that was answered at least once; unanswered requests never reach the chain"
+  type ProofRequest {
+    id: ID!
+    verifier: String!
+    answerCount: Int!
+    firstAnsweredAt: Int!
+    lastAnsweredAt: Int!
+    answers(first: Int, after: String): ProofRequestAnswerConnection!
+  }
+
+  type ProofRequestConnection {
+    nodes: [ProofRequest!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  type Query {
+    status: IndexerStatus!
+    holder(address: String!): Holder!
+    holders(first: Int, after: String): HolderConnection!
+    issuer(address: String!): Issuer
+    issuers(status: IssuerStatus, first: Int, after: String): IssuerConnection!
+    credentials(
+      holder: String
+      issuer: String
+      revoked: Boolean
+      from: Int
+      to: Int
+      first: Int
+      after: String
+    ): CredentialConnection!
+    proofs(holder: String, kind: ProofKind, from: Int, to: Int, first: Int, after: String): ProofConnection!
+    proofRequest(id: ID!): ProofRequest
+    proofRequests(verifier: String, first: Int, after: String): ProofRequestConnection!
+  }
+
+  type Subscription {
+    "Composite proofs as their ProofGenerated events are indexed"
+    proofGenerated(holder: String): Proof!
+  }
+`);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+interface PageArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
+// Cursors are opaque to clients; they encode the offset of the last row of a page
+const encodeCursor = (offset: number) => Buffer.from(`offset:${offset}`).toString("base64");
+
+function decodeCursor(cursor: string): number {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(cursor, "base64").toString());
+  if (!match) {
+    throw new GraphQLError(`Invalid cursor "${cursor}"`);
+  }
+  return Number(match[1]);
+}
+
+function toPage(args: PageArgs): Page {
+  const limit = args.first ?? DEFAULT_PAGE_SIZE;
+  if (limit < 0 || limit > MAX_PAGE_SIZE) {
+    throw new GraphQLError(`first must be between 0 and ${MAX_PAGE_SIZE}`);
+  }
+  return { limit, offset: args.after ? decodeCursor(args.after) + 1 : 0 };
+}
+
+function connection<T, N>(result: PageResult<T>, page: Page, toNode: (item: T) => N) {
+  const last = page.offset + result.items.length - 1;
+  return {
+    nodes: result.items.map(toNode),
+    totalCount: result.totalCount,
+    pageInfo: {
+      hasNextPage: last + 1 < result.totalCount,
+      endCursor: result.items.length > 0 ? encodeCursor(last) : null,
+    },
+  };
+}
+
+function address(value: string | null | undefined, name: string): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (!isAddress(value)) {
+    throw new GraphQLError(`${name} is not an address`);
+  }
+  return value;
+}
+
+const lowerEnum = <T extends string>(value: string | null | undefined) =>
+  value === null || value === undefined ? undefined : (value.toLowerCase() as T);
+
+/** Query and subscription resolvers over one store; nested fields resolve lazily from the node objects. */
+export function createRoot(context: ApiContext) {
+  const { db } = context;
+
+  const holderNode = (holder: string) => ({
+    address: holder,
+    credentials: (args: PageArgs & { revoked?: boolean | null }) => {
+      const page = toPage(args);
+      const result = queryCredentials(db, { holder, revoked: args.revoked ?? undefined }, page);
+      return connection(result, page, credentialNode);
+    },
+    proofs: (args: PageArgs & { kind?: string | null }) => {
+      const page = toPage(args);
+      return connection(queryProofs(db, { holder, kind: lowerEnum<ProofKind>(args.kind) }, page), page, proofNode);
+    },
+  });
+
+  const issuerNode = (issuer: IndexedIssuer) => ({
+    address: issuer.issuer,
+    status: issuer.status.toUpperCase(),
+    displayName: issuer.displayName,
+    allowedCredentialTypes: issuer.allowedCredentialTypes,
+    updatedAt: issuer.updatedAt,
+    credentials: (args: PageArgs & { revoked?: boolean | null; from?: number | null; to?: number | null }) => {
+      const page = toPage(args);
+      const result = queryCredentials(
+        db,
+        {
+          issuer: issuer.issuer,
+          revoked: args.revoked ?? undefined,
+          from: args.from ?? undefined,
+          to: args.to ?? undefined,
+        },
+        page,
+      );
+      return connection(result, page, credentialNode);
+    },
+  });
+
+  const findIssuer = (issuer: string) => {
+    const [found] = queryIssuers(db, { issuer }, { limit: 1, offset: 0 }).items;
+    return found ? issuerNode(found) : null;
+  };
+
+  const credentialNode = (credential: IndexedCredential) => ({
+    ...credential,
+    id: `${credential.holder}:${credential.credentialId}`,
+    holder: () => holderNode(credential.holder),
+    issuer: () => findIssuer(credential.issuer),
+    revoked: credential.revokedAt !== null,
+  });
+
+  const proofNode = (proof: IndexedProof) => ({
+    ...proof,
+    kind: proof.kind.toUpperCase(),
+    holder: () => holderNode(proof.holder),
+  });
+
+  const proofRequestNode = (request: IndexedProofRequest) => ({
+    ...request,
+    id: request.requestId,
+    answers: (args: PageArgs) => {
+      const page = toPage(args);
+      const result = queryEvents(db, { names: ["ProofRequestAnswered"], requestId: request.requestId }, page);
+      return connection(result, page, (event: IndexedEvent) => ({
+        pseudonym: event.holder,
+        answeredAt: event.timestamp,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      }));
+    },
+  });
+
+  return {
+    status: () => ({
+      chainId: context.chainId,
+      contractAddress: context.contractAddress,
+      checkpoint: getCheckpoint(db)?.number ?? null,
+    }),
+    holder: (args: { address: string }) => holderNode(address(args.address, "address")!),
+    holders: (args: PageArgs) => {
+      const page = toPage(args);
+      return connection(queryHolders(db, page), page, holderNode);
+    },
+    issuer: (args: { address: string }) => findIssuer(address(args.address, "address")!),
+    issuers: (args: PageArgs & { status?: string | null }) => {
+      const page = toPage(args);
+      return connection(queryIssuers(db, { status: lowerEnum<IssuerStatus>(args.status) }, page), page, issuerNode);
+    },
+    credentials: (
+      args: PageArgs & {
+        holder?: string | null;
+        issuer?: string | null;
+        revoked?: boolean | null;
+        from?: number | null;
+        to?: number | null;
+      },
+    ) => {
+      const page = toPage(args);
+      const query = {
+        holder: address(args.holder, "holder"),
+        issuer: address(args.issuer, "issuer"),
+        revoked: args.revoked ?? undefined,
+        from: args.from ?? undefined,
+        to: args.to ?? undefined,
+      };
+      return connection(queryCredentials(db, query, page), page, credentialNode);
+    },
+    proofs: (
+      args: PageArgs & { holder?: string | null; kind?: string | null; from?: number | null; to?: number | null },
+    ) => {
+      const page = toPage(args);
+      const query = {
+        holder: address(args.holder, "holder"),
+        kind: lowerEnum<ProofKind>(args.kind),
+        from: args.from ?? undefined,
+        to: args.to ?? undefined,
+      };
+      return connection(queryProofs(db, query, page), page, proofNode);
+    },
+    proofRequest: (args: { id: string }) => {
+      const [found] = queryProofRequests(db, { requestId: args.id }, { limit: 1, offset: 0 }).items;
+      return found ? proofRequestNode(found) : null;
+    },
+    proofRequests: (args: PageArgs & { verifier?: string | null }) => {
+      const page = toPage(args);
+      const result = queryProofRequests(db, { verifier: address(args.verifier, "verifier") }, page);
+      return connection(result, page, proofRequestNode);
+    },
+
+    // Subscription: yields { proofGenerated } payloads for graphql-ws to execute the selection on
+    proofGenerated: async function* (args: { holder?: string | null }) {
+      const holder = address(args.holder, "holder")?.toLowerCase();
+      for await (const [events] of on(context.indexed, "events")) {
+        for (const event of events as IndexedEvent[]) {
+          if (event.name !== "ProofGenerated" || (holder && event.holder!.toLowerCase() !== holder)) {
+            continue;
+          }
+          yield {
+            proofGenerated: proofNode({
+              id: `${event.blockNumber}:${event.logIndex}`,
+              kind: "composite",
+              holder: event.holder!,
+              policyHash: null,
+              blockNumber: event.blockNumber,
+              transactionHash: event.transactionHash,
+              generatedAt: event.timestamp,
+              revealedAt: null,
+              result: null,
+            }),
+          };
+        }
+      }
+    },
+  };
+}
+
+export interface GraphQLRequest {
+  query?: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+/** Executes a query sent over HTTP; subscriptions need the WebSocket transport. */
+export function executeGraphQL(context: ApiContext, request: GraphQLRequest): Promise<ExecutionResult> {
+  if (!request.query) {
+    return Promise.resolve({ errors: [new GraphQLError("Missing query")] });
+  }
+  return graphql({
+    schema,
+    source: request.query,
+    rootValue: createRoot(context),
+    variableValues: request.variables,
+    operationName: request.operationName,
+  });
+}
+
+/** Serves subscriptions over WebSocket at `path` on the API server. */
+export function attachSubscriptions(server: http.Server, context: ApiContext, path = "/graphql") {
+  const wsServer = new WebSocketServer({ server, path });
+  const root = createRoot(context);
+  useServer({ schema, roots: { query: root, subscription: root } }, wsServer);
+  return wsServer;
+}
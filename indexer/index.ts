@@ -0,0 +1,110 @@
+// indexer/index.ts
+import "dotenv/config";
+import { JsonRpcProvider } from "ethers";
+import { EventEmitter } from "events";
+import path from "path";
+import { readManifest } from "../deploy/manifest";
+import { createApiServer } from "./api";
+import { attachSubscriptions } from "./graphql";
+import { openStore, resetStore } from "./store";
+import { followChain, SyncOptions } from "./sync";
+
+/**
+ * VcIdFHE event indexer
+ * =====================
+ *
+ * Follows the contract's credential, issuer and proof events into a SQLite database and serves
+ * them over a small HTTP/JSON API (see api.ts) and GraphQL (see graphql.ts), so the frontend can
+ * list a holder's or issuer's history without scanning logs from the deployment block on every
+ * page load:
+ *
+ *   npm run indexer                               # INDEXER_NETWORK=localhost by default
+ *   INDEXER_NETWORK=sepolia INDEXER_RPC_URL=https://... npm run indexer
+ *
+ * The contract address and deployment block come from deployments/<network>.json and can be
+ * overridden with INDEXER_CONTRACT_ADDRESS and INDEXER_START_BLOCK. Manifests carry no RPC URL, so
+ * INDEXER_RPC_URL is required for any network but localhost, which defaults to the hardhat node.
+ */
+
+const env = process.env;
+
+function readConfig() {
+  const network = env.INDEXER_NETWORK || "localhost";
+  const manifest = readManifest(network);
+  const deployment = manifest?.contracts.VcIdFHE;
+
+  const contractAddress = env.INDEXER_CONTRACT_ADDRESS || deployment?.address;
+  if (!contractAddress) {
+    throw new Error(`No VcIdFHE deployment recorded for "${network}"; deploy it or set INDEXER_CONTRACT_ADDRESS`);
+  }
+  const rpcUrl = env.INDEXER_RPC_URL || (network === "localhost" ? "http://127.0.0.1:8545" : undefined);
+  if (!rpcUrl) {
+    throw new Error(`Set INDEXER_RPC_URL to an RPC endpoint for "${network}"`);
+  }
+
+  const sync: SyncOptions = {
+    contractAddress,
+    startBlock: Number(env.INDEXER_START_BLOCK ?? deployment?.blockNumber ?? 0),
+    // A hardhat node does not reorganise, a public chain can
+    confirmations: Number(env.INDEXER_CONFIRMATIONS ?? (network === "localhost" ? 0 : 3)),
+    batchSize: Number(env.INDEXER_BATCH_SIZE ?? 2_000),
+    keepBlocks: Number(env.INDEXER_KEEP_BLOCKS ?? 128),
+  };
+
+  return {
+    network,
+    rpcUrl,
+    sync,
+    database: env.INDEXER_DB || path.join(__dirname, "data", `${network}.sqlite`),
+    host: env.INDEXER_HOST || "127.0.0.1",
+    port: Number(env.INDEXER_PORT ?? 8787),
+    pollInterval: Number(env.INDEXER_POLL_INTERVAL ?? 4_000),
+    reset: env.INDEXER_RESET === "1",
+  };
+}
+
+async function main() {
+  const config = readConfig();
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const { chainId } = await provider.getNetwork();
+
+  const db = openStore(config.database, Number(chainId), config.sync.contractAddress);
+  if (config.reset) {
+    resetStore(db);
+  }
+
+  const context = {
+    db,
+    chainId: Number(chainId),
+    contractAddress: config.sync.contractAddress,
+    indexed: new EventEmitter(),
+  };
+  const server = createApiServer(context);
+  const subscriptions = attachSubscriptions(server, context);
+  server.listen(config.port, config.host, () => {
+    console.log(`Indexing VcIdFHE ${config.sync.contractAddress} on ${config.network} into ${config.database}`);
+    console.log(`API listening on http://${config.host}:${config.port}, GraphQL at /graphql`);
+  });
+
+  const controller = new AbortController();
+  const stop = () => {
+    controller.abort();
+    subscriptions.close();
+    server.close();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  await followChain(db, provider, config.sync, {
+    pollInterval: config.pollInterval,
+    signal: controller.signal,
+    onEvents: (events) => context.indexed.emit("events", events),
+  });
+  provider.destroy();
+  db.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
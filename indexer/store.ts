@@ -0,0 +1,604 @@
+// indexer/store.ts
+import Database from "better-sqlite3";
+import { getAddress } from "ethers";
+import fs from "fs";
+import path from "path";
+
+export type Store = Database.Database;
+
+export interface IndexedEvent {
+  name: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  // The credential or proof owner; for ProofRequestAnswered, the holder's pseudonym
+  holder: string | null;
+  issuer: string | null;
+  verifier: string | null;
+  credentialId: number | null;
+  policyHash: string | null;
+  requestId: string | null;
+  result: boolean | null;
+  // Arguments without a column of their own, such as an issuer's display name
+  data: Record<string, string | number | boolean>;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface IndexedCredential {
+  holder: string;
+  credentialId: number;
+  issuer: string;
+  blockNumber: number;
+  transactionHash: string;
+  issuedAt: number;
+  revokedAt: number | null;
+}
+
+export type IssuerStatus = "allowed" | "denied";
+
+export interface IndexedIssuer {
+  issuer: string;
+  status: IssuerStatus;
+  displayName: string | null;
+  allowedCredentialTypes: number;
+  updatedAt: number;
+  blockNumber: number;
+}
+
+export type ProofKind = "composite" | "policy";
+
+export interface IndexedProof {
+  // Block number and log index of the generation event
+  id: string;
+  kind: ProofKind;
+  holder: string;
+  policyHash: string | null;
+  blockNumber: number;
+  transactionHash: string;
+  generatedAt: number;
+  revealedAt: number | null;
+  // The revealed yes/no answer of a policy proof
+  result: boolean | null;
+}
+
+export interface IndexedProofRequest {
+  requestId: string;
+  verifier: string;
+  answerCount: number;
+  firstAnsweredAt: number;
+  lastAnsweredAt: number;
+}
+
+export interface TimeRange {
+  // Unix timestamps in seconds, inclusive
+  from?: number;
+  to?: number;
+}
+
+// An event's place in the chain; events are ordered by it
+export interface EventPosition {
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface EventQuery extends TimeRange {
+  // Only events past this one, for paging that new or dropped rows do not shift
+  after?: EventPosition;
+  names?: string[];
+  holder?: string;
+  issuer?: string;
+  verifier?: string;
+  requestId?: string;
+}
+
+export interface CredentialQuery extends TimeRange {
+  holder?: string;
+  issuer?: string;
+  revoked?: boolean;
+}
+
+export interface IssuerQuery {
+  issuer?: string;
+  status?: IssuerStatus;
+}
+
+export interface ProofQuery extends TimeRange {
+  holder?: string;
+  kind?: ProofKind;
+}
+
+export interface ProofRequestQuery {
+  requestId?: string;
+  verifier?: string;
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  // Matching rows across all pages
+  totalCount: number;
+}
+
+// Bump when the tables change; older databases are rebuilt from the deployment block
+const SCHEMA_VERSION = 2;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    holder TEXT,
+    issuer TEXT,
+    verifier TEXT,
+    credential_id INTEGER,
+    policy_hash TEXT,
+    request_id TEXT,
+    result INTEGER,
+    data TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_holder ON events (holder, timestamp);
+  CREATE INDEX IF NOT EXISTS events_issuer ON events (issuer, timestamp);
+  CREATE INDEX IF NOT EXISTS events_verifier ON events (verifier, timestamp);
+  CREATE INDEX IF NOT EXISTS events_name ON events (name, timestamp);
+  CREATE INDEX IF NOT EXISTS events_timestamp ON events (timestamp);
+  CREATE INDEX IF NOT EXISTS events_request ON events (request_id);
+
+  -- Credentials with their revocation, derived from the events so a rollback needs no bookkeeping
+  CREATE VIEW IF NOT EXISTS credentials AS
+    SELECT added.holder, added.credential_id, added.issuer, added.block_number, added.transaction_hash,
+      added.timestamp AS issued_at, MIN(revoked.timestamp) AS revoked_at
+    FROM events added
+    LEFT JOIN events revoked ON revoked.name = 'CredentialRevoked'
+      AND revoked.holder = added.holder AND revoked.credential_id = added.credential_id
+    WHERE added.name = 'CredentialAdded'
+    GROUP BY added.block_number, added.log_index;
+
+  -- Each issuer's latest registry event; the name and types come from its latest IssuerAllowed,
+  -- which a denial keeps in the contract's registry
+  CREATE VIEW IF NOT EXISTS issuers AS
+    SELECT latest.issuer, latest.name = 'IssuerAllowed' AS allowed, latest.timestamp AS updated_at,
+      latest.block_number, (
+        SELECT allowed.data FROM events allowed
+        WHERE allowed.issuer = latest.issuer AND allowed.name = 'IssuerAllowed'
+        ORDER BY allowed.block_number DESC, allowed.log_index DESC
+        LIMIT 1
+      ) AS data
+    FROM events latest
+    WHERE latest.name IN ('IssuerAllowed', 'IssuerDenied') AND NOT EXISTS (
+      SELECT 1 FROM events later
+      WHERE later.issuer = latest.issuer AND later.name IN ('IssuerAllowed', 'IssuerDenied')
+        AND (later.block_number, later.log_index) > (latest.block_number, latest.log_index)
+    );
+
+  -- Proofs with their reveal, if any. The contract reveals a holder's latest proof of a kind, so a
+  -- reveal only counts for a proof when no newer one was generated in between
+  CREATE VIEW IF NOT EXISTS proofs AS
+    SELECT generated.block_number, generated.log_index, generated.transaction_hash, generated.holder,
+      generated.policy_hash, generated.timestamp AS generated_at,
+      CASE generated.name WHEN 'ProofGenerated' THEN 'composite' ELSE 'policy' END AS kind,
+      revealed.timestamp AS revealed_at, revealed.result
+    FROM events generated
+    LEFT JOIN events revealed ON revealed.rowid = (
+      SELECT reveal.rowid FROM events reveal
+      WHERE reveal.name = CASE generated.name WHEN 'ProofGenerated' THEN 'ProofRevealed' ELSE 'PolicyProofRevealed' END
+        AND reveal.holder = generated.holder
+        AND (reveal.block_number, reveal.log_index) > (generated.block_number, generated.log_index)
+        AND NOT EXISTS (
+          SELECT 1 FROM events newer
+          WHERE newer.name = generated.name AND newer.holder = generated.holder
+            AND (newer.block_number, newer.log_index) > (generated.block_number, generated.log_index)
+            AND (newer.block_number, newer.log_index) < (reveal.block_number, reveal.log_index)
+        )
+      ORDER BY reveal.block_number, reveal.log_index
+      LIMIT 1
+    )
+    WHERE generated.name IN ('ProofGenerated', 'PolicyProofGenerated');
+
+  -- Proof requests are shared off-chain; the chain only sees the answers to them
+  CREATE VIEW IF NOT EXISTS proof_requests AS
+    SELECT request_id, verifier, COUNT(*) AS answer_count, MIN(timestamp) AS first_answered_at,
+      MAX(timestamp) AS last_answered_at, MIN(block_number) AS block_number
+    FROM events
+    WHERE name = 'ProofRequestAnswered'
+    GROUP BY request_id, verifier;
+`;
+
+const DROP_SCHEMA = `
+  DROP VIEW IF EXISTS proof_requests;
+  DROP VIEW IF EXISTS proofs;
+  DROP VIEW IF EXISTS issuers;
+  DROP VIEW IF EXISTS credentials;
+  DROP TABLE IF EXISTS events;
+  DROP TABLE IF EXISTS blocks;
+  DROP TABLE IF EXISTS meta;
+`;
+
+const lower = (address: string | undefined) => address?.toLowerCase();
+
+/**
+ * Opens (or creates) the index at `file`. The index belongs to one contract on one chain; opening
+ * it for another one fails rather than mixing their events.
+ */
+export function openStore(file: string, chainId: number, contractAddress: string): Store {
+  if (file !== ":memory:") {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+
+  const version = db.pragma("user_version", { simple: true }) as number;
+  if (version !== SCHEMA_VERSION) {
+    db.exec(DROP_SCHEMA);
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+  db.exec(SCHEMA);
+
+  const indexed = { chainId: getMeta(db, "chainId"), contract: getMeta(db, "contract") };
+  if (indexed.chainId === null) {
+    setMeta(db, "chainId", String(chainId));
+    setMeta(db, "contract", contractAddress.toLowerCase());
+  } else if (Number(indexed.chainId) !== chainId || indexed.contract !== contractAddress.toLowerCase()) {
+    db.close();
+    throw new Error(
+      `${file} indexes ${indexed.contract} on chain ${indexed.chainId}, not ${contractAddress} on chain ${chainId}`,
+    );
+  }
+  return db;
+}
+
+function getMeta(db: Store, key: string): string | null {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+function setMeta(db: Store, key: string, value: string) {
+  db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value").run(
+    key,
+    value,
+  );
+}
+
+/** The last block whose events are all in the index, or null before the first batch. */
+export function getCheckpoint(db: Store): IndexedBlock | null {
+  const number = getMeta(db, "checkpoint");
+  if (number === null) {
+    return null;
+  }
+  return (db.prepare("SELECT number, hash, timestamp FROM blocks WHERE number = ?").get(Number(number)) ??
+    null) as IndexedBlock | null;
+}
+
+/** Stored blocks at or below `blockNumber`, newest first: the candidates for a common ancestor after a reorg. */
+export function getRecentBlocks(db: Store, blockNumber: number): IndexedBlock[] {
+  return db
+    .prepare("SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC")
+    .all(blockNumber) as IndexedBlock[];
+}
+
+/**
+ * Stores a batch of events and moves the checkpoint to `checkpoint` in one transaction, so the
+ * index never holds part of a block range. Block hashes older than `keepBlocks` below the new
+ * checkpoint are pruned; a reorg deeper than that cannot be rolled back.
+ */
+export function saveBatch(
+  db: Store,
+  events: IndexedEvent[],
+  blocks: IndexedBlock[],
+  checkpoint: IndexedBlock,
+  keepBlocks: number,
+) {
+  const insertEvent = db.prepare(`
+    INSERT OR REPLACE INTO events (block_number, log_index, block_hash, transaction_hash, timestamp, name, holder,
+      issuer, verifier, credential_id, policy_hash, request_id, result, data)
+    VALUES (@blockNumber, @logIndex, @blockHash, @transactionHash, @timestamp, @name, @holder, @issuer, @verifier,
+      @credentialId, @policyHash, @requestId, @result, @data)
+  `);
+  const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)");
+
+  db.transaction(() => {
+    for (const event of events) {
+      insertEvent.run({
+        ...event,
+        holder: lower(event.holder ?? undefined) ?? null,
+        issuer: lower(event.issuer ?? undefined) ?? null,
+        verifier: lower(event.verifier ?? undefined) ?? null,
+        result: event.result === null ? null : Number(event.result),
+        data: JSON.stringify(event.data),
+      });
+    }
+    for (const block of [...blocks, checkpoint]) {
+      insertBlock.run(block.number, block.hash, block.timestamp);
+    }
+    setMeta(db, "checkpoint", String(checkpoint.number));
+    db.prepare("DELETE FROM blocks WHERE number < ?").run(checkpoint.number - keepBlocks);
+  })();
+}
+
+/** Drops everything indexed above `ancestor` and moves the checkpoint back to it. */
+export function rollback(db: Store, ancestor: IndexedBlock) {
+  db.transaction(() => {
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(ancestor.number);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(ancestor.number);
+    setMeta(db, "checkpoint", String(ancestor.number));
+  })();
+}
+
+/** Forgets the index entirely; the next sync starts over from the deployment block. */
+export function resetStore(db: Store) {
+  db.transaction(() => {
+    db.exec("DELETE FROM events; DELETE FROM blocks; DELETE FROM meta WHERE key = 'checkpoint';");
+  })();
+}
+
+// A query condition and its parameters; false leaves the condition out
+type Condition = false | [string, ...(string | number)[]];
+
+function where(conditions: Condition[]) {
+  const active = conditions.filter((condition): condition is [string, ...(string | number)[]] => condition !== false);
+  return {
+    sql: active.length ? "WHERE " + active.map(([sql]) => sql).join(" AND ") : "",
+    params: active.flatMap(([, ...params]) => params),
+  };
+}
+
+/** One page of `source` rows matching `conditions`, with the number of rows on all pages. */
+function selectPage<Row, T>(
+  db: Store,
+  source: string,
+  conditions: Condition[],
+  orderBy: string,
+  page: Page | undefined,
+  toItem: (row: Row) => T,
+): PageResult<T> {
+  const clause = where(conditions);
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${source} ${clause.sql}`).get(...clause.params) as {
+    total: number;
+  };
+  const rows = db
+    .prepare(`SELECT * FROM ${source} ${clause.sql} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+    .all(...clause.params, page?.limit ?? -1, page?.offset ?? 0) as Row[];
+  return { items: rows.map(toItem), totalCount: total };
+}
+
+const timeRange = (column: string, range: TimeRange): Condition[] => [
+  range.from !== undefined && [`${column} >= ?`, range.from],
+  range.to !== undefined && [`${column} <= ?`, range.to],
+];
+
+const checksum = (address: string | null) => (address === null ? null : getAddress(address));
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  transaction_hash: string;
+  timestamp: number;
+  name: string;
+  holder: string | null;
+  issuer: string | null;
+  verifier: string | null;
+  credential_id: number | null;
+  policy_hash: string | null;
+  request_id: string | null;
+  result: number | null;
+  data: string;
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    name: row.name,
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    logIndex: row.log_index,
+    transactionHash: row.transaction_hash,
+    timestamp: row.timestamp,
+    holder: checksum(row.holder),
+    issuer: checksum(row.issuer),
+    verifier: checksum(row.verifier),
+    credentialId: row.credential_id,
+    policyHash: row.policy_hash,
+    requestId: row.request_id,
+    result: row.result === null ? null : row.result === 1,
+    data: JSON.parse(row.data),
+  };
+}
+
+/** Events matching every given filter, oldest first. */
+export function queryEvents(db: Store, query: EventQuery, page?: Page): PageResult<IndexedEvent> {
+  return selectPage(
+    db,
+    "events",
+    [
+      !!query.names?.length && [`name IN (${query.names.map(() => "?").join(", ")})`, ...query.names],
+      !!query.holder && ["holder = ?", query.holder.toLowerCase()],
+      !!query.issuer && ["issuer = ?", query.issuer.toLowerCase()],
+      !!query.verifier && ["verifier = ?", query.verifier.toLowerCase()],
+      !!query.requestId && ["request_id = ?", query.requestId.toLowerCase()],
+      !!query.after && [
+        "(block_number > ? OR (block_number = ? AND log_index > ?))",
+        query.after.blockNumber,
+        query.after.blockNumber,
+        query.after.logIndex,
+      ],
+      ...timeRange("timestamp", query),
+    ],
+    "block_number, log_index",
+    page,
+    toEvent,
+  );
+}
+
+interface CredentialRow {
+  holder: string;
+  credential_id: number;
+  issuer: string;
+  block_number: number;
+  transaction_hash: string;
+  issued_at: number;
+  revoked_at: number | null;
+}
+
+/** Credentials issued to `holder` and/or by `issuer` within the time range, newest first. */
+export function queryCredentials(db: Store, query: CredentialQuery, page?: Page): PageResult<IndexedCredential> {
+  return selectPage(
+    db,
+    "credentials",
+    [
+      !!query.holder && ["holder = ?", query.holder.toLowerCase()],
+      !!query.issuer && ["issuer = ?", query.issuer.toLowerCase()],
+      query.revoked !== undefined && [query.revoked ? "revoked_at IS NOT NULL" : "revoked_at IS NULL"],
+      ...timeRange("issued_at", query),
+    ],
+    "block_number DESC, credential_id DESC",
+    page,
+    (row: CredentialRow): IndexedCredential => ({
+      holder: getAddress(row.holder),
+      credentialId: row.credential_id,
+      issuer: getAddress(row.issuer),
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash,
+      issuedAt: row.issued_at,
+      revokedAt: row.revoked_at,
+    }),
+  );
+}
+
+/** Addresses that hold or held a credential, in order of their first one. */
+export function queryHolders(db: Store, page?: Page): PageResult<string> {
+  return selectPage(
+    db,
+    "(SELECT holder, MIN(block_number) AS first_block FROM events WHERE name = 'CredentialAdded' GROUP BY holder)",
+    [],
+    "first_block, holder",
+    page,
+    (row: { holder: string }) => getAddress(row.holder),
+  );
+}
+
+interface IssuerRow {
+  issuer: string;
+  allowed: number;
+  data: string | null;
+  updated_at: number;
+  block_number: number;
+}
+
+/** Registered issuers with their latest status, in order of their last registry change. */
+export function queryIssuers(db: Store, query: IssuerQuery, page?: Page): PageResult<IndexedIssuer> {
+  return selectPage(
+    db,
+    "issuers",
+    [
+      !!query.issuer && ["issuer = ?", query.issuer.toLowerCase()],
+      query.status !== undefined && ["allowed = ?", query.status === "allowed" ? 1 : 0],
+    ],
+    "block_number, issuer",
+    page,
+    (row: IssuerRow): IndexedIssuer => {
+      const data = row.data === null ? {} : JSON.parse(row.data);
+      return {
+        issuer: getAddress(row.issuer),
+        status: row.allowed ? "allowed" : "denied",
+        displayName: data.displayName ?? null,
+        allowedCredentialTypes: data.allowedCredentialTypes ?? 0,
+        updatedAt: row.updated_at,
+        blockNumber: row.block_number,
+      };
+    },
+  );
+}
+
+interface ProofRow {
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+  holder: string;
+  policy_hash: string | null;
+  generated_at: number;
+  kind: ProofKind;
+  revealed_at: number | null;
+  result: number | null;
+}
+
+function toProof(row: ProofRow): IndexedProof {
+  return {
+    id: `${row.block_number}:${row.log_index}`,
+    kind: row.kind,
+    holder: getAddress(row.holder),
+    policyHash: row.policy_hash,
+    blockNumber: row.block_number,
+    transactionHash: row.transaction_hash,
+    generatedAt: row.generated_at,
+    revealedAt: row.revealed_at,
+    result: row.result === null ? null : row.result === 1,
+  };
+}
+
+/** Composite and policy proofs with their reveal, newest first. */
+export function queryProofs(db: Store, query: ProofQuery, page?: Page): PageResult<IndexedProof> {
+  return selectPage(
+    db,
+    "proofs",
+    [
+      !!query.holder && ["holder = ?", query.holder.toLowerCase()],
+      query.kind !== undefined && ["kind = ?", query.kind],
+      ...timeRange("generated_at", query),
+    ],
+    "block_number DESC, log_index DESC",
+    page,
+    toProof,
+  );
+}
+
+interface ProofRequestRow {
+  request_id: string;
+  verifier: string;
+  answer_count: number;
+  first_answered_at: number;
+  last_answered_at: number;
+}
+
+/** Proof requests that were answered at least once, newest first. */
+export function queryProofRequests(db: Store, query: ProofRequestQuery, page?: Page): PageResult<IndexedProofRequest> {
+  return selectPage(
+    db,
+    "proof_requests",
+    [
+      !!query.requestId && ["request_id = ?", query.requestId.toLowerCase()],
+      !!query.verifier && ["verifier = ?", query.verifier.toLowerCase()],
+    ],
+    "block_number DESC, request_id",
+    page,
+    (row: ProofRequestRow): IndexedProofRequest => ({
+      requestId: row.request_id,
+      verifier: getAddress(row.verifier),
+      answerCount: row.answer_count,
+      firstAnsweredAt: row.first_answered_at,
+      lastAnsweredAt: row.last_answered_at,
+    }),
+  );
+}
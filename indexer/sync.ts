@@ -0,0 +1,206 @@
+// indexer/sync.ts
+import type { Log, LogDescription, Provider } from "ethers";
+import { VcIdFHE__factory } from "../types";
+import {
+  getCheckpoint,
+  getRecentBlocks,
+  IndexedBlock,
+  IndexedEvent,
+  rollback,
+  saveBatch,
+  Store,
+} from "./store";
+
+export interface SyncOptions {
+  contractAddress: string;
+  // First block to index when the store is empty, normally the deployment block
+  startBlock: number;
+  // Blocks to stay behind the head; reorgs within them never reach the index
+  confirmations: number;
+  // Most blocks fetched per eth_getLogs call
+  batchSize: number;
+  // Block hashes kept for finding the common ancestor after a reorg
+  keepBlocks: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: IndexedEvent[];
+  // Blocks left before the index reaches head - confirmations
+  behind: number;
+}
+
+const vcId = VcIdFHE__factory.createInterface();
+
+// Events the API serves; ownership transfers and schema deactivations are left to the contract
+export const INDEXED_EVENTS = [
+  "CredentialAdded",
+  "CredentialRevoked",
+  "IssuerAllowed",
+  "IssuerDenied",
+  "SchemaRegistered",
+  "ProofGenerated",
+  "ProofRevealed",
+  "PolicyProofGenerated",
+  "PolicyProofRevealed",
+  "ProofRequestAnswered",
+];
+
+function toIndexedEvent(log: Log, parsed: LogDescription, timestamp: number): IndexedEvent {
+  const { args } = parsed;
+  const event: IndexedEvent = {
+    name: parsed.name,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    timestamp,
+    holder: null,
+    issuer: null,
+    verifier: null,
+    credentialId: null,
+    policyHash: null,
+    requestId: null,
+    result: null,
+    data: {},
+  };
+
+  switch (parsed.name) {
+    case "CredentialAdded":
+    case "CredentialRevoked":
+      return { ...event, holder: args.user, issuer: args.issuer, credentialId: Number(args.credentialId) };
+    case "IssuerAllowed":
+      return {
+        ...event,
+        issuer: args.issuer,
+        data: { displayName: args.displayName, allowedCredentialTypes: Number(args.allowedCredentialTypes) },
+      };
+    case "IssuerDenied":
+      return { ...event, issuer: args.issuer };
+    case "SchemaRegistered":
+      return {
+        ...event,
+        data: {
+          schemaId: Number(args.schemaId),
+          name: args.name,
+          credentialType: Number(args.credentialType),
+          definitionHash: args.definitionHash,
+        },
+      };
+    case "ProofGenerated":
+    case "ProofRevealed":
+      return { ...event, holder: args.user };
+    case "PolicyProofGenerated":
+      return { ...event, holder: args.user, policyHash: args.policyHash };
+    case "PolicyProofRevealed":
+      return { ...event, holder: args.user, policyHash: args.policyHash, result: args.result };
+    case "ProofRequestAnswered":
+      return { ...event, holder: args.pseudonym, verifier: args.verifier, requestId: args.requestId };
+    default:
+      throw new Error(`Unexpected event ${parsed.name}`);
+  }
+}
+
+async function getIndexedBlock(provider: Provider, blockNumber: number): Promise<IndexedBlock> {
+  const block = await provider.getBlock(blockNumber);
+  if (!block?.hash) {
+    throw new Error(`Block ${blockNumber} is not available from the RPC node`);
+  }
+  return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+}
+
+/**
+ * The newest stored block the chain still agrees with. It is the checkpoint itself unless the
+ * chain reorganised below it since the last batch.
+ */
+async function findCommonAncestor(db: Store, provider: Provider, checkpoint: IndexedBlock): Promise<IndexedBlock> {
+  for (const block of getRecentBlocks(db, checkpoint.number)) {
+    const current = await provider.getBlock(block.number);
+    if (current?.hash === block.hash) {
+      return block;
+    }
+  }
+  throw new Error(
+    `The chain no longer contains any of the indexed blocks up to ${checkpoint.number}; ` +
+      "the reorg is deeper than the stored block hashes or the node was reset. Restart with INDEXER_RESET=1",
+  );
+}
+
+/**
+ * Indexes the next batch of blocks up to head - confirmations. Before each batch the checkpoint's
+ * hash is compared with the chain; after a reorg the events above the common ancestor are dropped
+ * and indexed again from the new branch. Returns null when the index is caught up.
+ */
+export async function syncOnce(db: Store, provider: Provider, options: SyncOptions): Promise<SyncResult | null> {
+  let checkpoint = getCheckpoint(db);
+  if (checkpoint) {
+    const ancestor = await findCommonAncestor(db, provider, checkpoint);
+    if (ancestor.number !== checkpoint.number) {
+      console.log(`Reorg: rolling back from block ${checkpoint.number} to ${ancestor.number}`);
+      rollback(db, ancestor);
+      checkpoint = ancestor;
+    }
+  }
+
+  const target = (await provider.getBlockNumber()) - options.confirmations;
+  const fromBlock = checkpoint ? checkpoint.number + 1 : options.startBlock;
+  if (fromBlock > target) {
+    return null;
+  }
+  const toBlock = Math.min(target, fromBlock + options.batchSize - 1);
+
+  const logs = await provider.getLogs({ address: options.contractAddress, fromBlock, toBlock });
+  const blockNumbers = [...new Set([...logs.map((log) => log.blockNumber), toBlock])];
+  const blocks = new Map<number, IndexedBlock>();
+  for (const block of await Promise.all(blockNumbers.map((n) => getIndexedBlock(provider, n)))) {
+    blocks.set(block.number, block);
+  }
+
+  // A log from a block that has since been replaced means the chain moved during the batch;
+  // the next round finds the new branch
+  const stale = logs.find((log) => blocks.get(log.blockNumber)!.hash !== log.blockHash);
+  if (stale) {
+    throw new Error(`Block ${stale.blockNumber} changed while indexing blocks ${fromBlock}-${toBlock}`);
+  }
+
+  const events: IndexedEvent[] = [];
+  for (const log of logs) {
+    const parsed = vcId.parseLog(log);
+    if (parsed && INDEXED_EVENTS.includes(parsed.name)) {
+      events.push(toIndexedEvent(log, parsed, blocks.get(log.blockNumber)!.timestamp));
+    }
+  }
+
+  saveBatch(db, events, [...blocks.values()], blocks.get(toBlock)!, options.keepBlocks);
+  return { fromBlock, toBlock, events, behind: target - toBlock };
+}
+
+export interface FollowOptions {
+  pollInterval: number;
+  signal?: AbortSignal;
+  // Called with the events of every stored batch
+  onEvents?: (events: IndexedEvent[]) => void;
+}
+
+/** Keeps the index following the chain until `signal` aborts; RPC errors are logged and retried. */
+export async function followChain(db: Store, provider: Provider, options: SyncOptions, follow: FollowOptions) {
+  while (!follow.signal?.aborted) {
+    let caughtUp = true;
+    try {
+      const result = await syncOnce(db, provider, options);
+      if (result) {
+        console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events.length} events`);
+        caughtUp = result.behind === 0;
+        if (result.events.length > 0) {
+          follow.onEvents?.(result.events);
+        }
+      }
+    } catch (e) {
+      console.error(`Sync failed: ${e instanceof Error ? e.message : e}`);
+    }
+    if (caughtUp) {
+      await new Promise((resolve) => setTimeout(resolve, follow.pollInterval));
+    }
+  }
+}
@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export default function dist-queries() { return <div>Component</div>; }
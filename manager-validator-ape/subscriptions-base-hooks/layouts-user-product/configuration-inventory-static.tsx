@@ -1,3 +0,0 @@
-import { useState, useEffect } from 'react';
-
-interface environment-sms-commonProps { data: string }
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\manager-validator-ape\subscriptions-base-hooks\layouts-user-product\profile-local-simple.rs
-// Generated at: 2025-10-16T08:20:11.119Z
\ No newline at end of file
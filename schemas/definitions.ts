@@ -0,0 +1,79 @@
+// schemas/definitions.ts
+import type { CredentialSchemaDefinition } from "./schema";
+
+/**
+ * Schemas registered for every deployment. Changing a definition changes its hash, so
+ * publish a new version instead of editing one that is already registered.
+ */
+export const DEFAULT_SCHEMAS: CredentialSchemaDefinition[] = [
+  {
+    name: "IdentityV1",
+    version: 1,
+    credentialType: 1,
+    description: "Government identity document",
+    scoreField: "assuranceLevel",
+    fields: [
+      { name: "assuranceLevel", label: "Assurance Level", bits: 4, encoding: { kind: "uint" } },
+      {
+        name: "documentKind",
+        label: "Document Kind",
+        bits: 2,
+        encoding: { kind: "enum", values: ["passport", "national-id", "driver-license", "residence-permit"] },
+      },
+      { name: "over18", label: "Over 18", bits: 1, encoding: { kind: "bool" } },
+      { name: "birthDate", label: "Birth Date", bits: 16, encoding: { kind: "date" } },
+    ],
+  },
+  {
+    name: "DegreeV1",
+    version: 1,
+    credentialType: 2,
+    description: "Academic degree",
+    scoreField: "level",
+    fields: [
+      {
+        name: "level",
+        label: "Degree Level",
+        bits: 3,
+        encoding: { kind: "enum", values: ["none", "associate", "bachelor", "master", "doctorate"] },
+        claim: "degree.level",
+      },
+      { name: "graduationDate", label: "Graduation Date", bits: 16, encoding: { kind: "date" } },
+      { name: "honors", label: "Honors", bits: 1, encoding: { kind: "bool" } },
+    ],
+  },
+  {
+    name: "LicenseV1",
+    version: 1,
+    credentialType: 3,
+    description: "Professional license",
+    scoreField: "tier",
+    fields: [
+      { name: "tier", label: "License Tier", bits: 8, encoding: { kind: "uint" } },
+      { name: "issuedDate", label: "Issued Date", bits: 16, encoding: { kind: "date" } },
+      { name: "suspended", label: "Suspended", bits: 1, encoding: { kind: "bool" } },
+    ],
+  },
+  {
+    name: "CertificationV1",
+    version: 1,
+    credentialType: 4,
+    description: "Skills certification with an exam score",
+    scoreField: "examScore",
+    fields: [
+      { name: "examScore", label: "Exam Score", bits: 16, encoding: { kind: "uint" } },
+      { name: "certifiedOn", label: "Certified On", bits: 16, encoding: { kind: "date" } },
+    ],
+  },
+  {
+    name: "MembershipV1",
+    version: 1,
+    credentialType: 5,
+    description: "Organization membership",
+    scoreField: "tier",
+    fields: [
+      { name: "tier", label: "Membership Tier", bits: 8, encoding: { kind: "uint" } },
+      { name: "memberSince", label: "Member Since", bits: 16, encoding: { kind: "date" } },
+    ],
+  },
+];
@@ -0,0 +1,6 @@
+// schemas/index.ts
+export * from "./schema";
+export { DEFAULT_SCHEMAS } from "./definitions";
+export * from "./policy";
+export * from "./request";
+export * from "./pseudonym";
@@ -0,0 +1,204 @@
+// schemas/policy.ts
+import { AbiCoder, getAddress, keccak256, ZeroAddress } from "ethers";
+import { CredentialSchemaDefinition, encodeField, fieldLayout, FieldValue } from "./schema";
+
+/**
+ * Proof policies
+ * ==============
+ *
+ * A policy is a list of predicates a verifier wants proven about a holder's credentials. It is
+ * true when every predicate is met by at least one valid, unexpired credential of the named
+ * schema. Policies are plain JSON that refers to schemas and fields by name, e.g.
+ *
+ *   new PolicyBuilder("Adult with a license")
+ *     .where("IdentityV1", "birthDate", "lte", yearsAgo(18))
+ *     .require("LicenseV1", { issuer: "0x..." })
+ *     .build();
+ *
+ * `encodePolicy` resolves the names against the registered schemas into the `Predicate[]`
+ * argument of VcIdFHE.provePolicy, which evaluates them on ciphertexts into an ebool.
+ */
+
+export const MAX_POLICY_PREDICATES = 8;
+
+// Order of the VcIdFHE.PredicateOp enum
+export const PREDICATE_OPERATORS = ["eq", "ne", "gt", "gte", "lt", "lte", "in"] as const;
+
+export type PredicateOperator = (typeof PREDICATE_OPERATORS)[number];
+
+export const OPERATOR_SYMBOLS: Record<PredicateOperator, string> = {
+  eq: "=",
+  ne: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  in: "in",
+};
+
+export interface PolicyPredicate {
+  schema: string;
+  // Omitted for predicates that only require the credential to exist
+  field?: string;
+  op?: PredicateOperator;
+  value?: FieldValue | FieldValue[];
+  // Only credentials from this issuer count; any trusted issuer when omitted
+  issuer?: string;
+}
+
+export interface Policy {
+  name: string;
+  predicates: PolicyPredicate[];
+}
+
+/** A predicate as passed to VcIdFHE.provePolicy */
+export interface EncodedPredicate {
+  schemaId: number;
+  issuer: string;
+  fieldOffset: number;
+  fieldWidth: number;
+  op: number;
+  value: bigint;
+}
+
+/** A schema registered on-chain, with its local definition if one matches its hash */
+export interface PolicySchemaRef {
+  id: number;
+  definition?: CredentialSchemaDefinition;
+}
+
+const PREDICATE_TUPLE =
+  "tuple(uint256 schemaId, address issuer, uint8 fieldOffset, uint8 fieldWidth, uint8 op, uint64 value)[]";
+
+export class PolicyBuilder {
+  private readonly predicates: PolicyPredicate[] = [];
+
+  constructor(private readonly name: string) {}
+
+  /** Requires a valid credential of `schema` whose `field` compares to `value` by `op`. */
+  where(
+    schema: string,
+    field: string,
+    op: PredicateOperator,
+    value: FieldValue | FieldValue[],
+    options: { issuer?: string } = {},
+  ): this {
+    this.predicates.push({ schema, field, op, value, ...options });
+    return this;
+  }
+
+  /** Requires a valid credential of `schema`, whatever its claims. */
+  require(schema: string, options: { issuer?: string } = {}): this {
+    this.predicates.push({ schema, ...options });
+    return this;
+  }
+
+  build(): Policy {
+    return { name: this.name, predicates: [...this.predicates] };
+  }
+}
+
+/** The ISO date `years` before `now`, for age predicates on date fields. */
+export function yearsAgo(years: number, now = new Date()): string {
+  const date = new Date(now);
+  date.setUTCFullYear(date.getUTCFullYear() - years);
+  return date.toISOString().slice(0, 10);
+}
+
+export function serializePolicy(policy: Policy): string {
+  return JSON.stringify(policy, null, 2);
+}
+
+export function parsePolicy(text: string): Policy {
+  const policy = JSON.parse(text);
+  if (!policy || typeof policy.name !== "string" || !Array.isArray(policy.predicates)) {
+    throw new Error("A policy needs a name and a predicates array");
+  }
+  for (const predicate of policy.predicates) {
+    if (typeof predicate?.schema !== "string") {
+      throw new Error("Every predicate needs a schema name");
+    }
+    if (predicate.op !== undefined && !PREDICATE_OPERATORS.includes(predicate.op)) {
+      throw new Error(`Unknown predicate operator "${predicate.op}"`);
+    }
+  }
+  return policy;
+}
+
+function encodePredicate(predicate: PolicyPredicate, schemas: PolicySchemaRef[]): EncodedPredicate {
+  // The newest registration wins when a definition was registered more than once
+  const schema = [...schemas].reverse().find((candidate) => candidate.definition?.name === predicate.schema);
+  if (!schema?.definition) {
+    throw new Error(`Schema ${predicate.schema} is not registered`);
+  }
+
+  const encoded: EncodedPredicate = {
+    schemaId: schema.id,
+    issuer: predicate.issuer ? getAddress(predicate.issuer) : ZeroAddress,
+    fieldOffset: 0,
+    fieldWidth: 0,
+    op: 0,
+    value: 0n,
+  };
+  if (predicate.field === undefined) {
+    return encoded;
+  }
+
+  const layout = fieldLayout(schema.definition).find(({ field }) => field.name === predicate.field);
+  if (!layout) {
+    throw new Error(`Schema ${predicate.schema} has no field "${predicate.field}"`);
+  }
+  if (!predicate.op || predicate.value === undefined) {
+    throw new Error(`Predicate on ${predicate.schema}.${predicate.field} needs an operator and a value`);
+  }
+
+  encoded.fieldOffset = layout.offset;
+  encoded.fieldWidth = layout.field.bits;
+  encoded.op = PREDICATE_OPERATORS.indexOf(predicate.op);
+
+  if (predicate.op === "in") {
+    if (!Array.isArray(predicate.value) || predicate.value.length === 0) {
+      throw new Error(`"in" on ${predicate.schema}.${predicate.field} needs a list of values`);
+    }
+    if (layout.field.bits > 6) {
+      throw new Error(`"in" needs a field of at most 6 bits; ${predicate.field} has ${layout.field.bits}`);
+    }
+    encoded.value = predicate.value.reduce<bigint>((mask, value) => mask | (1n << encodeField(layout.field, value)), 0n);
+  } else {
+    if (Array.isArray(predicate.value)) {
+      throw new Error(`"${predicate.op}" on ${predicate.schema}.${predicate.field} needs a single value`);
+    }
+    encoded.value = encodeField(layout.field, predicate.value);
+  }
+  return encoded;
+}
+
+/** Resolves schema and field names into the on-chain predicate encoding. */
+export function encodePolicy(policy: Policy, schemas: PolicySchemaRef[]): EncodedPredicate[] {
+  if (policy.predicates.length === 0 || policy.predicates.length > MAX_POLICY_PREDICATES) {
+    throw new Error(`A policy needs between 1 and ${MAX_POLICY_PREDICATES} predicates`);
+  }
+  return policy.predicates.map((predicate) => encodePredicate(predicate, schemas));
+}
+
+/** The policy hash VcIdFHE records, keccak256(abi.encode(predicates)). */
+export function policyHash(predicates: EncodedPredicate[]): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      [PREDICATE_TUPLE],
+      [predicates.map((p) => [p.schemaId, p.issuer, p.fieldOffset, p.fieldWidth, p.op, p.value])],
+    ),
+  );
+}
+
+/** One line per predicate, e.g. "IdentityV1.birthDate ≤ 2007-10-19". */
+export function describePolicy(policy: Policy): string[] {
+  return policy.predicates.map((predicate) => {
+    const value = Array.isArray(predicate.value) ? `{${predicate.value.join(", ")}}` : String(predicate.value);
+    const claim =
+      predicate.field === undefined
+        ? `holds ${predicate.schema}`
+        : `${predicate.schema}.${predicate.field} ${OPERATOR_SYMBOLS[predicate.op ?? "eq"]} ${value}`;
+    return predicate.issuer ? `${claim} from ${predicate.issuer}` : claim;
+  });
+}
@@ -0,0 +1,61 @@
+// schemas/pseudonym.ts
+import { AbiCoder, getAddress, getBytes, hexlify, keccak256, randomBytes, Signer, Wallet } from "ethers";
+
+/**
+ * Per-verifier pseudonyms
+ * =======================
+ *
+ * Holders answer proof requests under a pseudonym per verifier, so each verifier's answers are
+ * stored under an address no other verifier sees. This does not make answers unlinkable: the
+ * answering transaction comes from the holder's wallet, which links every pseudonym to it.
+ *
+ * The pseudonym key is the keccak256 of the holder's wallet signature over a message naming the
+ * verifier and a random salt: only the salt needs remembering, and an externally owned account
+ * re-derives the same key from it, since it signs deterministically (RFC 6979). Smart-contract
+ * and MPC wallets need not, and derive a different key on each signature.
+ *
+ * The pseudonym key then signs VcIdFHE.pseudonymDigest(requestId, holder) for every answer.
+ */
+
+export interface Pseudonym {
+  verifier: string;
+  salt: string;
+  address: string;
+}
+
+export function pseudonymMessage(verifier: string, salt: string): string {
+  return [
+    "VcIdFHE pseudonym",
+    "",
+    "Sign to derive your pseudonym for this verifier. Only sign this on a site you trust.",
+    `Verifier: ${getAddress(verifier)}`,
+    `Salt: ${salt}`,
+  ].join("\n");
+}
+
+export function newPseudonymSalt(): string {
+  return hexlify(randomBytes(32));
+}
+
+/** The pseudonym wallet derived from the holder's signature of pseudonymMessage(verifier, salt). */
+export async function derivePseudonymWallet(holder: Signer, verifier: string, salt: string): Promise<Wallet> {
+  const signature = await holder.signMessage(pseudonymMessage(verifier, salt));
+  return new Wallet(keccak256(signature));
+}
+
+/** Signs the authorization VcIdFHE.respondToRequest checks, mirroring pseudonymDigest. */
+export function signPseudonymAuthorization(
+  pseudonym: Signer,
+  contractAddress: string,
+  chainId: bigint,
+  requestId: string,
+  holder: string,
+): Promise<string> {
+  const authorization = keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["address", "uint256", "bytes32", "address"],
+      [contractAddress, chainId, requestId, holder],
+    ),
+  );
+  return pseudonym.signMessage(getBytes(authorization));
+}
@@ -0,0 +1,143 @@
+// schemas/request.ts
+import { AbiCoder, getAddress, hexlify, keccak256, randomBytes } from "ethers";
+import { EncodedPredicate, encodePolicy, parsePolicy, Policy, PolicySchemaRef } from "./policy";
+
+/**
+ * Proof requests
+ * ==============
+ *
+ * A proof request is what a verifier hands to holders: a policy, an optional allowlist of
+ * issuers whose credentials count, and how old a proof may be when the verifier checks it.
+ * It travels off-chain (a link or QR code); the holder submits it to VcIdFHE.respondToRequest,
+ * which records the encrypted answer under the request id and emits ProofRequestAnswered.
+ *
+ * The predicates are resolved against the registered schemas when the request is created, so
+ * the id stays the same if newer schema versions are registered before the holder responds.
+ *
+ * The contract does not check freshness: it cannot know when the verifier reads an answer. It
+ * binds `freshness` and `createdAt` into the request id instead, so an answer recorded under the
+ * id of the verifier's own copy of the request was given to exactly those terms, and isFresh on
+ * that copy is the check that counts.
+ */
+
+export const MAX_REQUEST_ISSUERS = 16;
+
+export interface ProofRequest {
+  verifier: string;
+  policy: Policy;
+  predicates: EncodedPredicate[];
+  // Only credentials from these issuers count; any trusted issuer when empty
+  issuers: string[];
+  // Maximum age of the proof, in seconds, when the verifier checks it
+  freshness: number;
+  nonce: string;
+  createdAt: number;
+}
+
+const REQUEST_TUPLE =
+  "tuple(address verifier, tuple(uint256 schemaId, address issuer, uint8 fieldOffset, uint8 fieldWidth, " +
+  "uint8 op, uint64 value)[] predicates, address[] issuers, uint64 freshness, uint64 createdAt, bytes32 nonce)";
+
+/** Resolves `policy` against the registered schemas into a new request with a random nonce. */
+export function createProofRequest(
+  verifier: string,
+  policy: Policy,
+  schemas: PolicySchemaRef[],
+  options: { issuers?: string[]; freshness: number },
+): ProofRequest {
+  const issuers = (options.issuers ?? []).map((issuer) => getAddress(issuer));
+  if (issuers.length > MAX_REQUEST_ISSUERS) {
+    throw new Error(`A request can list at most ${MAX_REQUEST_ISSUERS} issuers`);
+  }
+  if (!Number.isInteger(options.freshness) || options.freshness <= 0) {
+    throw new Error("The freshness window must be a positive number of seconds");
+  }
+
+  return {
+    verifier: getAddress(verifier),
+    policy,
+    predicates: encodePolicy(policy, schemas),
+    issuers,
+    freshness: options.freshness,
+    nonce: hexlify(randomBytes(32)),
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/** The request as passed to VcIdFHE.respondToRequest */
+export function requestArgument(request: ProofRequest) {
+  return {
+    verifier: request.verifier,
+    predicates: request.predicates,
+    issuers: request.issuers,
+    freshness: request.freshness,
+    createdAt: request.createdAt,
+    nonce: request.nonce,
+  };
+}
+
+/** The request id VcIdFHE records, keccak256(abi.encode(request)). */
+export function proofRequestId(request: ProofRequest): string {
+  const predicates = request.predicates.map((p) => [p.schemaId, p.issuer, p.fieldOffset, p.fieldWidth, p.op, p.value]);
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      [REQUEST_TUPLE],
+      [[request.verifier, predicates, request.issuers, request.freshness, request.createdAt, request.nonce]],
+    ),
+  );
+}
+
+/** Whether a proof made at `provenAt` (unix seconds) is still inside the request's freshness window. */
+export function isFresh(request: ProofRequest, provenAt: number, now = Math.floor(Date.now() / 1000)): boolean {
+  return provenAt >= request.createdAt && now - provenAt <= request.freshness;
+}
+
+// Predicate values are uint64, so they are carried as decimal strings
+export function serializeProofRequest(request: ProofRequest): string {
+  return JSON.stringify(request, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+export function parseProofRequest(text: string): ProofRequest {
+  const request = JSON.parse(text);
+  if (!request || typeof request.verifier !== "string" || typeof request.nonce !== "string") {
+    throw new Error("A proof request needs a verifier and a nonce");
+  }
+  if (!Array.isArray(request.predicates) || !Array.isArray(request.issuers)) {
+    throw new Error("A proof request needs predicates and an issuer list");
+  }
+  if (typeof request.freshness !== "number" || typeof request.createdAt !== "number") {
+    throw new Error("A proof request needs a freshness window and a creation time");
+  }
+
+  return {
+    ...request,
+    verifier: getAddress(request.verifier),
+    policy: parsePolicy(JSON.stringify(request.policy)),
+    predicates: request.predicates.map((p: EncodedPredicate) => ({ ...p, value: BigInt(p.value) })),
+    issuers: request.issuers.map((issuer: string) => getAddress(issuer)),
+  };
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/** A link holders can open to respond, e.g. https://app.example/respond?request=... */
+export function proofRequestLink(request: ProofRequest, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set("request", toBase64Url(serializeProofRequest(request)));
+  return url.toString();
+}
+
+/** The request carried by the `request` parameter of a proof request link. */
+export function parseProofRequestParam(param: string): ProofRequest {
+  return parseProofRequest(fromBase64Url(param));
+}
@@ -0,0 +1,210 @@
+// schemas/schema.ts
+import { keccak256, toUtf8Bytes } from "ethers";
+
+/**
+ * Credential schema format
+ * ========================
+ *
+ * A schema declares the claim fields of one credential type and how they are packed into the
+ * encrypted `attributes` slot (a euint64) of a VcIdFHE credential. Fields are packed
+ * least-significant bit first, in declaration order. The credential type and expiry keep
+ * their own euint32 slots.
+ *
+ * The keccak256 of the canonical JSON of a definition is registered on-chain together with
+ * the position of its `scoreField`, which the proof engine weighs. Every issuer encoding
+ * with the same definition therefore produces the same bits.
+ */
+
+export const ATTRIBUTE_SLOT_BITS = 64;
+export const SCORE_FIELD_MAX_BITS = 32;
+
+const MILLIS_PER_DAY = 24 * 60 * 60 * 1000;
+// Dates count days from here, so birth dates before 1970 fit; 16 bits reach into 2079
+const DATE_EPOCH_MILLIS = Date.UTC(1900, 0, 1);
+// Wider uint fields are decoded to decimal strings instead of numbers, which would lose precision
+const MAX_NUMBER_BITS = 53;
+
+export type FieldEncoding =
+  // Unsigned integer; decoded as a decimal string when wider than 53 bits
+  | { kind: "uint" }
+  // 1 for true, 0 for false
+  | { kind: "bool" }
+  // Index into `values`
+  | { kind: "enum"; values: string[] }
+  // Whole days since 1900-01-01 UTC
+  | { kind: "date" };
+
+export interface SchemaField {
+  name: string;
+  label: string;
+  bits: number;
+  encoding: FieldEncoding;
+  // Dot-separated path of the claim in a W3C credentialSubject; defaults to `name`
+  claim?: string;
+}
+
+export interface CredentialSchemaDefinition {
+  name: string;
+  version: number;
+  // VcIdFHE credential type code this schema describes
+  credentialType: number;
+  description: string;
+  // Field the proof engine weighs; at most 32 bits wide
+  scoreField: string;
+  fields: SchemaField[];
+}
+
+export type FieldValue = number | boolean | string;
+
+export interface FieldLayout {
+  field: SchemaField;
+  offset: number;
+}
+
+/** Bit offsets of every field, in packing order. */
+export function fieldLayout(schema: CredentialSchemaDefinition): FieldLayout[] {
+  let offset = 0;
+  return schema.fields.map((field) => {
+    const layout = { field, offset };
+    offset += field.bits;
+    return layout;
+  });
+}
+
+export function scoreFieldLayout(schema: CredentialSchemaDefinition): { offset: number; width: number } {
+  const layout = fieldLayout(schema).find(({ field }) => field.name === schema.scoreField);
+  if (!layout) {
+    throw new Error(`Schema ${schema.name} has no score field "${schema.scoreField}"`);
+  }
+  return { offset: layout.offset, width: layout.field.bits };
+}
+
+/** Throws if the definition cannot be packed into the attributes slot. */
+export function validateSchema(schema: CredentialSchemaDefinition): void {
+  const names = new Set<string>();
+  let totalBits = 0;
+
+  for (const field of schema.fields) {
+    if (names.has(field.name)) {
+      throw new Error(`Schema ${schema.name} declares field "${field.name}" twice`);
+    }
+    names.add(field.name);
+
+    if (!Number.isInteger(field.bits) || field.bits < 1) {
+      throw new Error(`Field ${field.name} must be at least one bit wide`);
+    }
+    if (field.encoding.kind === "bool" && field.bits !== 1) {
+      throw new Error(`Boolean field ${field.name} must be one bit wide`);
+    }
+    if (field.encoding.kind === "enum" && field.encoding.values.length > 2 ** field.bits) {
+      throw new Error(`Enum field ${field.name} has more values than ${field.bits} bits can hold`);
+    }
+    totalBits += field.bits;
+  }
+
+  if (totalBits > ATTRIBUTE_SLOT_BITS) {
+    throw new Error(`Schema ${schema.name} needs ${totalBits} bits; the attributes slot holds ${ATTRIBUTE_SLOT_BITS}`);
+  }
+  if (!Number.isInteger(schema.credentialType) || schema.credentialType < 1 || schema.credentialType > 31) {
+    throw new Error(`Schema ${schema.name} has an invalid credential type code ${schema.credentialType}`);
+  }
+  if (scoreFieldLayout(schema).width > SCORE_FIELD_MAX_BITS) {
+    throw new Error(`Score field ${schema.scoreField} is wider than ${SCORE_FIELD_MAX_BITS} bits`);
+  }
+}
+
+/** JSON with object keys sorted, so equal definitions always hash the same. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** The definition hash registered on-chain for `schema`. */
+export function schemaHash(schema: CredentialSchemaDefinition): string {
+  return keccak256(toUtf8Bytes(canonicalJson(schema)));
+}
+
+export function encodeField(field: SchemaField, value: FieldValue): bigint {
+  let encoded: bigint;
+
+  switch (field.encoding.kind) {
+    case "bool":
+      encoded = value === true || value === "true" || value === 1 || value === "1" ? 1n : 0n;
+      break;
+    case "enum": {
+      const index = field.encoding.values.indexOf(String(value));
+      if (index < 0) {
+        throw new Error(`${field.label} must be one of ${field.encoding.values.join(", ")}`);
+      }
+      encoded = BigInt(index);
+      break;
+    }
+    case "date": {
+      const millis = typeof value === "number" ? value * 1000 : Date.parse(String(value));
+      if (Number.isNaN(millis) || millis < DATE_EPOCH_MILLIS) {
+        throw new Error(`${field.label} must be a date from 1900-01-01`);
+      }
+      encoded = BigInt(Math.floor((millis - DATE_EPOCH_MILLIS) / MILLIS_PER_DAY));
+      break;
+    }
+    case "uint":
+      // Strings are parsed exactly; numbers past 2^53 have already lost precision
+      if (typeof value === "string" && /^\d+$/.test(value.trim())) {
+        encoded = BigInt(value.trim());
+      } else if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) {
+        encoded = BigInt(value);
+      } else {
+        throw new Error(`${field.label} must be a non-negative integer`);
+      }
+      break;
+  }
+
+  if (encoded >= 1n << BigInt(field.bits)) {
+    throw new Error(`${field.label} does not fit in ${field.bits} bits`);
+  }
+  return encoded;
+}
+
+export function decodeField(field: SchemaField, encoded: bigint): FieldValue {
+  switch (field.encoding.kind) {
+    case "bool":
+      return encoded === 1n;
+    case "enum":
+      return field.encoding.values[Number(encoded)] ?? `#${encoded}`;
+    case "date":
+      return new Date(DATE_EPOCH_MILLIS + Number(encoded) * MILLIS_PER_DAY).toISOString().slice(0, 10);
+    case "uint":
+      return field.bits > MAX_NUMBER_BITS ? encoded.toString() : Number(encoded);
+  }
+}
+
+/** Packs field values into the attributes slot. Every declared field must be present. */
+export function encodeAttributes(schema: CredentialSchemaDefinition, values: Record<string, FieldValue>): bigint {
+  let packed = 0n;
+  for (const { field, offset } of fieldLayout(schema)) {
+    const value = values[field.name];
+    if (value === undefined || value === "") {
+      throw new Error(`${field.label} is required`);
+    }
+    packed |= encodeField(field, value) << BigInt(offset);
+  }
+  return packed;
+}
+
+export function decodeAttributes(schema: CredentialSchemaDefinition, packed: bigint): Record<string, FieldValue> {
+  const values: Record<string, FieldValue> = {};
+  for (const { field, offset } of fieldLayout(schema)) {
+    const mask = (1n << BigInt(field.bits)) - 1n;
+    values[field.name] = decodeField(field, (packed >> BigInt(offset)) & mask);
+  }
+  return values;
+}
@@ -0,0 +1,586 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { VcIdFHE } from "../types";
+import { getDeployedAddress } from "../deploy/manifest";
+import {
+  createProofRequest,
+  CredentialSchemaDefinition,
+  DEFAULT_SCHEMAS,
+  decodeAttributes,
+  derivePseudonymWallet,
+  describePolicy,
+  encodeAttributes,
+  encodePolicy,
+  newPseudonymSalt,
+  parsePolicy,
+  parseProofRequest,
+  parseProofRequestParam,
+  PolicySchemaRef,
+  proofRequestId,
+  proofRequestLink,
+  requestArgument,
+  schemaHash,
+  scoreFieldLayout,
+  serializeProofRequest,
+  signPseudonymAuthorization,
+  validateSchema,
+} from "../schemas";
+
+/**
+ * Tasks for operating a deployed VcIdFHE contract
+ * ===============================================
+ *
+ * Local node (mock decryption oracle):
+ *
+ *   npx hardhat node
+ *   npx hardhat run deploy/deploy.ts --network localhost
+ *   npx hardhat --network localhost vcid:issuer-allow --issuer <address> --name "Example University" --types 1,2
+ *   npx hardhat --network localhost vcid:issuers
+ *   npx hardhat --network localhost vcid:schemas
+ *   npx hardhat --network localhost vcid:add-credential --schema 2 --fields '{"level":"master","graduationDate":"2020-06-30","honors":true}'
+ *   npx hardhat --network localhost vcid:request-proof
+ *   npx hardhat --network localhost vcid:reveal
+ *   npx hardhat --network localhost vcid:prove-policy --policy policy.json
+ *   npx hardhat --network localhost vcid:reveal-policy
+ *   npx hardhat --network localhost vcid:proof-request-create --policy policy.json --freshness 3600 --out request.json
+ *   npx hardhat --network localhost vcid:proof-request-respond --request request.json
+ *   npx hardhat --network localhost vcid:proofs-for --pseudonym <address>
+ *   npx hardhat --network localhost vcid:status
+ *   npx hardhat --network localhost vcid:list --holder <address>
+ *   npx hardhat --network localhost vcid:revoke --holder <address> --id 0
+ *
+ * Only issuers allowed by the contract owner (the deployer) can add credentials. The deploy script
+ * registers the schemas in schemas/definitions.ts; vcid:schema-register adds new ones.
+ * The contract address defaults to deployments/<network>.json; pass --address to override it.
+ * On Sepolia the same commands wait for the Zama decryption oracle to call back. Against a local
+ * node they drive the plugin's mock oracle themselves; the frontend needs vcid:oracle instead.
+ */
+
+const CALLBACK_POLL_INTERVAL_MS = 5_000;
+const CALLBACK_TIMEOUT_MS = 10 * 60_000;
+const ISSUER_STATUS = ["unknown", "allowed", "denied"];
+
+/** Converts a comma-separated list of credential type codes (1-31) to the registry bitmask. */
+function parseCredentialTypes(types: string): number {
+  let mask = 0;
+  for (const entry of types.split(",")) {
+    const code = Number(entry.trim());
+    if (!Number.isInteger(code) || code < 1 || code > 31) {
+      throw new Error(`Invalid credential type code "${entry}"; expected 1-31`);
+    }
+    mask |= 1 << code;
+  }
+  return mask >>> 0;
+}
+
+function formatCredentialTypes(mask: bigint): string {
+  const codes = [];
+  for (let code = 1; code < 32; code++) {
+    if ((mask >> BigInt(code)) & 1n) {
+      codes.push(code);
+    }
+  }
+  return codes.join(",");
+}
+
+/** Reads a JSON file, or the argument itself when it is not a path. */
+function readJsonArgument(value: string): string {
+  return fs.existsSync(value) ? fs.readFileSync(value, "utf8") : value;
+}
+
+/** The local definition registered under `definitionHash`, if any. */
+function findLocalSchema(definitionHash: string): CredentialSchemaDefinition | undefined {
+  return DEFAULT_SCHEMAS.find((schema) => schemaHash(schema) === definitionHash);
+}
+
+/** Every registered schema, with its local definition where one matches. */
+async function getSchemaRefs(contract: VcIdFHE): Promise<PolicySchemaRef[]> {
+  const count = Number(await contract.getSchemaCount());
+  const refs: PolicySchemaRef[] = [];
+  for (let id = 1; id <= count; id++) {
+    const { definitionHash } = await contract.getSchema(id);
+    refs.push({ id, definition: findLocalSchema(definitionHash) });
+  }
+  return refs;
+}
+
+async function getVcIdContract(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, fhevm } = hre;
+
+  const deployedAddress = taskArguments.address ?? getDeployedAddress(hre.network.name, "VcIdFHE");
+  if (!deployedAddress) {
+    throw new Error(`No VcIdFHE deployment for network "${hre.network.name}"; deploy it or pass --address`);
+  }
+
+  await fhevm.initializeCLIApi();
+
+  const signers = await ethers.getSigners();
+  const signer = signers[taskArguments.signer ?? 0];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const address = ethers.getAddress(deployedAddress);
+  const contract = (await ethers.getContractAt("VcIdFHE", address)).connect(signer) as VcIdFHE;
+
+  return { contract, address, signer };
+}
+
+/**
+ * Waits until the decryption oracle has emitted `eventName` for `user` since `fromBlock`.
+ * In mock mode the plugin's oracle is driven directly instead of polling.
+ */
+async function waitForCallback(
+  hre: HardhatRuntimeEnvironment,
+  contract: VcIdFHE,
+  eventName: "ProofRevealed" | "PolicyProofRevealed",
+  user: string,
+  fromBlock: number,
+) {
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.awaitDecryptionOracle();
+  }
+
+  const filter =
+    eventName === "ProofRevealed" ? contract.filters.ProofRevealed(user) : contract.filters.PolicyProofRevealed(user);
+  const deadline = Date.now() + CALLBACK_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const events = await contract.queryFilter(filter, fromBlock);
+    if (events.length > 0) {
+      return events[events.length - 1];
+    }
+    console.log(`Waiting for ${eventName} callback...`);
+    await new Promise((resolve) => setTimeout(resolve, CALLBACK_POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Timed out waiting for ${eventName} for ${user}`);
+}
+
+task("vcid:add-credential", "Encrypts and adds a credential to a holder")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addOptionalParam("holder", "The credential holder (defaults to the signer)")
+  .addParam("schema", "The registered schema id", undefined, types.int)
+  .addOptionalParam("fields", "The claim fields as JSON, encoded with the schema's local definition")
+  .addOptionalParam("attributes", "The already packed attributes value, instead of --fields")
+  .addOptionalParam("expiry", "The expiry as a unix timestamp (defaults to one year from now)", undefined, types.int)
+  .addOptionalParam("signer", "Index of the issuing signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { contract, address, signer } = await getVcIdContract(hre, taskArguments);
+
+    const holder = taskArguments.holder ? hre.ethers.getAddress(taskArguments.holder) : signer.address;
+    const expiry = taskArguments.expiry ?? Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60;
+
+    let attributes: bigint;
+    if (taskArguments.fields) {
+      const { definitionHash } = await contract.getSchema(taskArguments.schema);
+      const schema = findLocalSchema(definitionHash);
+      if (!schema) {
+        throw new Error(`No local definition for schema #${taskArguments.schema}; pass --attributes instead`);
+      }
+      attributes = encodeAttributes(schema, JSON.parse(taskArguments.fields));
+    } else if (taskArguments.attributes !== undefined) {
+      attributes = BigInt(taskArguments.attributes);
+    } else {
+      throw new Error("Pass either --fields or --attributes");
+    }
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(address, signer.address)
+      .add64(attributes)
+      .add32(expiry)
+      .encrypt();
+
+    const tx = await contract.addCredential(
+      holder,
+      taskArguments.schema,
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const count = await contract.getCredentialCount(holder);
+    console.log(`Credential #${count - 1n} added for ${holder} by issuer ${signer.address}`);
+  });
+
+task("vcid:revoke", "Revokes a credential issued by the signer")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("holder", "The credential holder")
+  .addParam("id", "The credential id", undefined, types.int)
+  .addOptionalParam("signer", "Index of the issuing signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    const holder = hre.ethers.getAddress(taskArguments.holder);
+    const tx = await contract.revokeCredential(holder, taskArguments.id);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Credential #${taskArguments.id} of ${holder} revoked`);
+  });
+
+task("vcid:request-proof", "Computes the encrypted composite proof over the holder's credentials")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addOptionalParam("signer", "Index of the holder signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    // Reverts with "No eligible credentials" when no valid credential from a trusted issuer counts
+    const tx = await contract.requestProofGeneration();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log("Proof stored");
+  });
+
+task("vcid:reveal", "Requests the reveal of the composite proof and prints the revealed score")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addOptionalParam("signer", "Index of the holder signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await getVcIdContract(hre, taskArguments);
+
+    const tx = await contract.requestProofReveal();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const event = await waitForCallback(hre, contract, "ProofRevealed", signer.address, receipt!.blockNumber);
+    console.log(`ProofRevealed in tx:${event.transactionHash}`);
+
+    const proof = await contract.getProof(signer.address);
+    console.log(`Revealed composite score: ${proof.revealedScore}`);
+  });
+
+task("vcid:prove-policy", "Proves a policy over the holder's credentials and decrypts the encrypted answer")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("policy", "A policy JSON file, or the policy JSON itself")
+  .addOptionalParam("signer", "Index of the holder signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { contract, address, signer } = await getVcIdContract(hre, taskArguments);
+
+    const policy = parsePolicy(readJsonArgument(taskArguments.policy));
+    console.log(`Policy "${policy.name}":`);
+    describePolicy(policy).forEach((line) => console.log(`   ${line}`));
+
+    const predicates = encodePolicy(policy, await getSchemaRefs(contract));
+    const tx = await contract.provePolicy(predicates);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const proof = await contract.getPolicyProof(signer.address);
+    console.log(`Policy hash     : ${proof.policyHash}`);
+    const result = await fhevm.userDecryptEbool(proof.encryptedResult, address, signer);
+    console.log(`Decrypted answer: ${result ? "yes" : "no"} (not public until vcid:reveal-policy)`);
+  });
+
+task("vcid:reveal-policy", "Publicly reveals the yes/no answer of the holder's latest policy proof")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addOptionalParam("signer", "Index of the holder signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await getVcIdContract(hre, taskArguments);
+
+    const tx = await contract.requestPolicyReveal();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const event = await waitForCallback(hre, contract, "PolicyProofRevealed", signer.address, receipt!.blockNumber);
+    console.log(`PolicyProofRevealed in tx:${event.transactionHash}`);
+
+    const proof = await contract.getPolicyProof(signer.address);
+    console.log(`Policy ${proof.policyHash}: ${proof.revealedResult ? "satisfied" : "not satisfied"}`);
+  });
+
+task("vcid:proof-request-create", "Creates a verifier proof request and prints its id and share link")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("policy", "A policy JSON file, or the policy JSON itself")
+  .addOptionalParam("issuers", "Comma-separated issuer allowlist (defaults to any trusted issuer)")
+  .addOptionalParam("freshness", "Maximum proof age in seconds", 86_400, types.int)
+  .addOptionalParam("baseUrl", "Frontend URL the share link points to", "http://localhost:5173/respond")
+  .addOptionalParam("out", "Write the request JSON to this file")
+  .addOptionalParam("signer", "Index of the verifier signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await getVcIdContract(hre, taskArguments);
+
+    const policy = parsePolicy(readJsonArgument(taskArguments.policy));
+    const issuers = taskArguments.issuers ? taskArguments.issuers.split(",").map((issuer: string) => issuer.trim()) : [];
+    const request = createProofRequest(signer.address, policy, await getSchemaRefs(contract), {
+      issuers,
+      freshness: taskArguments.freshness,
+    });
+
+    console.log(`Request id: ${proofRequestId(request)}`);
+    console.log(`Share link: ${proofRequestLink(request, taskArguments.baseUrl)}`);
+    if (taskArguments.out) {
+      fs.writeFileSync(taskArguments.out, serializeProofRequest(request) + "\n");
+      console.log(`Request written to ${taskArguments.out}`);
+    }
+  });
+
+task("vcid:proof-request-respond", "Answers a verifier proof request; only the verifier can decrypt the answer")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("request", "A request JSON file, the request JSON itself, or a share link")
+  .addOptionalParam("salt", "Pseudonym salt for this verifier (a new one is generated and printed if omitted)")
+  .addOptionalParam("signer", "Index of the holder signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, address, signer } = await getVcIdContract(hre, taskArguments);
+
+    const param = URL.canParse(taskArguments.request)
+      ? new URL(taskArguments.request).searchParams.get("request")
+      : null;
+    const request = param ? parseProofRequestParam(param) : parseProofRequest(readJsonArgument(taskArguments.request));
+    console.log(`Request from ${request.verifier}, "${request.policy.name}":`);
+    describePolicy(request.policy).forEach((line) => console.log(`   ${line}`));
+
+    // Reusing the salt keeps the same pseudonym for this verifier
+    const salt = taskArguments.salt ?? newPseudonymSalt();
+    const pseudonym = await derivePseudonymWallet(signer, request.verifier, salt);
+    console.log(`Pseudonym ${pseudonym.address} (salt ${salt})`);
+
+    const requestId = proofRequestId(request);
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const signature = await signPseudonymAuthorization(pseudonym, address, chainId, requestId, signer.address);
+    const tx = await contract.respondToRequest(requestArgument(request), pseudonym.address, signature);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const proof = await contract.getVerifierProof(pseudonym.address, request.verifier, requestId);
+    console.log(`Answered request ${proof.requestId}; run vcid:proofs-for as the verifier to decrypt it`);
+  });
+
+task("vcid:proofs-for", "Lists and decrypts a pseudonym's answers to the signer's proof requests")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("pseudonym", "The holder pseudonym whose answers to list")
+  .addOptionalParam("signer", "Index of the verifier signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { contract, address, signer } = await getVcIdContract(hre, taskArguments);
+
+    const pseudonym = hre.ethers.getAddress(taskArguments.pseudonym);
+    const proofs = await contract.getProofsFor(pseudonym, signer.address);
+    if (proofs.length === 0) {
+      console.log(`${pseudonym} has not answered any request of ${signer.address}`);
+      return;
+    }
+    for (const proof of proofs) {
+      const result = await fhevm.userDecryptEbool(proof.encryptedResult, address, signer);
+      const provenAt = new Date(Number(proof.timestamp) * 1000).toISOString();
+      console.log(`${proof.requestId}  ${provenAt}  ${result ? "pass" : "fail"}`);
+    }
+  });
+
+task("vcid:status", "Prints the credential and proof state of a holder")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addOptionalParam("holder", "The holder to inspect (defaults to the signer)")
+  .addOptionalParam("signer", "Index of the signer used for user decryption", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { contract, address, signer } = await getVcIdContract(hre, taskArguments);
+
+    const holder = taskArguments.holder ? hre.ethers.getAddress(taskArguments.holder) : signer.address;
+    const count = await contract.getCredentialCount(holder);
+    const hasProof = await contract.hasProof(holder);
+    const proof = await contract.getProof(holder);
+
+    console.log(`Holder          : ${holder}`);
+    console.log(`Credentials     : ${count}`);
+    console.log(`Proof generated : ${hasProof}`);
+
+    if (!hasProof) {
+      return;
+    }
+
+    console.log(`Proof timestamp : ${new Date(Number(proof.timestamp) * 1000).toISOString()}`);
+    console.log(`Proof revealed  : ${proof.isRevealed}`);
+
+    if (proof.isRevealed) {
+      console.log(`Revealed score  : ${proof.revealedScore}`);
+      return;
+    }
+
+    try {
+      const clearScore = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        proof.encryptedCompositeScore,
+        address,
+        signer,
+      );
+      console.log(`Decrypted score : ${clearScore}`);
+    } catch {
+      console.log(`Encrypted score : ${proof.encryptedCompositeScore} (no decryption access for ${signer.address})`);
+    }
+  });
+
+task("vcid:list", "Lists the credentials of a holder")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addOptionalParam("holder", "The holder to inspect (defaults to the signer)")
+  .addFlag("decrypt", "User-decrypt the credential values with the signer's keys")
+  .addOptionalParam("signer", "Index of the signer used for user decryption", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { contract, address, signer } = await getVcIdContract(hre, taskArguments);
+
+    const holder = taskArguments.holder ? hre.ethers.getAddress(taskArguments.holder) : signer.address;
+    const count = await contract.getCredentialCount(holder);
+    console.log(`${count} credential(s) for ${holder}`);
+
+    for (let i = 0n; i < count; i++) {
+      const credential = await contract.getCredential(holder, i);
+      const issuedAt = new Date(Number(credential.timestamp) * 1000).toISOString();
+      console.log(
+        `#${i} issuer=${credential.issuer} schema=${credential.schemaId} issuedAt=${issuedAt}` +
+          (credential.revoked ? " REVOKED" : ""),
+      );
+
+      if (!taskArguments.decrypt) {
+        console.log(`   type=${credential.credentialType}`);
+        console.log(`   attributes=${credential.attributes}`);
+        console.log(`   expiry=${credential.expiry}`);
+        continue;
+      }
+
+      const [credentialType, attributes, expiry] = await Promise.all([
+        fhevm.userDecryptEuint(FhevmType.euint32, credential.credentialType, address, signer),
+        fhevm.userDecryptEuint(FhevmType.euint64, credential.attributes, address, signer),
+        fhevm.userDecryptEuint(FhevmType.euint32, credential.expiry, address, signer),
+      ]);
+      console.log(`   type=${credentialType} attributes=${attributes} expiry=${expiry}`);
+
+      const schema = findLocalSchema((await contract.getSchema(credential.schemaId)).definitionHash);
+      if (schema) {
+        console.log(`   ${schema.name} ${JSON.stringify(decodeAttributes(schema, attributes))}`);
+      }
+    }
+  });
+
+task("vcid:issuer-allow", "Allows an issuer, or updates its display name and credential types (owner only)")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("issuer", "The issuer address")
+  .addParam("name", "The issuer display name")
+  .addParam("types", "Comma-separated credential type codes the issuer may issue, e.g. 1,2")
+  .addOptionalParam("signer", "Index of the owner signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    const issuer = hre.ethers.getAddress(taskArguments.issuer);
+    const mask = parseCredentialTypes(taskArguments.types);
+
+    const tx = await contract.allowIssuer(issuer, taskArguments.name, mask);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Issuer ${issuer} allowed as "${taskArguments.name}" for types ${formatCredentialTypes(BigInt(mask))}`);
+  });
+
+task("vcid:issuer-deny", "Denies an issuer; its credentials stop counting towards proofs (owner only)")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("issuer", "The issuer address")
+  .addOptionalParam("signer", "Index of the owner signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    const issuer = hre.ethers.getAddress(taskArguments.issuer);
+    const tx = await contract.denyIssuer(issuer);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Issuer ${issuer} denied`);
+  });
+
+task("vcid:issuers", "Lists the issuer registry")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    console.log(`Owner: ${await contract.owner()}`);
+    const issuers = await contract.getIssuers();
+    console.log(`${issuers.length} issuer(s)`);
+
+    for (const issuer of issuers) {
+      const info = await contract.getIssuer(issuer);
+      console.log(`${issuer} ${ISSUER_STATUS[Number(info.status)]} "${info.displayName}"`);
+      console.log(`   types=${formatCredentialTypes(info.allowedCredentialTypes)}`);
+      console.log(`   updatedAt=${new Date(Number(info.updatedAt) * 1000).toISOString()}`);
+    }
+  });
+
+task("vcid:schemas", "Lists the registered credential schemas")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    const count = await contract.getSchemaCount();
+    console.log(`${count} schema(s)`);
+
+    for (let id = 1n; id <= count; id++) {
+      const schema = await contract.getSchema(id);
+      const local = findLocalSchema(schema.definitionHash);
+      console.log(`#${id} ${schema.name} type=${schema.credentialType}${schema.active ? "" : " INACTIVE"}`);
+      console.log(`   score=bits ${schema.scoreOffset}..${schema.scoreOffset + schema.scoreWidth - 1n}`);
+      console.log(`   hash=${schema.definitionHash}${local ? "" : " (no local definition)"}`);
+      if (local) {
+        console.log(`   fields=${local.fields.map((field) => `${field.name}:${field.encoding.kind}/${field.bits}`).join(" ")}`);
+      }
+    }
+  });
+
+task("vcid:schema-register", "Registers schemas from schemas/definitions.ts (owner only)")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addOptionalParam("name", "The schema name, e.g. DegreeV1")
+  .addFlag("all", "Register every definition that is not registered yet")
+  .addOptionalParam("signer", "Index of the owner signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    const selected = taskArguments.all
+      ? DEFAULT_SCHEMAS
+      : DEFAULT_SCHEMAS.filter((schema) => schema.name === taskArguments.name);
+    if (selected.length === 0) {
+      throw new Error(taskArguments.name ? `No schema definition named "${taskArguments.name}"` : "Pass --name or --all");
+    }
+
+    for (const schema of selected) {
+      validateSchema(schema);
+      const hash = schemaHash(schema);
+      const existing = await contract.schemaIdByHash(hash);
+      if (existing !== 0n) {
+        console.log(`${schema.name} already registered as #${existing}`);
+        continue;
+      }
+
+      const { offset, width } = scoreFieldLayout(schema);
+      const tx = await contract.registerSchema(schema.name, schema.credentialType, offset, width, hash);
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`${schema.name} registered as #${await contract.schemaIdByHash(hash)}`);
+    }
+  });
+
+task("vcid:schema-deactivate", "Stops new credentials from using a schema (owner only)")
+  .addOptionalParam("address", "The VcIdFHE contract address (defaults to the network's deployment manifest)")
+  .addParam("id", "The schema id", undefined, types.int)
+  .addOptionalParam("signer", "Index of the owner signer", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getVcIdContract(hre, taskArguments);
+
+    const tx = await contract.deactivateSchema(taskArguments.id);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Schema #${taskArguments.id} deactivated`);
+  });
@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { readAllManifests, readManifest, writeFrontendConfig } from "../deploy/manifest";
+
+/**
+ * Frontend artifact export
+ * ========================
+ *
+ * Writes everything the web app needs from the contracts workspace into frontend/web/src:
+ *
+ *   abi/<Contract>.json          contract name and ABI from the compiled artifact
+ *   typechain/                   ethers-v6 typings and factories copied from types/
+ *   deployments.json             every recorded deployments/<network>.json manifest
+ *
+ * Schema definitions and codecs are not copied: the app imports schemas/ through its
+ * `@vcid/schemas` alias (frontend/web/vite.config.ts).
+ *
+ * The output depends only on the compiled artifacts and the manifests, so running the export
+ * twice yields identical files. `--check` compares instead of writing and fails on drift:
+ *
+ *   npx hardhat vcid:export
+ *   npx hardhat vcid:export --check
+ */
+
+const EXPORTED_CONTRACTS = ["VcIdFHE"];
+
+const ROOT_DIR = path.join(__dirname, "..");
+const TYPECHAIN_DIR = path.join(ROOT_DIR, "types");
+const FRONTEND_SRC_DIR = path.join(ROOT_DIR, "frontend", "web", "src");
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + "\n";
+}
+
+function readTypechainFile(relativePath: string): string {
+  const file = path.join(TYPECHAIN_DIR, relativePath);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing typechain output ${file}; run npx hardhat typechain`);
+  }
+  return fs.readFileSync(file, "utf8");
+}
+
+/** Builds the exported files, keyed by path relative to frontend/web/src. */
+async function buildFrontendFiles(hre: HardhatRuntimeEnvironment): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  const typechainIndex = ["/* Autogenerated file. Do not edit manually. */", "/* tslint:disable */", "/* eslint-disable */"];
+
+  files.set("typechain/common.ts", readTypechainFile("common.ts"));
+
+  for (const contractName of EXPORTED_CONTRACTS) {
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    files.set(`abi/${contractName}.json`, toJson({ contractName: artifact.contractName, abi: artifact.abi }));
+
+    const typesPath = `contracts/${contractName}.ts`;
+    const factoryPath = `factories/contracts/${contractName}__factory.ts`;
+    files.set(`typechain/${typesPath}`, readTypechainFile(typesPath));
+    files.set(`typechain/${factoryPath}`, readTypechainFile(factoryPath));
+
+    typechainIndex.push(`export type { ${contractName} } from "./contracts/${contractName}";`);
+    typechainIndex.push(`export { ${contractName}__factory } from "./factories/contracts/${contractName}__factory";`);
+  }
+
+  files.set("typechain/index.ts", typechainIndex.join("\n") + "\n");
+  files.set("deployments.json", toJson(readAllManifests()));
+
+  return files;
+}
+
+task("vcid:export", "Exports ABIs, typechain bindings and deployment manifests to the frontend")
+  .addFlag("check", "Fail if the frontend copies are missing or out of date instead of writing them")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.run("compile", { quiet: true });
+
+    const files = await buildFrontendFiles(hre);
+
+    if (taskArguments.check) {
+      const stale = [...files.entries()]
+        .filter(([relativePath, contents]) => {
+          const file = path.join(FRONTEND_SRC_DIR, relativePath);
+          return !fs.existsSync(file) || fs.readFileSync(file, "utf8") !== contents;
+        })
+        .map(([relativePath]) => relativePath);
+
+      if (stale.length > 0) {
+        throw new Error(
+          `Frontend artifacts are out of date: ${stale.join(", ")}; run npx hardhat vcid:export`,
+        );
+      }
+      console.log(`Frontend artifacts are up to date (${files.size} files)`);
+      return;
+    }
+
+    for (const [relativePath, contents] of files) {
+      const file = path.join(FRONTEND_SRC_DIR, relativePath);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, contents);
+    }
+    console.log(`Exported ${files.size} files to ${FRONTEND_SRC_DIR}`);
+  });
+
+task("vcid:frontend-config", "Writes the frontend config from the selected network's deployment manifest").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const manifest = readManifest(hre.network.name);
+    if (!manifest) {
+      throw new Error(`No deployment manifest for network "${hre.network.name}"`);
+    }
+
+    const configFile = writeFrontendConfig(manifest);
+    console.log(`Frontend config for ${manifest.network} (chainId ${manifest.chainId}) written to ${configFile}`);
+  },
+);
@@ -0,0 +1,175 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { Interface, Log } from "ethers";
+
+/**
+ * Local decryption oracle
+ * =======================
+ *
+ * On Sepolia the Zama relayer watches the DecryptionOracle contract and calls contracts back with
+ * the cleartexts they asked for (VcIdFHE.finalizeReveal and finalizePolicyReveal). A plain hardhat
+ * node has nobody doing that, so this task stands in for it while developing against localhost:
+ *
+ *   npx hardhat node
+ *   npx hardhat --network localhost vcid:oracle
+ *
+ * For every DecryptionRequest it reads the cleartexts from the node's mock coprocessor, has the
+ * node sign them with its mock KMS keys and sends the callback the way the relayer formats it:
+ * abi.encode(requestID, cleartexts, decryptionProof), where the proof packs the signer count, the
+ * signatures and the extra data. Requests the contract already marked fulfilled are skipped, so
+ * tasks that drive the plugin's oracle themselves can run alongside it.
+ */
+
+const DECRYPTION_ORACLE_EVENTS = [
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, " +
+    "bytes4 callbackSelector)",
+];
+// Emitted by the calling contract from FHE.checkSignatures once a callback is accepted
+const DECRYPTION_FULFILLED_EVENTS = ["event DecryptionFulfilled(uint256 indexed requestID)"];
+// Extra data version 0, as sent by the relayer
+const EXTRA_DATA_V0 = "0x00";
+
+interface DecryptionRequest {
+  requestId: bigint;
+  handles: string[];
+  contractCaller: string;
+  callbackSelector: string;
+  blockNumber: number;
+}
+
+interface RelayerMetadata {
+  chainId: number;
+  DecryptionOracleAddress: string;
+}
+
+async function getRelayerMetadata(hre: HardhatRuntimeEnvironment): Promise<RelayerMetadata> {
+  try {
+    return await hre.ethers.provider.send("fhevm_relayer_metadata", []);
+  } catch {
+    throw new Error("The node does not run the FHEVM mock; start it with npx hardhat node");
+  }
+}
+
+function toDecryptionRequest(oracle: Interface, log: Log): DecryptionRequest {
+  const { args } = oracle.parseLog(log)!;
+  return {
+    requestId: args.requestID,
+    handles: [...args.cts],
+    contractCaller: args.contractCaller,
+    callbackSelector: args.callbackSelector,
+    blockNumber: log.blockNumber,
+  };
+}
+
+/** Function names by selector across the compiled contracts, to name the callbacks in the log. */
+async function getFunctionNames(hre: HardhatRuntimeEnvironment): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const { abi } = await hre.artifacts.readArtifact(name);
+    new hre.ethers.Interface(abi).forEachFunction((fragment) => names.set(fragment.selector, fragment.name));
+  }
+  return names;
+}
+
+async function isFulfilled(hre: HardhatRuntimeEnvironment, request: DecryptionRequest): Promise<boolean> {
+  const fulfilled = new hre.ethers.Interface(DECRYPTION_FULFILLED_EVENTS);
+  const logs = await hre.ethers.provider.getLogs({
+    address: request.contractCaller,
+    topics: fulfilled.encodeFilterTopics("DecryptionFulfilled", [request.requestId]),
+    fromBlock: request.blockNumber,
+  });
+  return logs.length > 0;
+}
+
+/** Decrypts the request's handles with the node's mock keys and sends the callback. */
+async function fulfill(hre: HardhatRuntimeEnvironment, request: DecryptionRequest, signerIndex: number) {
+  const { ethers } = hre;
+
+  const clearTexts: string[] = await ethers.provider.send("fhevm_getClearText", [request.handles]);
+  const unknown = request.handles.filter((_, i) => clearTexts[i] === "0x");
+  if (unknown.length > 0) {
+    throw new Error(`The mock coprocessor has no cleartext for ${unknown.join(", ")}`);
+  }
+
+  const { decryptedResult, signatures }: { decryptedResult: string; signatures: string[] } =
+    await ethers.provider.send("fhevm_createDecryptionSignatures", [
+      { handlesBytes32Hex: request.handles, clearTextValuesHex: clearTexts, extraData: EXTRA_DATA_V0 },
+    ]);
+
+  // The KMS signs the abi-encoded values followed by the signatures offset word; FHE.checkSignatures
+  // appends that word itself, so the callback receives the values only
+  const cleartexts = ethers.dataSlice(decryptedResult, 0, ethers.dataLength(decryptedResult) - 32);
+  const signerCount = ethers.solidityPacked(["uint8"], [signatures.length]);
+  const decryptionProof = ethers.concat([signerCount, ...signatures, EXTRA_DATA_V0]);
+  const calldata = ethers.concat([
+    request.callbackSelector,
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint256", "bytes", "bytes"],
+      [request.requestId, cleartexts, decryptionProof],
+    ),
+  ]);
+
+  const signer = (await ethers.getSigners())[signerIndex];
+  if (!signer) {
+    throw new Error(`No signer at index ${signerIndex}`);
+  }
+  const tx = await signer.sendTransaction({ to: request.contractCaller, data: calldata });
+  const receipt = await tx.wait();
+  return { clearTexts, transactionHash: tx.hash, blockNumber: receipt!.blockNumber };
+}
+
+task("vcid:oracle", "Fulfills decryption requests on a local hardhat node, standing in for the Zama relayer")
+  .addOptionalParam("fromBlock", "First block to look for requests in", 0, types.int)
+  .addOptionalParam("interval", "Polling interval in milliseconds", 1_000, types.int)
+  .addOptionalParam("signer", "Index of the account that sends the callbacks", 0, types.int)
+  .addFlag("once", "Fulfill the pending requests and exit instead of watching")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    if (hre.network.name === "sepolia") {
+      throw new Error("Sepolia has the Zama relayer; vcid:oracle only serves a local hardhat node");
+    }
+
+    await hre.fhevm.initializeCLIApi();
+    const metadata = await getRelayerMetadata(hre);
+    const functionNames = await getFunctionNames(hre);
+    const oracle = new ethers.Interface(DECRYPTION_ORACLE_EVENTS);
+    const topics = oracle.encodeFilterTopics("DecryptionRequest", []);
+    console.log(`Watching DecryptionOracle ${metadata.DecryptionOracleAddress} on chain ${metadata.chainId}`);
+
+    let fromBlock: number = taskArguments.fromBlock;
+    for (;;) {
+      const toBlock = await ethers.provider.getBlockNumber();
+      if (fromBlock <= toBlock) {
+        const logs = await ethers.provider.getLogs({
+          address: metadata.DecryptionOracleAddress,
+          topics,
+          fromBlock,
+          toBlock,
+        });
+
+        for (const log of logs) {
+          const request = toDecryptionRequest(oracle, log);
+          const callback = functionNames.get(request.callbackSelector) ?? request.callbackSelector;
+          const label = `Request ${request.requestId} ${callback}`;
+          if (await isFulfilled(hre, request)) {
+            console.log(`${label}: already fulfilled`);
+            continue;
+          }
+          // A failed callback is reported once and not retried
+          try {
+            const result = await fulfill(hre, request, taskArguments.signer);
+            console.log(`${label}: cleartexts ${result.clearTexts.map((value) => BigInt(value)).join(", ")}`);
+            console.log(`  callback ${result.transactionHash} in block ${result.blockNumber}`);
+          } catch (e) {
+            console.error(`${label}: callback failed: ${e instanceof Error ? e.message : e}`);
+          }
+        }
+        fromBlock = toBlock + 1;
+      }
+
+      if (taskArguments.once) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, taskArguments.interval));
+    }
+  });
@@ -0,0 +1,906 @@
+import {
+  createProofRequest,
+  DEFAULT_SCHEMAS,
+  derivePseudonymWallet,
+  encodeAttributes,
+  encodePolicy,
+  Policy,
+  PolicyBuilder,
+  policyHash,
+  ProofRequest,
+  proofRequestId,
+  requestArgument,
+  schemaHash,
+  scoreFieldLayout,
+  signPseudonymAuthorization,
+} from "../schemas";
+import { VcIdFHE, VcIdFHE__factory } from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Signer, Wallet } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type CredentialValues = {
+  // Also the schema id: beforeEach registers one schema per type code, in order
+  credentialType: number;
+  attributes: number | bigint;
+  expiry: number;
+};
+
+const ONE_YEAR = 365 * 24 * 60 * 60;
+// Bits 1..5: the ID, Degree, License, Certification and Membership type codes
+const ALL_CREDENTIAL_TYPES = 0b111110;
+
+// Test schemas put the whole score in the low 32 bits of the attributes slot
+const SCORE_OFFSET = 0;
+const SCORE_WIDTH = 32;
+
+function definitionHash(name: string) {
+  return ethers.keccak256(ethers.toUtf8Bytes(name));
+}
+
+enum IssuerStatus {
+  Unknown,
+  Allowed,
+  Denied,
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("VcIdFHE")) as VcIdFHE__factory;
+  const vcIdContract = (await factory.deploy()) as VcIdFHE;
+  const vcIdContractAddress = await vcIdContract.getAddress();
+
+  return { vcIdContract, vcIdContractAddress };
+}
+
+describe("VcIdFHE", function () {
+  let signers: Signers;
+  let vcIdContract: VcIdFHE;
+  let vcIdContractAddress: string;
+
+  async function addCredential(from: HardhatEthersSigner, holder: string, values: CredentialValues) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(vcIdContractAddress, from.address)
+      .add64(values.attributes)
+      .add32(values.expiry)
+      .encrypt();
+
+    const tx = await vcIdContract
+      .connect(from)
+      .addCredential(
+        holder,
+        values.credentialType,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof,
+      );
+    return tx.wait();
+  }
+
+  async function generateProof(holder: HardhatEthersSigner) {
+    const tx = await vcIdContract.connect(holder).requestProofGeneration();
+    return tx.wait();
+  }
+
+  async function decryptScore(holder: string) {
+    const proof = await vcIdContract.getProof(holder);
+    return fhevm.debugger.decryptEuint(FhevmType.euint32, proof.encryptedCompositeScore);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], issuer: ethSigners[1], alice: ethSigners[2], bob: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ vcIdContract, vcIdContractAddress } = await deployFixture());
+    await vcIdContract.connect(signers.deployer).allowIssuer(signers.issuer.address, "Test Issuer", ALL_CREDENTIAL_TYPES);
+    for (let credentialType = 1; credentialType <= 5; credentialType++) {
+      await vcIdContract
+        .connect(signers.deployer)
+        .registerSchema(
+          `TestType${credentialType}`,
+          credentialType,
+          SCORE_OFFSET,
+          SCORE_WIDTH,
+          definitionHash(`TestType${credentialType}`),
+        );
+    }
+  });
+
+  describe("schema registry", function () {
+    it("should register schemas with sequential ids", async function () {
+      const hash = definitionHash("DegreeV2");
+      await expect(vcIdContract.registerSchema("DegreeV2", 2, 8, 4, hash))
+        .to.emit(vcIdContract, "SchemaRegistered")
+        .withArgs(6, "DegreeV2", 2, hash);
+
+      expect(await vcIdContract.getSchemaCount()).to.eq(6);
+      expect(await vcIdContract.schemaIdByHash(hash)).to.eq(6);
+      const schema = await vcIdContract.getSchema(6);
+      expect(schema.name).to.eq("DegreeV2");
+      expect(schema.credentialType).to.eq(2);
+      expect(schema.scoreOffset).to.eq(8);
+      expect(schema.scoreWidth).to.eq(4);
+      expect(schema.active).to.eq(true);
+    });
+
+    it("should reject invalid or duplicate schemas", async function () {
+      await expect(
+        vcIdContract.connect(signers.alice).registerSchema("Alice", 1, 0, 8, definitionHash("Alice")),
+      ).to.be.revertedWith("Not owner");
+      await expect(vcIdContract.registerSchema("Zero", 0, 0, 8, definitionHash("Zero"))).to.be.revertedWith(
+        "Invalid credential type",
+      );
+      await expect(vcIdContract.registerSchema("Wide", 1, 0, 33, definitionHash("Wide"))).to.be.revertedWith(
+        "Invalid score field",
+      );
+      await expect(vcIdContract.registerSchema("Overflow", 1, 60, 8, definitionHash("Overflow"))).to.be.revertedWith(
+        "Invalid score field",
+      );
+      await expect(vcIdContract.registerSchema("Again", 1, 0, 8, definitionHash("TestType1"))).to.be.revertedWith(
+        "Schema exists",
+      );
+    });
+
+    it("should reject credentials for deactivated or unknown schemas", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await expect(vcIdContract.deactivateSchema(1)).to.emit(vcIdContract, "SchemaDeactivated").withArgs(1);
+      expect((await vcIdContract.getSchema(1)).active).to.eq(false);
+
+      await expect(
+        addCredential(signers.issuer, signers.alice.address, { credentialType: 1, attributes: 1, expiry }),
+      ).to.be.revertedWith("Invalid schema");
+      await expect(
+        addCredential(signers.issuer, signers.alice.address, { credentialType: 9, attributes: 1, expiry }),
+      ).to.be.revertedWith("Invalid schema");
+    });
+
+    it("should score only the schema's score field", async function () {
+      // Score in bits 8..11, surrounded by other fields
+      await vcIdContract.registerSchema("Packed", 2, 8, 4, definitionHash("Packed"));
+      const expiry = (await time.latest()) + ONE_YEAR;
+      const attributes = (0xabn << 12n) | (7n << 8n) | 0xffn;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 6, attributes, expiry });
+
+      const credential = await vcIdContract.getCredential(signers.alice.address, 0);
+      expect(credential.schemaId).to.eq(6);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint64, credential.attributes)).to.eq(attributes);
+
+      await generateProof(signers.alice);
+      // Type 2 * score 7
+      expect(await decryptScore(signers.alice.address)).to.eq(14);
+    });
+  });
+
+  describe("issuer registry", function () {
+    it("should make the deployer the owner", async function () {
+      expect(await vcIdContract.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("should record allowed issuers with their metadata", async function () {
+      await expect(vcIdContract.allowIssuer(signers.bob.address, "Bob University", 0b100))
+        .to.emit(vcIdContract, "IssuerAllowed")
+        .withArgs(signers.bob.address, "Bob University", 0b100);
+
+      expect(await vcIdContract.isTrustedIssuer(signers.bob.address)).to.eq(true);
+      const info = await vcIdContract.getIssuer(signers.bob.address);
+      expect(info.status).to.eq(IssuerStatus.Allowed);
+      expect(info.displayName).to.eq("Bob University");
+      expect(info.allowedCredentialTypes).to.eq(0b100);
+      expect(await vcIdContract.getIssuers()).to.deep.eq([signers.issuer.address, signers.bob.address]);
+    });
+
+    it("should only let the owner manage issuers", async function () {
+      await expect(
+        vcIdContract.connect(signers.alice).allowIssuer(signers.alice.address, "Alice", ALL_CREDENTIAL_TYPES),
+      ).to.be.revertedWith("Not owner");
+      await expect(vcIdContract.connect(signers.alice).denyIssuer(signers.issuer.address)).to.be.revertedWith(
+        "Not owner",
+      );
+      await expect(vcIdContract.allowIssuer(signers.bob.address, "Bob", 0)).to.be.revertedWith("No credential types");
+    });
+
+    it("should reject credentials from untrusted or denied issuers", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await expect(
+        addCredential(signers.alice, signers.alice.address, { credentialType: 1, attributes: 1, expiry }),
+      ).to.be.revertedWith("Untrusted issuer");
+
+      await expect(vcIdContract.denyIssuer(signers.issuer.address))
+        .to.emit(vcIdContract, "IssuerDenied")
+        .withArgs(signers.issuer.address);
+      expect((await vcIdContract.getIssuer(signers.issuer.address)).status).to.eq(IssuerStatus.Denied);
+      await expect(
+        addCredential(signers.issuer, signers.alice.address, { credentialType: 1, attributes: 1, expiry }),
+      ).to.be.revertedWith("Untrusted issuer");
+    });
+
+    it("should reject schemas whose credential type the issuer may not issue", async function () {
+      await vcIdContract.allowIssuer(signers.bob.address, "Bob University", 0b100);
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await expect(addCredential(signers.bob, signers.alice.address, { credentialType: 2, attributes: 10, expiry })).to
+        .not.be.reverted;
+      await expect(
+        addCredential(signers.bob, signers.alice.address, { credentialType: 3, attributes: 10, expiry }),
+      ).to.be.revertedWith("Type not allowed");
+    });
+  });
+
+  describe("addCredential", function () {
+    it("should have no credentials after deployment", async function () {
+      expect(await vcIdContract.getCredentialCount(signers.alice.address)).to.eq(0);
+      expect(await vcIdContract.hasProof(signers.alice.address)).to.eq(false);
+    });
+
+    it("should store a credential for the holder and record the issuer", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+
+      await expect(
+        addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry }),
+      ).to.not.be.reverted;
+
+      expect(await vcIdContract.getCredentialCount(signers.alice.address)).to.eq(1);
+      expect(await vcIdContract.getCredentialCount(signers.issuer.address)).to.eq(0);
+
+      const credential = await vcIdContract.getCredential(signers.alice.address, 0);
+      expect(credential.issuer).to.eq(signers.issuer.address);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, credential.credentialType)).to.eq(2);
+      expect(credential.schemaId).to.eq(2);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint64, credential.attributes)).to.eq(10);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, credential.expiry)).to.eq(expiry);
+    });
+
+    it("should emit CredentialAdded with holder and issuer", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      const encryptedInput = await fhevm
+        .createEncryptedInput(vcIdContractAddress, signers.issuer.address)
+        .add64(1)
+        .add32(expiry)
+        .encrypt();
+
+      await expect(
+        vcIdContract
+          .connect(signers.issuer)
+          .addCredential(
+            signers.alice.address,
+            1,
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+          ),
+      )
+        .to.emit(vcIdContract, "CredentialAdded")
+        .withArgs(signers.alice.address, signers.issuer.address, 0);
+    });
+
+    it("should let the holder user-decrypt the credential but not other accounts", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 3, attributes: 42, expiry });
+
+      const credential = await vcIdContract.getCredential(signers.alice.address, 0);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, credential.credentialType, vcIdContractAddress, signers.alice),
+      ).to.eq(3);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, credential.attributes, vcIdContractAddress, signers.alice),
+      ).to.eq(42);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, credential.expiry, vcIdContractAddress, signers.alice),
+      ).to.eq(expiry);
+
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, credential.attributes, vcIdContractAddress, signers.bob),
+      ).to.be.rejected;
+    });
+
+    it("should revert when the input proof is bound to another sender", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      const encryptedInput = await fhevm
+        .createEncryptedInput(vcIdContractAddress, signers.alice.address)
+        .add64(1)
+        .add32(expiry)
+        .encrypt();
+
+      await expect(
+        vcIdContract
+          .connect(signers.issuer)
+          .addCredential(
+            signers.alice.address,
+            1,
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+          ),
+      ).to.be.reverted;
+    });
+
+    it("should revert when reading a credential index out of range", async function () {
+      await expect(vcIdContract.getCredential(signers.alice.address, 0)).to.be.revertedWith("Invalid credential");
+    });
+
+    it("should cap a holder's unrevoked credentials at MAX_CREDENTIALS", async function () {
+      const values = { credentialType: 2, attributes: 1, expiry: (await time.latest()) + ONE_YEAR };
+      const max = Number(await vcIdContract.MAX_CREDENTIALS());
+      for (let i = 0; i < max; i++) {
+        await addCredential(signers.issuer, signers.alice.address, values);
+      }
+      await expect(addCredential(signers.issuer, signers.alice.address, values)).to.be.revertedWith(
+        "Too many credentials",
+      );
+      await addCredential(signers.issuer, signers.bob.address, values);
+
+      // A revoked credential no longer counts towards any proof, so it frees its slot
+      await vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 0);
+      await addCredential(signers.issuer, signers.alice.address, values);
+      expect(await vcIdContract.getCredentialCount(signers.alice.address)).to.eq(max + 1);
+    });
+  });
+
+  describe("revokeCredential", function () {
+    it("should let the issuer revoke a credential by id", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 1, attributes: 1, expiry });
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 2, expiry });
+
+      await expect(vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 1))
+        .to.emit(vcIdContract, "CredentialRevoked")
+        .withArgs(signers.alice.address, signers.issuer.address, 1);
+
+      expect((await vcIdContract.getCredential(signers.alice.address, 0)).revoked).to.eq(false);
+      expect((await vcIdContract.getCredential(signers.alice.address, 1)).revoked).to.eq(true);
+    });
+
+    it("should only let the credential's issuer revoke it once", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 1, attributes: 1, expiry });
+
+      await expect(
+        vcIdContract.connect(signers.alice).revokeCredential(signers.alice.address, 0),
+      ).to.be.revertedWith("Not issuer");
+      await expect(
+        vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 1),
+      ).to.be.revertedWith("Invalid credential");
+
+      await vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 0);
+      await expect(
+        vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 0),
+      ).to.be.revertedWith("Already revoked");
+    });
+  });
+
+  describe("requestProofGeneration", function () {
+    it("should revert for an account without credentials", async function () {
+      await expect(vcIdContract.connect(signers.bob).requestProofGeneration()).to.be.revertedWith("No credentials");
+    });
+
+    it("should only use the caller's credentials", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry });
+
+      await expect(vcIdContract.connect(signers.issuer).requestProofGeneration()).to.be.revertedWith(
+        "No credentials",
+      );
+      await expect(vcIdContract.connect(signers.alice).requestProofGeneration())
+        .to.emit(vcIdContract, "ProofGenerated")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should not send any credential to the decryption oracle", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry });
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 3, attributes: 5, expiry });
+
+      const receipt = await generateProof(signers.alice);
+
+      expect(fhevm.parseDecryptionRequestEvents(receipt?.logs)).to.have.length(0);
+      expect(await decryptScore(signers.alice.address)).to.eq(17);
+    });
+
+    it("should stay within the transaction's HCU limit at MAX_CREDENTIALS", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      const max = Number(await vcIdContract.MAX_CREDENTIALS());
+      for (let i = 0; i < max; i++) {
+        await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry });
+      }
+
+      await generateProof(signers.alice);
+
+      expect(await decryptScore(signers.alice.address)).to.eq(20);
+    });
+
+    it("should store the average weighted score of valid credentials", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry });
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 3, attributes: 5, expiry });
+
+      await generateProof(signers.alice);
+
+      expect(await vcIdContract.hasProof(signers.alice.address)).to.eq(true);
+      // (2 * 10 + 3 * 5) / 2, integer division
+      expect(await decryptScore(signers.alice.address)).to.eq(17);
+    });
+
+    it("should skip expired credentials when averaging", async function () {
+      const now = await time.latest();
+      await addCredential(signers.issuer, signers.alice.address, {
+        credentialType: 4,
+        attributes: 6,
+        expiry: now + ONE_YEAR,
+      });
+      await addCredential(signers.issuer, signers.alice.address, {
+        credentialType: 5,
+        attributes: 100,
+        expiry: now - 1,
+      });
+
+      await generateProof(signers.alice);
+
+      expect(await vcIdContract.hasProof(signers.alice.address)).to.eq(true);
+      expect(await decryptScore(signers.alice.address)).to.eq(24);
+    });
+
+    it("should skip credentials from issuers denied after issuance", async function () {
+      await vcIdContract.allowIssuer(signers.bob.address, "Bob University", ALL_CREDENTIAL_TYPES);
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry });
+      await addCredential(signers.bob, signers.alice.address, { credentialType: 5, attributes: 100, expiry });
+      await vcIdContract.denyIssuer(signers.bob.address);
+
+      await generateProof(signers.alice);
+
+      expect(await decryptScore(signers.alice.address)).to.eq(20);
+    });
+
+    it("should skip revoked credentials", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry });
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 5, attributes: 100, expiry });
+      await vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 1);
+
+      await generateProof(signers.alice);
+
+      expect(await decryptScore(signers.alice.address)).to.eq(20);
+    });
+
+    it("should score 0 without disclosing that every credential is expired", async function () {
+      const now = await time.latest();
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 1, attributes: 1, expiry: now + 60 });
+      await time.increase(120);
+
+      await generateProof(signers.alice);
+
+      expect(await vcIdContract.hasProof(signers.alice.address)).to.eq(true);
+      expect(await decryptScore(signers.alice.address)).to.eq(0);
+    });
+
+    it("should revert without storing a proof when every credential is revoked", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 1, attributes: 1, expiry });
+      await vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 0);
+
+      await expect(vcIdContract.connect(signers.alice).requestProofGeneration()).to.be.revertedWith(
+        "No eligible credentials",
+      );
+      expect(await vcIdContract.hasProof(signers.alice.address)).to.eq(false);
+    });
+
+    it("should keep the earlier proof when every credential is filtered out", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 10, expiry });
+      await generateProof(signers.alice);
+      const before = await vcIdContract.getProof(signers.alice.address);
+
+      await vcIdContract.denyIssuer(signers.issuer.address);
+
+      await expect(vcIdContract.connect(signers.alice).requestProofGeneration()).to.be.revertedWith(
+        "No eligible credentials",
+      );
+      const after = await vcIdContract.getProof(signers.alice.address);
+      expect(after.encryptedCompositeScore).to.eq(before.encryptedCompositeScore);
+      expect(after.timestamp).to.eq(before.timestamp);
+    });
+
+    it("should let the holder user-decrypt the composite score", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 9, expiry });
+
+      await generateProof(signers.alice);
+
+      const proof = await vcIdContract.getProof(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, proof.encryptedCompositeScore, vcIdContractAddress, signers.alice),
+      ).to.eq(18);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, proof.encryptedCompositeScore, vcIdContractAddress, signers.bob),
+      ).to.be.rejected;
+    });
+
+  });
+
+  describe("provePolicy", function () {
+    // DEFAULT_SCHEMAS registered after the five test schemas
+    const schemaRefs = DEFAULT_SCHEMAS.map((definition, index) => ({ id: index + 6, definition }));
+    const schemaId = (name: string) => schemaRefs.find((ref) => ref.definition.name === name)!.id;
+
+    beforeEach(async function () {
+      for (const definition of DEFAULT_SCHEMAS) {
+        const { offset, width } = scoreFieldLayout(definition);
+        await vcIdContract.registerSchema(
+          definition.name,
+          definition.credentialType,
+          offset,
+          width,
+          schemaHash(definition),
+        );
+      }
+    });
+
+    async function issue(
+      from: HardhatEthersSigner,
+      name: string,
+      fields: Record<string, string | number | boolean>,
+      expiry?: number,
+    ) {
+      const definition = DEFAULT_SCHEMAS.find((schema) => schema.name === name)!;
+      return addCredential(from, signers.alice.address, {
+        credentialType: schemaId(name),
+        attributes: encodeAttributes(definition, fields),
+        expiry: expiry ?? (await time.latest()) + ONE_YEAR,
+      });
+    }
+
+    async function prove(policy: Policy) {
+      const tx = await vcIdContract.connect(signers.alice).provePolicy(encodePolicy(policy, schemaRefs));
+      await tx.wait();
+      const proof = await vcIdContract.getPolicyProof(signers.alice.address);
+      return fhevm.debugger.decryptEbool(proof.encryptedResult);
+    }
+
+    it("should compare packed date fields homomorphically", async function () {
+      await issue(signers.issuer, "IdentityV1", {
+        assuranceLevel: 3,
+        documentKind: "passport",
+        over18: true,
+        birthDate: "2000-01-01",
+      });
+
+      const adult = new PolicyBuilder("Adult").where("IdentityV1", "birthDate", "lte", "2008-01-01");
+      const bornBefore1990 = new PolicyBuilder("Born before 1990").where("IdentityV1", "birthDate", "lt", "1990-01-01");
+      expect(await prove(adult.build())).to.eq(true);
+      expect(await prove(bornBefore1990.build())).to.eq(false);
+    });
+
+    it("should require every predicate and honour set membership and issuer restrictions", async function () {
+      await vcIdContract.allowIssuer(signers.bob.address, "Bob Licensing", ALL_CREDENTIAL_TYPES);
+      await issue(signers.issuer, "DegreeV1", { level: "master", graduationDate: "2020-06-30", honors: false });
+      await issue(signers.bob, "LicenseV1", { tier: 2, issuedDate: "2021-01-01", suspended: false });
+
+      const graduate = new PolicyBuilder("Graduate").where("DegreeV1", "level", "in", ["master", "doctorate"]);
+      expect(await prove(graduate.build())).to.eq(true);
+      expect(await prove(new PolicyBuilder("Associate").where("DegreeV1", "level", "in", ["associate"]).build())).to.eq(
+        false,
+      );
+
+      expect(await prove(graduate.require("LicenseV1", { issuer: signers.bob.address }).build())).to.eq(true);
+      expect(
+        await prove(
+          new PolicyBuilder("Licensed by issuer")
+            .where("DegreeV1", "level", "gte", "bachelor")
+            .require("LicenseV1", { issuer: signers.issuer.address })
+            .build(),
+        ),
+      ).to.eq(false);
+    });
+
+    it("should ignore expired and revoked credentials", async function () {
+      const licensed = new PolicyBuilder("Licensed").require("LicenseV1").build();
+      const fields = { tier: 1, issuedDate: "2021-01-01", suspended: false };
+      await issue(signers.issuer, "LicenseV1", fields, (await time.latest()) + 60);
+      expect(await prove(licensed)).to.eq(true);
+
+      await time.increase(120);
+      expect(await prove(licensed)).to.eq(false);
+
+      await issue(signers.issuer, "LicenseV1", fields);
+      expect(await prove(licensed)).to.eq(true);
+      await vcIdContract.connect(signers.issuer).revokeCredential(signers.alice.address, 1);
+      expect(await prove(licensed)).to.eq(false);
+    });
+
+    it("should record the policy hash and reveal only the yes/no answer", async function () {
+      await issue(signers.issuer, "MembershipV1", { tier: 4, memberSince: "2019-05-01" });
+      const predicates = encodePolicy(
+        new PolicyBuilder("Gold member").where("MembershipV1", "tier", "gte", 3).build(),
+        schemaRefs,
+      );
+      const hash = policyHash(predicates);
+
+      await expect(vcIdContract.connect(signers.alice).provePolicy(predicates))
+        .to.emit(vcIdContract, "PolicyProofGenerated")
+        .withArgs(signers.alice.address, hash);
+      expect(await vcIdContract.hasPolicyProof(signers.alice.address)).to.eq(true);
+
+      const proof = await vcIdContract.getPolicyProof(signers.alice.address);
+      expect(proof.policyHash).to.eq(hash);
+      expect(await fhevm.userDecryptEbool(proof.encryptedResult, vcIdContractAddress, signers.alice)).to.eq(true);
+      await expect(fhevm.userDecryptEbool(proof.encryptedResult, vcIdContractAddress, signers.bob)).to.be.rejected;
+
+      await (await vcIdContract.connect(signers.alice).requestPolicyReveal()).wait();
+      await expect(fhevm.awaitDecryptionOracle()).to.not.be.rejected;
+
+      const revealed = await vcIdContract.getPolicyProof(signers.alice.address);
+      expect(revealed.isRevealed).to.eq(true);
+      expect(revealed.revealedResult).to.eq(true);
+      await expect(vcIdContract.connect(signers.alice).requestPolicyReveal()).to.be.revertedWith("Already revealed");
+    });
+
+    it("should not reveal a policy proof replaced during a pending reveal", async function () {
+      await issue(signers.issuer, "MembershipV1", { tier: 4, memberSince: "2019-05-01" });
+      const gold = encodePolicy(new PolicyBuilder("Gold").where("MembershipV1", "tier", "gte", 3).build(), schemaRefs);
+      const platinum = encodePolicy(
+        new PolicyBuilder("Platinum").where("MembershipV1", "tier", "gte", 5).build(),
+        schemaRefs,
+      );
+      await (await vcIdContract.connect(signers.alice).provePolicy(gold)).wait();
+
+      await (await vcIdContract.connect(signers.alice).requestPolicyReveal()).wait();
+      await (await vcIdContract.connect(signers.alice).provePolicy(platinum)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const proof = await vcIdContract.getPolicyProof(signers.alice.address);
+      expect(proof.policyHash).to.eq(policyHash(platinum));
+      expect(proof.isRevealed).to.eq(false);
+    });
+
+    it("should bound the comparisons a policy runs over the holder's credentials", async function () {
+      const max = Number(await vcIdContract.MAX_CREDENTIALS());
+      for (let i = 0; i < max; i++) {
+        await issue(signers.issuer, "IdentityV1", {
+          assuranceLevel: 3,
+          documentKind: "passport",
+          over18: true,
+          birthDate: "2000-01-01",
+        });
+      }
+
+      // MAX_POLICY_PREDICATES predicates over MAX_CREDENTIALS credentials fit in one transaction
+      const assured = new PolicyBuilder("Assured");
+      for (let i = 0; i < Number(await vcIdContract.MAX_POLICY_PREDICATES()); i++) {
+        assured.where("IdentityV1", "assuranceLevel", "gte", 2);
+      }
+      expect(await prove(assured.build())).to.eq(true);
+
+      // An "in" compares once per member: 4 members x 8 credentials per predicate, out of 64
+      const kinds = ["passport", "national-id", "driver-license", "residence-permit"];
+      const documented = new PolicyBuilder("Documented")
+        .where("IdentityV1", "documentKind", "in", kinds)
+        .where("IdentityV1", "documentKind", "in", kinds);
+      expect(await prove(documented.build())).to.eq(true);
+      await expect(prove(documented.where("IdentityV1", "documentKind", "in", kinds).build())).to.be.revertedWith(
+        "Policy too costly",
+      );
+    });
+
+    it("should reject invalid policies and reveals", async function () {
+      await issue(signers.issuer, "MembershipV1", { tier: 1, memberSince: "2019-05-01" });
+      const predicate = encodePolicy(new PolicyBuilder("Member").require("MembershipV1").build(), schemaRefs)[0];
+
+      await expect(vcIdContract.connect(signers.bob).provePolicy([predicate])).to.be.revertedWith("No credentials");
+      await expect(vcIdContract.connect(signers.alice).provePolicy([])).to.be.revertedWith("Invalid policy");
+      await expect(vcIdContract.connect(signers.alice).provePolicy([{ ...predicate, schemaId: 99 }])).to.be.revertedWith(
+        "Invalid schema",
+      );
+      await expect(
+        vcIdContract.connect(signers.alice).provePolicy([{ ...predicate, fieldOffset: 60, fieldWidth: 8 }]),
+      ).to.be.revertedWith("Invalid field");
+      await expect(
+        vcIdContract.connect(signers.alice).provePolicy([{ ...predicate, fieldWidth: 8, op: 6 }]),
+      ).to.be.revertedWith("Invalid field");
+
+      await expect(vcIdContract.connect(signers.alice).requestPolicyReveal()).to.be.revertedWith("No proof");
+      await expect(vcIdContract.finalizePolicyReveal(12345, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    // Answers as alice, under her pseudonym for the request's verifier
+    async function answer(request: ProofRequest, from = signers.alice, salt = ethers.ZeroHash) {
+      const pseudonym = await derivePseudonymWallet(signers.alice, request.verifier, salt);
+      const requestId = proofRequestId(request);
+      const { chainId } = await ethers.provider.getNetwork();
+      const signature = await signPseudonymAuthorization(
+        pseudonym,
+        vcIdContractAddress,
+        chainId,
+        requestId,
+        signers.alice.address,
+      );
+      const tx = vcIdContract.connect(from).respondToRequest(requestArgument(request), pseudonym.address, signature);
+      return { tx, requestId, pseudonym: pseudonym.address };
+    }
+
+    it("should answer proof requests under the request id, counting only allowlisted issuers", async function () {
+      await vcIdContract.allowIssuer(signers.bob.address, "Bob Licensing", ALL_CREDENTIAL_TYPES);
+      await issue(signers.bob, "LicenseV1", { tier: 2, issuedDate: "2021-01-01", suspended: false });
+      const licensed = new PolicyBuilder("Licensed").where("LicenseV1", "tier", "gte", 2).build();
+
+      const respond = async (issuers: string[]) => {
+        const request = createProofRequest(signers.deployer.address, licensed, schemaRefs, { issuers, freshness: 3600 });
+        const { tx, requestId, pseudonym } = await answer(request);
+        await expect(tx)
+          .to.emit(vcIdContract, "ProofRequestAnswered")
+          .withArgs(requestId, pseudonym, signers.deployer.address);
+
+        const proof = await vcIdContract.getVerifierProof(pseudonym, signers.deployer.address, requestId);
+        expect(proof.policyHash).to.eq(policyHash(request.predicates));
+        return fhevm.debugger.decryptEbool(proof.encryptedResult);
+      };
+
+      expect(await respond([])).to.eq(true);
+      expect(await respond([signers.bob.address, signers.issuer.address])).to.eq(true);
+      expect(await respond([signers.issuer.address])).to.eq(false);
+
+      // Each request keeps its own proof, and ad-hoc policy proofs do not touch them
+      await (await vcIdContract.connect(signers.alice).provePolicy(encodePolicy(licensed, schemaRefs))).wait();
+      const pseudonym = (await derivePseudonymWallet(signers.alice, signers.deployer.address, ethers.ZeroHash)).address;
+      expect(await vcIdContract.getProofsFor(pseudonym, signers.deployer.address)).to.have.length(3);
+    });
+
+    it("should keep answers under per-verifier pseudonyms, decryptable by the verifier only", async function () {
+      await issue(signers.issuer, "MembershipV1", { tier: 4, memberSince: "2019-05-01" });
+      const member = new PolicyBuilder("Member").require("MembershipV1").build();
+      const forDeployer = createProofRequest(signers.deployer.address, member, schemaRefs, { freshness: 60 });
+      const forBob = createProofRequest(signers.bob.address, member, schemaRefs, { freshness: 60 });
+
+      const toDeployer = await answer(forDeployer);
+      await (await toDeployer.tx).wait();
+      const toBob = await answer(forBob);
+      await (await toBob.tx).wait();
+      // Answering again replaces the proof rather than adding one
+      await (await (await answer(forBob)).tx).wait();
+
+      expect(toDeployer.pseudonym).to.not.eq(toBob.pseudonym);
+      expect(await vcIdContract.getProofsFor(signers.alice.address, signers.bob.address)).to.have.length(0);
+      const deployerProofs = await vcIdContract.getProofsFor(toDeployer.pseudonym, signers.deployer.address);
+      const bobProofs = await vcIdContract.getProofsFor(toBob.pseudonym, signers.bob.address);
+      expect(deployerProofs.map((proof) => proof.requestId)).to.deep.eq([toDeployer.requestId]);
+      expect(bobProofs.map((proof) => proof.requestId)).to.deep.eq([toBob.requestId]);
+      expect(bobProofs[0].verifier).to.eq(signers.bob.address);
+
+      const handle = bobProofs[0].encryptedResult;
+      expect(await fhevm.userDecryptEbool(handle, vcIdContractAddress, signers.bob)).to.eq(true);
+      await expect(fhevm.userDecryptEbool(handle, vcIdContractAddress, signers.alice)).to.be.rejected;
+      await expect(fhevm.userDecryptEbool(handle, vcIdContractAddress, signers.deployer)).to.be.rejected;
+
+      await expect(
+        vcIdContract.getVerifierProof(toBob.pseudonym, signers.bob.address, toDeployer.requestId),
+      ).to.be.revertedWith("No proof");
+    });
+
+    it("should reject invalid requests and pseudonym authorizations", async function () {
+      await issue(signers.issuer, "MembershipV1", { tier: 1, memberSince: "2019-05-01" });
+      const request = createProofRequest(
+        signers.deployer.address,
+        new PolicyBuilder("Member").require("MembershipV1").build(),
+        schemaRefs,
+        { freshness: 60 },
+      );
+      const { requestId, pseudonym } = await answer(request);
+      const { chainId } = await ethers.provider.getNetwork();
+      const sign = (wallet: Signer, holder: string) =>
+        signPseudonymAuthorization(wallet, vcIdContractAddress, chainId, requestId, holder);
+      const pseudonymWallet = await derivePseudonymWallet(signers.alice, signers.deployer.address, ethers.ZeroHash);
+      const signature = await sign(pseudonymWallet, signers.alice.address);
+      const respond = (from: HardhatEthersSigner, argument: ReturnType<typeof requestArgument>, sig = signature) =>
+        vcIdContract.connect(from).respondToRequest(argument, pseudonym, sig);
+
+      await expect(
+        respond(signers.alice, { ...requestArgument(request), verifier: ethers.ZeroAddress }),
+      ).to.be.revertedWith("Invalid verifier");
+      const issuers = Array.from({ length: 17 }, () => ethers.Wallet.createRandom().address);
+      await expect(respond(signers.alice, { ...requestArgument(request), issuers })).to.be.revertedWith(
+        "Too many issuers",
+      );
+
+      // Signed by another key, or replayed by another holder
+      const other = await sign(Wallet.createRandom(), signers.alice.address);
+      await expect(respond(signers.alice, requestArgument(request), other)).to.be.revertedWith("Invalid pseudonym");
+      await addCredential(signers.issuer, signers.bob.address, {
+        credentialType: 5,
+        attributes: 1,
+        expiry: (await time.latest()) + ONE_YEAR,
+      });
+      await expect(respond(signers.bob, requestArgument(request))).to.be.revertedWith("Invalid pseudonym");
+      await expect(respond(signers.alice, requestArgument(request))).to.emit(vcIdContract, "ProofRequestAnswered");
+
+      // Backdating the request changes its id, so the answer is not recorded under the verifier's copy
+      const backdated = await answer({ ...request, createdAt: request.createdAt - 3600 });
+      await (await backdated.tx).wait();
+      const answered = await vcIdContract.getProofsFor(pseudonym, signers.deployer.address);
+      expect(answered.map((proof) => proof.requestId)).to.deep.eq([requestId, backdated.requestId]);
+    });
+  });
+
+  describe("requestProofReveal", function () {
+    it("should revert when no proof has been generated", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 1, attributes: 7, expiry });
+
+      await expect(vcIdContract.connect(signers.alice).requestProofReveal()).to.be.revertedWith("No proof");
+    });
+
+    it("should revert for an account without credentials", async function () {
+      await expect(vcIdContract.connect(signers.bob).requestProofReveal()).to.be.revertedWith("No credentials");
+    });
+
+    it("should reveal the proof once and reject a second reveal", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 4, expiry });
+      await generateProof(signers.alice);
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      const tx = await vcIdContract.connect(signers.alice).requestProofReveal();
+      const receipt = await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const proof = await vcIdContract.getProof(signers.alice.address);
+      expect(proof.isRevealed).to.eq(true);
+      expect(proof.revealedScore).to.eq(8);
+
+      // Only the composite score goes to the oracle, and only its cleartext comes back
+      const requests = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+      expect(requests).to.have.length(1);
+      expect(requests[0].handlesBytes32Hex).to.deep.eq([proof.encryptedCompositeScore]);
+
+      const events = await vcIdContract.queryFilter(vcIdContract.filters.ProofRevealed(signers.alice.address), fromBlock);
+      expect(events.length).to.eq(1);
+      const callback = await ethers.provider.getTransaction(events[0].transactionHash);
+      const call = vcIdContract.interface.parseTransaction({ data: callback!.data });
+      expect(call?.name).to.eq("finalizeReveal");
+      expect(call?.args.cleartexts).to.eq(ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [8]));
+
+      await expect(vcIdContract.connect(signers.alice).requestProofReveal()).to.be.revertedWith("Already revealed");
+    });
+  });
+
+  describe("finalizeReveal", function () {
+    it("should reject callbacks for unknown requests", async function () {
+      await expect(vcIdContract.finalizeReveal(12345, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    it("should not mark a proof regenerated during a pending reveal as revealed", async function () {
+      const expiry = (await time.latest()) + ONE_YEAR;
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 2, attributes: 4, expiry });
+      await generateProof(signers.alice);
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      const receipt = await (await vcIdContract.connect(signers.alice).requestProofReveal()).wait();
+      const [request] = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+      await addCredential(signers.issuer, signers.alice.address, { credentialType: 3, attributes: 10, expiry });
+      await generateProof(signers.alice);
+      await fhevm.awaitDecryptionOracle();
+
+      const proof = await vcIdContract.getProof(signers.alice.address);
+      expect(proof.isRevealed).to.eq(false);
+      expect(proof.revealedScore).to.eq(0);
+      expect(await vcIdContract.queryFilter(vcIdContract.filters.ProofRevealed(), fromBlock)).to.have.length(0);
+
+      // The request is consumed, so the callback cannot be replayed onto a later proof
+      await expect(vcIdContract.finalizeReveal(request.requestID, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+  });
+});
@@ -0,0 +1,610 @@
+import { ApiContext, createApiServer } from "../indexer/api";
+import { createRoot, executeGraphQL } from "../indexer/graphql";
+import {
+  getCheckpoint,
+  IndexedBlock,
+  IndexedCredential,
+  IndexedEvent,
+  IndexedIssuer,
+  openStore,
+  queryCredentials,
+  queryEvents,
+  queryIssuers,
+  queryProofs,
+  rollback,
+  saveBatch,
+  Store,
+} from "../indexer/store";
+import { syncOnce, SyncOptions } from "../indexer/sync";
+import { VcIdFHE, VcIdFHE__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { getAddress, id } from "ethers";
+import { EventEmitter } from "events";
+import type http from "http";
+import type { AddressInfo } from "net";
+import { ethers, fhevm } from "hardhat";
+
+const CHAIN_ID = 31337;
+const CONTRACT = getAddress("0x" + "c0".repeat(20));
+const ALICE = getAddress("0x" + "a1".repeat(20));
+const BOB = getAddress("0x" + "b0".repeat(20));
+const ISSUER = getAddress("0x" + "15".repeat(20));
+const OTHER_ISSUER = getAddress("0x" + "25".repeat(20));
+
+// Synthetic blocks ten seconds apart, so time ranges can be given in block numbers
+function block(number: number): IndexedBlock {
+  return { number, hash: id(`block ${number}`), timestamp: 1_000 + number * 10 };
+}
+
+function indexedEvent(
+  name: string,
+  blockNumber: number,
+  logIndex: number,
+  fields: Partial<IndexedEvent> = {},
+): IndexedEvent {
+  const { hash, timestamp } = block(blockNumber);
+  return {
+    name,
+    blockNumber,
+    blockHash: hash,
+    logIndex,
+    transactionHash: id(`tx ${blockNumber}:${logIndex}`),
+    timestamp,
+    holder: null,
+    issuer: null,
+    verifier: null,
+    credentialId: null,
+    policyHash: null,
+    requestId: null,
+    result: null,
+    data: {},
+    ...fields,
+  };
+}
+
+const credentialAdded = (blockNumber: number, logIndex: number, holder: string, credentialId: number) =>
+  indexedEvent("CredentialAdded", blockNumber, logIndex, { holder, issuer: ISSUER, credentialId });
+const credentialRevoked = (blockNumber: number, logIndex: number, holder: string, credentialId: number) =>
+  indexedEvent("CredentialRevoked", blockNumber, logIndex, { holder, issuer: ISSUER, credentialId });
+const issuerAllowed = (blockNumber: number, issuer: string, displayName: string, allowedCredentialTypes: number) =>
+  indexedEvent("IssuerAllowed", blockNumber, 0, { issuer, data: { displayName, allowedCredentialTypes } });
+
+// The lists and error of the API's responses; each route fills in its own
+interface ApiBody {
+  checkpoint: number | null;
+  events: IndexedEvent[];
+  credentials: IndexedCredential[];
+  issuers: IndexedIssuer[];
+  error: string;
+}
+
+/** Stores `events` as one batch, checkpointed at the last event's block. */
+function seed(db: Store, events: IndexedEvent[]) {
+  const blocks = [...new Set(events.map((event) => event.blockNumber))].map(block);
+  saveBatch(db, events, blocks, blocks[blocks.length - 1], 128);
+}
+
+describe("indexer", function () {
+  let db: Store;
+
+  beforeEach(function () {
+    db = openStore(":memory:", CHAIN_ID, CONTRACT);
+  });
+
+  afterEach(function () {
+    db.close();
+  });
+
+  describe("store", function () {
+    it("should mark a credential revoked from its holder's CredentialRevoked", async function () {
+      seed(db, [
+        credentialAdded(1, 0, ALICE, 0),
+        credentialAdded(2, 0, ALICE, 1),
+        // Same id, other holder: untouched by Alice's revocation
+        credentialAdded(2, 1, BOB, 0),
+        credentialRevoked(3, 0, ALICE, 0),
+      ]);
+
+      const alice = queryCredentials(db, { holder: ALICE }).items;
+      expect(alice.map((credential) => credential.credentialId)).to.deep.eq([1, 0]);
+      expect(alice[0].revokedAt).to.eq(null);
+      expect(alice[1].revokedAt).to.eq(block(3).timestamp);
+      expect(queryCredentials(db, { holder: BOB }).items[0].revokedAt).to.eq(null);
+
+      expect(queryCredentials(db, { revoked: true }).items.map((c) => [c.holder, c.credentialId])).to.deep.eq([
+        [ALICE, 0],
+      ]);
+      expect(queryCredentials(db, { revoked: false }).totalCount).to.eq(2);
+    });
+
+    it("should take an issuer's status from its latest registry event and its name from its latest allowance", async function () {
+      seed(db, [
+        issuerAllowed(1, ISSUER, "First name", 0b10),
+        issuerAllowed(2, OTHER_ISSUER, "Other", 0b100),
+        issuerAllowed(3, ISSUER, "Renamed", 0b110),
+        indexedEvent("IssuerDenied", 4, 0, { issuer: ISSUER }),
+      ]);
+
+      const [other, denied] = queryIssuers(db, {}).items;
+      expect(denied).to.deep.include({
+        issuer: ISSUER,
+        status: "denied",
+        displayName: "Renamed",
+        allowedCredentialTypes: 0b110,
+        blockNumber: 4,
+        updatedAt: block(4).timestamp,
+      });
+      expect(other).to.deep.include({ issuer: OTHER_ISSUER, status: "allowed", displayName: "Other" });
+      expect(queryIssuers(db, { status: "denied" }).items.map((issuer) => issuer.issuer)).to.deep.eq([ISSUER]);
+
+      seed(db, [issuerAllowed(5, ISSUER, "Restored", 0b10)]);
+      expect(queryIssuers(db, { issuer: ISSUER }).items[0]).to.deep.include({
+        status: "allowed",
+        displayName: "Restored",
+      });
+    });
+
+    it("should count a reveal only for the proof generated last before it", async function () {
+      seed(db, [
+        indexedEvent("ProofGenerated", 1, 0, { holder: ALICE }),
+        indexedEvent("ProofGenerated", 2, 0, { holder: ALICE }),
+        indexedEvent("ProofRevealed", 3, 0, { holder: ALICE }),
+        indexedEvent("ProofGenerated", 4, 0, { holder: ALICE }),
+      ]);
+
+      const proofs = queryProofs(db, { holder: ALICE }).items;
+      expect(proofs.map((proof) => [proof.blockNumber, proof.revealedAt])).to.deep.eq([
+        [4, null],
+        [2, block(3).timestamp],
+        [1, null],
+      ]);
+    });
+
+    it("should page events oldest first and count every match", async function () {
+      seed(
+        db,
+        [1, 2, 3, 4, 5].map((n) => credentialAdded(n, 0, ALICE, n)),
+      );
+
+      const page = queryEvents(db, { holder: ALICE }, { limit: 2, offset: 1 });
+      expect(page.items.map((event) => event.blockNumber)).to.deep.eq([2, 3]);
+      expect(page.totalCount).to.eq(5);
+
+      const last = queryEvents(db, { holder: ALICE }, { limit: 2, offset: 4 });
+      expect(last.items.map((event) => event.blockNumber)).to.deep.eq([5]);
+      const beyond = queryEvents(db, { holder: ALICE }, { limit: 2, offset: 5 });
+      expect(beyond.items).to.deep.eq([]);
+      expect(beyond.totalCount).to.eq(5);
+      expect(queryEvents(db, { holder: ALICE }, { limit: 0, offset: 0 }).items).to.deep.eq([]);
+    });
+
+    it("should page events after a block and log index, including later logs of that block", async function () {
+      seed(db, [credentialAdded(1, 0, ALICE, 0), credentialAdded(1, 1, ALICE, 1), credentialAdded(2, 0, ALICE, 2)]);
+
+      const page = queryEvents(db, { holder: ALICE, after: { blockNumber: 1, logIndex: 0 } }, { limit: 1, offset: 0 });
+      expect(page.items.map((event) => [event.blockNumber, event.logIndex])).to.deep.eq([[1, 1]]);
+      const next = queryEvents(db, { holder: ALICE, after: { blockNumber: 1, logIndex: 1 } });
+      expect(next.items.map((event) => [event.blockNumber, event.logIndex])).to.deep.eq([[2, 0]]);
+      expect(queryEvents(db, { after: { blockNumber: 2, logIndex: 0 } }).items).to.deep.eq([]);
+    });
+
+    it("should drop the events and blocks above the ancestor on rollback", async function () {
+      seed(db, [credentialAdded(1, 0, ALICE, 0), credentialAdded(2, 0, ALICE, 1), credentialRevoked(3, 0, ALICE, 0)]);
+
+      rollback(db, block(1));
+
+      expect(getCheckpoint(db)).to.deep.eq(block(1));
+      expect(queryEvents(db, {}).items.map((event) => event.blockNumber)).to.deep.eq([1]);
+      expect(queryCredentials(db, { holder: ALICE }).items[0].revokedAt).to.eq(null);
+    });
+  });
+
+  describe("syncOnce", function () {
+    let deployer: HardhatEthersSigner;
+    let issuer: HardhatEthersSigner;
+    let alice: HardhatEthersSigner;
+    let vcIdContract: VcIdFHE;
+    let options: SyncOptions;
+
+    before(async function () {
+      [deployer, issuer, alice] = await ethers.getSigners();
+    });
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+
+      const factory = (await ethers.getContractFactory("VcIdFHE")) as VcIdFHE__factory;
+      vcIdContract = (await factory.deploy()) as VcIdFHE;
+      const receipt = await vcIdContract.deploymentTransaction()!.wait();
+      options = {
+        contractAddress: await vcIdContract.getAddress(),
+        startBlock: receipt!.blockNumber,
+        confirmations: 0,
+        batchSize: 2_000,
+        keepBlocks: 128,
+      };
+      db.close();
+      db = openStore(":memory:", CHAIN_ID, options.contractAddress);
+    });
+
+    async function allowIssuer(address: string, displayName: string) {
+      return (await vcIdContract.connect(deployer).allowIssuer(address, displayName, 0b10)).wait();
+    }
+
+    it("should index the contract's events up to the head", async function () {
+      await allowIssuer(issuer.address, "Test Issuer");
+      await (await vcIdContract.registerSchema("TestType1", 1, 0, 32, id("TestType1"))).wait();
+      const expiry = (await time.latest()) + 365 * 24 * 60 * 60;
+      const encryptedInput = await fhevm
+        .createEncryptedInput(options.contractAddress, issuer.address)
+        .add64(7)
+        .add32(expiry)
+        .encrypt();
+      await (
+        await vcIdContract
+          .connect(issuer)
+          .addCredential(
+            alice.address,
+            1,
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+          )
+      ).wait();
+      await (await vcIdContract.connect(issuer).revokeCredential(alice.address, 0)).wait();
+
+      const head = await ethers.provider.getBlock("latest");
+      const result = await syncOnce(db, ethers.provider, options);
+      expect(result).to.deep.include({ fromBlock: options.startBlock, toBlock: head!.number, behind: 0 });
+      expect(getCheckpoint(db)).to.deep.eq({ number: head!.number, hash: head!.hash, timestamp: head!.timestamp });
+
+      expect(queryEvents(db, {}).items.map((event) => event.name)).to.deep.eq([
+        "IssuerAllowed",
+        "SchemaRegistered",
+        "CredentialAdded",
+        "CredentialRevoked",
+      ]);
+      expect(queryEvents(db, { names: ["SchemaRegistered"] }).items[0].data).to.deep.eq({
+        schemaId: 1,
+        name: "TestType1",
+        credentialType: 1,
+        definitionHash: id("TestType1"),
+      });
+      const [credential] = queryCredentials(db, { holder: alice.address }).items;
+      expect(credential).to.deep.include({ holder: alice.address, issuer: issuer.address, credentialId: 0 });
+      expect(credential.revokedAt).to.eq(head!.timestamp);
+      expect(queryIssuers(db, {}).items[0]).to.deep.include({ issuer: issuer.address, displayName: "Test Issuer" });
+
+      expect(await syncOnce(db, ethers.provider, options)).to.eq(null);
+    });
+
+    it("should stay the configured confirmations behind the head and sync in batches", async function () {
+      for (const name of ["First", "Second", "Third", "Fourth"]) {
+        await allowIssuer(issuer.address, name);
+      }
+      const head = await ethers.provider.getBlockNumber();
+
+      const first = await syncOnce(db, ethers.provider, { ...options, confirmations: 1, batchSize: 2 });
+      expect(first).to.deep.include({ fromBlock: options.startBlock, toBlock: options.startBlock + 1 });
+      expect(first!.behind).to.eq(head - 1 - (options.startBlock + 1));
+
+      while ((await syncOnce(db, ethers.provider, { ...options, confirmations: 1, batchSize: 2 })) !== null) {
+        // Until caught up
+      }
+      expect(getCheckpoint(db)!.number).to.eq(head - 1);
+      expect(queryIssuers(db, {}).items[0].displayName).to.eq("Third");
+    });
+
+    it("should roll back the orphaned blocks and index the new branch after a reorg", async function () {
+      await allowIssuer(issuer.address, "Kept");
+      await syncOnce(db, ethers.provider, options);
+      const ancestor = getCheckpoint(db)!;
+
+      const snapshot = await takeSnapshot();
+      await allowIssuer(alice.address, "Orphaned");
+      await syncOnce(db, ethers.provider, options);
+      expect(queryIssuers(db, { issuer: alice.address }).totalCount).to.eq(1);
+
+      // The orphaned block is replaced by one at the same height with another transaction
+      await snapshot.restore();
+      await allowIssuer(deployer.address, "Replacement");
+      const result = await syncOnce(db, ethers.provider, options);
+
+      expect(result).to.deep.include({ fromBlock: ancestor.number + 1, toBlock: ancestor.number + 1 });
+      expect(getCheckpoint(db)!.hash).to.eq((await ethers.provider.getBlock(ancestor.number + 1))!.hash);
+      expect(queryIssuers(db, {}).items.map((entry) => entry.displayName)).to.deep.eq(["Kept", "Replacement"]);
+    });
+  });
+
+  describe("HTTP API", function () {
+    let server: http.Server;
+    let baseUrl: string;
+
+    async function get(path: string) {
+      const response = await fetch(baseUrl + path);
+      return { status: response.status, body: (await response.json()) as ApiBody };
+    }
+
+    beforeEach(async function () {
+      seed(db, [
+        issuerAllowed(1, ISSUER, "Test Issuer", 0b10),
+        credentialAdded(2, 0, ALICE, 0),
+        credentialAdded(3, 0, ALICE, 1),
+        credentialAdded(4, 0, BOB, 0),
+        indexedEvent("ProofGenerated", 5, 0, { holder: ALICE }),
+        credentialRevoked(6, 0, ALICE, 0),
+      ]);
+
+      const context: ApiContext = { db, chainId: CHAIN_ID, contractAddress: CONTRACT, indexed: new EventEmitter() };
+      server = createApiServer(context);
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async function () {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should report the chain, contract and checkpoint", async function () {
+      const { status, body } = await get("/status");
+      expect(status).to.eq(200);
+      expect(body).to.deep.eq({ chainId: CHAIN_ID, contractAddress: CONTRACT, checkpoint: block(6) });
+    });
+
+    it("should list a holder's events with the checkpoint, filtered and paged", async function () {
+      const { body } = await get(`/holders/${ALICE.toLowerCase()}/events?name=CredentialAdded,ProofGenerated`);
+      expect(body.checkpoint).to.eq(6);
+      expect(body.events.map((event) => [event.name, event.blockNumber, event.holder])).to.deep.eq([
+        ["CredentialAdded", 2, ALICE],
+        ["CredentialAdded", 3, ALICE],
+        ["ProofGenerated", 5, ALICE],
+      ]);
+
+      const page = await get(`/holders/${ALICE}/events?limit=2&offset=2`);
+      expect(page.body.events.map((event) => event.blockNumber)).to.deep.eq([5, 6]);
+      const beyond = await get(`/holders/${ALICE}/events?limit=2&offset=4`);
+      expect(beyond.body.events).to.deep.eq([]);
+    });
+
+    it("should page a holder's events after a block and log index", async function () {
+      const first = await get(`/holders/${ALICE}/events?limit=2`);
+      const last = first.body.events[1];
+      expect([last.blockNumber, last.logIndex]).to.deep.eq([3, 0]);
+
+      const next = await get(`/holders/${ALICE}/events?limit=2&after=3:0`);
+      expect(next.body.events.map((event) => event.blockNumber)).to.deep.eq([5, 6]);
+      const rest = await get(`/holders/${ALICE}/events?after=2:0`);
+      expect(rest.body.events.map((event) => event.blockNumber)).to.deep.eq([3, 5, 6]);
+      const beyond = await get(`/holders/${ALICE}/events?after=6:0`);
+      expect(beyond.body.events).to.deep.eq([]);
+    });
+
+    it("should bound lists by block time in unix seconds or ISO dates", async function () {
+      const { body } = await get(`/holders/${ALICE}/credentials?from=${block(3).timestamp}`);
+      expect(body.credentials.map((credential) => credential.credentialId)).to.deep.eq([1]);
+
+      const to = new Date(block(3).timestamp * 1000).toISOString();
+      const issued = await get(`/issuers/${ISSUER}/credentials?to=${to}`);
+      expect(issued.body.credentials.map((credential) => credential.holder)).to.deep.eq([ALICE, ALICE]);
+      expect(issued.body.credentials[1].revokedAt).to.eq(block(6).timestamp);
+    });
+
+    it("should list every issuer's status", async function () {
+      const { body } = await get("/issuers");
+      expect(body.issuers).to.have.length(1);
+      expect(body.issuers[0]).to.deep.include({ issuer: ISSUER, status: "allowed", displayName: "Test Issuer" });
+    });
+
+    it("should reject malformed time bounds, counts, addresses and GraphQL variables with 400", async function () {
+      const cases: [string, string][] = [
+        [`/holders/${ALICE}/events?from=yesterday`, "from must be unix seconds or an ISO date"],
+        [`/holders/${ALICE}/credentials?to=2024-13-45`, "to must be unix seconds or an ISO date"],
+        [`/holders/${ALICE}/events?limit=-1`, "limit must be a non-negative integer"],
+        [`/holders/${ALICE}/events?limit=1.5`, "limit must be a non-negative integer"],
+        [`/events?offset=ten`, "offset must be a non-negative integer"],
+        [`/holders/${ALICE}/events?after=5`, "after must be blockNumber:logIndex"],
+        ["/holders/0x1234/events", "holder is not an address"],
+        ["/issuers/not-an-address/credentials", "issuer is not an address"],
+        ["/events?verifier=0xzz", "verifier is not an address"],
+        ["/graphql?query={status{chainId}}&variables={bad", "variables must be a JSON object"],
+      ];
+      for (const [path, error] of cases) {
+        const response = await get(path);
+        expect(response, path).to.deep.eq({ status: 400, body: { error } });
+      }
+    });
+
+    it("should answer 404 for unknown routes and 405 for other methods", async function () {
+      expect((await get("/holders")).status).to.eq(404);
+      expect((await get(`/issuers/${ISSUER}/events`)).status).to.eq(404);
+      const response = await fetch(`${baseUrl}/events`, { method: "DELETE" });
+      expect(response.status).to.eq(405);
+    });
+  });
+
+  describe("GraphQL", function () {
+    let context: ApiContext;
+
+    // Resolves to the result's data, failing on any error
+    async function query<T = Record<string, Record<string, unknown>>>(
+      source: string,
+      variables: Record<string, unknown> = {},
+    ) {
+      const result = await executeGraphQL(context, { query: source, variables });
+      expect(result.errors, result.errors?.map((error) => error.message).join("; ")).to.eq(undefined);
+      return result.data as T;
+    }
+
+    async function queryError(source: string, variables: Record<string, unknown> = {}) {
+      const result = await executeGraphQL(context, { query: source, variables });
+      return result.errors?.map((error) => error.message);
+    }
+
+    interface CredentialsPage {
+      credentials: {
+        nodes: { credentialId: number }[];
+        totalCount: number;
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    }
+    const CREDENTIALS = `
+      query ($first: Int, $after: String) {
+        credentials(holder: "${ALICE}", first: $first, after: $after) {
+          nodes { credentialId }
+          totalCount
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `;
+
+    beforeEach(function () {
+      seed(db, [
+        issuerAllowed(1, ISSUER, "Test Issuer", 0b10),
+        indexedEvent("IssuerDenied", 2, 0, { issuer: OTHER_ISSUER }),
+        ...[0, 1, 2, 3, 4].map((credentialId) => credentialAdded(3 + credentialId, 0, ALICE, credentialId)),
+        credentialRevoked(8, 0, ALICE, 4),
+        indexedEvent("ProofGenerated", 9, 0, { holder: ALICE }),
+        indexedEvent("ProofRequestAnswered", 10, 0, { holder: BOB, verifier: ISSUER, requestId: id("request") }),
+        indexedEvent("ProofRequestAnswered", 11, 0, { holder: ALICE, verifier: ISSUER, requestId: id("request") }),
+      ]);
+      context = { db, chainId: CHAIN_ID, contractAddress: CONTRACT, indexed: new EventEmitter() };
+    });
+
+    it("should page through a connection with first and endCursor", async function () {
+      const ids: number[] = [];
+      let after: string | null = null;
+      for (const hasNextPage of [true, true, false]) {
+        const { credentials }: CredentialsPage = await query(CREDENTIALS, { first: 2, after });
+        expect(credentials.totalCount).to.eq(5);
+        expect(credentials.pageInfo.hasNextPage).to.eq(hasNextPage);
+        ids.push(...credentials.nodes.map((node) => node.credentialId));
+        after = credentials.pageInfo.endCursor;
+      }
+      expect(ids).to.deep.eq([4, 3, 2, 1, 0]);
+
+      const { credentials } = await query<CredentialsPage>(CREDENTIALS, { first: 2, after });
+      expect(credentials.nodes).to.deep.eq([]);
+      expect(credentials.pageInfo).to.deep.eq({ hasNextPage: false, endCursor: null });
+    });
+
+    it("should answer an empty page with no cursor for first: 0", async function () {
+      const { credentials } = await query<CredentialsPage>(CREDENTIALS, { first: 0 });
+      expect(credentials.nodes).to.deep.eq([]);
+      expect(credentials.pageInfo).to.deep.eq({ hasNextPage: true, endCursor: null });
+    });
+
+    it("should reject page sizes out of range, foreign cursors and malformed addresses", async function () {
+      expect(await queryError(CREDENTIALS, { first: 101 })).to.deep.eq(["first must be between 0 and 100"]);
+      expect(await queryError(CREDENTIALS, { first: -1 })).to.deep.eq(["first must be between 0 and 100"]);
+      expect(await queryError(CREDENTIALS, { after: "bm90LWEtY3Vyc29y" })).to.deep.eq([
+        'Invalid cursor "bm90LWEtY3Vyc29y"',
+      ]);
+      expect(await queryError(`{ holder(address: "0x1234") { address } }`)).to.deep.eq(["address is not an address"]);
+      expect(await queryError(`{ proofs(holder: "alice") { totalCount } }`)).to.deep.eq(["holder is not an address"]);
+      expect((await executeGraphQL(context, {})).errors?.map((error) => error.message)).to.deep.eq(["Missing query"]);
+    });
+
+    it("should resolve issuers with their status and credentials", async function () {
+      const { allowed, denied } = await query(`{
+        allowed: issuers(status: ALLOWED) {
+          nodes {
+            address
+            status
+            displayName
+            allowedCredentialTypes
+            credentials(revoked: true) { nodes { id revoked revokedAt } }
+          }
+        }
+        denied: issuers(status: DENIED) { nodes { address status displayName } }
+      }`);
+
+      expect(allowed.nodes).to.deep.eq([
+        {
+          address: ISSUER,
+          status: "ALLOWED",
+          displayName: "Test Issuer",
+          allowedCredentialTypes: 0b10,
+          credentials: { nodes: [{ id: `${ALICE}:4`, revoked: true, revokedAt: block(8).timestamp }] },
+        },
+      ]);
+      // Denied without ever being allowed: no name on record
+      expect(denied.nodes).to.deep.eq([{ address: OTHER_ISSUER, status: "DENIED", displayName: null }]);
+    });
+
+    it("should resolve a holder's credentials and proofs and a credential's issuer", async function () {
+      const { holder } = await query(`{
+        holder(address: "${ALICE.toLowerCase()}") {
+          address
+          credentials(revoked: false, first: 1) { totalCount nodes { credentialId issuer { displayName } } }
+          proofs { nodes { kind generatedAt revealedAt } }
+        }
+      }`);
+
+      expect(holder.address).to.eq(ALICE.toLowerCase());
+      expect(holder.credentials).to.deep.eq({
+        totalCount: 4,
+        nodes: [{ credentialId: 3, issuer: { displayName: "Test Issuer" } }],
+      });
+      expect(holder.proofs).to.deep.eq({
+        nodes: [{ kind: "COMPOSITE", generatedAt: block(9).timestamp, revealedAt: null }],
+      });
+    });
+
+    it("should resolve a proof request with its answers", async function () {
+      const { proofRequest, missing } = await query(
+        `query ($id: ID!) {
+          proofRequest(id: $id) {
+            verifier
+            answerCount
+            firstAnsweredAt
+            lastAnsweredAt
+            answers(first: 1) { nodes { pseudonym } pageInfo { hasNextPage } }
+          }
+          missing: proofRequest(id: "${id("other")}") { id }
+        }`,
+        { id: id("request") },
+      );
+
+      expect(proofRequest).to.deep.eq({
+        verifier: ISSUER,
+        answerCount: 2,
+        firstAnsweredAt: block(10).timestamp,
+        lastAnsweredAt: block(11).timestamp,
+        answers: { nodes: [{ pseudonym: BOB }], pageInfo: { hasNextPage: true } },
+      });
+      expect(missing).to.eq(null);
+    });
+
+    it("should report the checkpoint in the status", async function () {
+      const { status } = await query("{ status { chainId contractAddress checkpoint } }");
+      expect(status).to.deep.eq({ chainId: CHAIN_ID, contractAddress: CONTRACT, checkpoint: 11 });
+    });
+
+    it("should push a holder's newly indexed ProofGenerated events to subscribers", async function () {
+      const subscription = createRoot(context).proofGenerated({ holder: ALICE.toLowerCase() });
+      const next = subscription.next();
+
+      context.indexed.emit("events", [
+        indexedEvent("ProofGenerated", 12, 0, { holder: BOB }),
+        indexedEvent("CredentialAdded", 12, 1, { holder: ALICE, issuer: ISSUER, credentialId: 5 }),
+        indexedEvent("ProofGenerated", 12, 2, { holder: ALICE }),
+      ]);
+
+      const { value } = await next;
+      expect(value)
+        .to.have.property("proofGenerated")
+        .that.deep.includes({
+          id: "12:2",
+          kind: "COMPOSITE",
+          transactionHash: id("tx 12:2"),
+          revealedAt: null,
+        });
+      await subscription.return(undefined);
+    });
+  });
+});
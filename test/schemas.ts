@@ -0,0 +1,65 @@
+import { decodeAttributes, decodeField, DEFAULT_SCHEMAS, encodeAttributes, encodeField, SchemaField } from "../schemas";
+import { expect } from "chai";
+
+const identity = DEFAULT_SCHEMAS.find((schema) => schema.name === "IdentityV1")!;
+const birthDate = identity.fields.find((field) => field.name === "birthDate")!;
+
+const uint = (bits: number): SchemaField => ({ name: "value", label: "Value", bits, encoding: { kind: "uint" } });
+
+describe("schema codec", function () {
+  describe("date fields", function () {
+    it("should count days from 1900-01-01", function () {
+      expect(encodeField(birthDate, "1900-01-01")).to.eq(0n);
+      expect(encodeField(birthDate, "1900-01-02")).to.eq(1n);
+      expect(encodeField(birthDate, "1970-01-01")).to.eq(25567n);
+      // Unix seconds, as in JWT claims
+      expect(encodeField(birthDate, 0)).to.eq(25567n);
+    });
+
+    it("should round-trip dates before 1970 in the order they fall", function () {
+      const fields = { assuranceLevel: 2, documentKind: "passport", over18: true, birthDate: "1965-05-01" };
+      const decoded = decodeAttributes(identity, encodeAttributes(identity, fields));
+
+      expect(decoded).to.deep.eq(fields);
+      expect(encodeField(birthDate, "1965-05-01") < encodeField(birthDate, "1970-01-01")).to.eq(true);
+      expect(encodeField(birthDate, -1)).to.eq(25566n);
+    });
+
+    it("should reject dates before the epoch and past the field width", function () {
+      expect(() => encodeField(birthDate, "1899-12-31")).to.throw("Birth Date must be a date from 1900-01-01");
+      expect(() => encodeField(birthDate, "not a date")).to.throw("Birth Date must be a date from 1900-01-01");
+
+      // 16 bits hold 65535 days
+      expect(decodeField(birthDate, 65535n)).to.eq("2079-06-06");
+      expect(encodeField(birthDate, "2079-06-06")).to.eq(65535n);
+      expect(() => encodeField(birthDate, "2079-06-07")).to.throw("Birth Date does not fit in 16 bits");
+    });
+  });
+
+  describe("uint fields", function () {
+    it("should accept values up to the field width", function () {
+      expect(encodeField(uint(4), 15)).to.eq(15n);
+      expect(encodeField(uint(4), "15")).to.eq(15n);
+      expect(() => encodeField(uint(4), 16)).to.throw("Value does not fit in 4 bits");
+      expect(() => encodeField(uint(4), -1)).to.throw("Value must be a non-negative integer");
+      expect(() => encodeField(uint(4), 1.5)).to.throw("Value must be a non-negative integer");
+    });
+
+    it("should decode fields up to 53 bits as numbers", function () {
+      const max = 2n ** 53n - 1n;
+      expect(encodeField(uint(53), Number.MAX_SAFE_INTEGER)).to.eq(max);
+      expect(decodeField(uint(53), max)).to.eq(Number.MAX_SAFE_INTEGER);
+    });
+
+    it("should keep wider fields exact through decimal strings", function () {
+      const max = 2n ** 64n - 1n;
+      expect(encodeField(uint(64), max.toString())).to.eq(max);
+      expect(decodeField(uint(64), max)).to.eq("18446744073709551615");
+      expect(encodeField(uint(64), "9007199254740993")).to.eq(2n ** 53n + 1n);
+
+      expect(() => encodeField(uint(64), (2n ** 64n).toString())).to.throw("Value does not fit in 64 bits");
+      // Already rounded: 2 ** 53 + 1 is not representable as a number
+      expect(() => encodeField(uint(64), 2 ** 53 + 1)).to.throw("Value must be a non-negative integer");
+    });
+  });
+});
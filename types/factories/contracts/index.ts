@@ -1,4 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export { VcIdFHE__factory } from "./VcIdFHE__factory";
@@ -46,9 +46,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "VcIdFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.VcIdFHE__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -91,10 +91,10 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalAdapter",
+      name: "VcIdFHE",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.VcIdFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -129,9 +129,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "VcIdFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.VcIdFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -174,10 +174,10 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "VcIdFHE",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.VcIdFHE>;
 
     // default types
     getContractFactory(
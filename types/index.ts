@@ -22,5 +22,5 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { VcIdFHE } from "./contracts/VcIdFHE";
+export { VcIdFHE__factory } from "./factories/contracts/VcIdFHE__factory";